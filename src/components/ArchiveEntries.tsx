@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronRight, FileArchive } from 'lucide-react';
+import { Document } from '@/types/atlas';
+
+interface ArchiveEntriesProps {
+  archive: Document;
+  // Called with an entry's file id to show that file on its own
+  onOpen?: (id: string) => void;
+}
+
+// Files unpacked from an archive or mailbox, or attached to an email, listed under the parent's
+// card; each is processed like an upload
+export const ArchiveEntries = ({ archive, onOpen }: ArchiveEntriesProps) => {
+  const [open, setOpen] = useState(false);
+  const children = archive.children ?? [];
+  const skipped = archive.archiveSummary?.skipped ?? [];
+  // Entry paths are stored under the archive's own path ("receipts.zip/2024/a.pdf")
+  const root = `${archive.relativePath || archive.name}/`;
+  const processing = children.filter(child => child.status === 'pending' || child.status === 'processing').length;
+
+  if (children.length === 0 && skipped.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded border">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start gap-2 text-xs">
+          {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <FileArchive className="h-3 w-3" />
+          {children.length} {archive.type === 'email' ? 'attachment(s)' : archive.archiveSummary?.format === 'mbox' ? 'message(s)' : 'file(s)'}
+          {processing > 0 && <span className="text-muted-foreground">· {processing} processing</span>}
+          {skipped.length > 0 && <span className="text-muted-foreground">· {skipped.length} skipped</span>}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="max-h-48 overflow-y-auto px-3 pb-2 space-y-1">
+          {children.map(child => {
+            const path = child.relativePath?.startsWith(root) ? child.relativePath.slice(root.length) : child.relativePath || child.name;
+            return (
+              <li key={child.id} className="flex items-center justify-between gap-2 text-xs">
+                {onOpen ? (
+                  <button type="button" className="truncate text-left hover:underline" title={path} onClick={() => onOpen(child.id)}>
+                    {path}
+                  </button>
+                ) : (
+                  <span className="truncate" title={path}>{path}</span>
+                )}
+                <Badge
+                  variant={child.status === 'completed' ? 'default' : child.status === 'error' || child.status === 'quarantined' ? 'destructive' : 'secondary'}
+                  title={child.errorMessage}
+                  className="text-xs"
+                >
+                  {child.status}
+                </Badge>
+              </li>
+            );
+          })}
+          {skipped.map((entry, index) => (
+            <li key={`skipped-${index}`} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span className="truncate line-through" title={entry.path}>{entry.path}</span>
+              <span className="whitespace-nowrap" title={entry.reason}>skipped</span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -1,14 +1,49 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import axios from 'axios';
 import { Link } from 'react-router-dom';
-import { Document } from '@/types/atlas';
+import { Document, FileFilters, Folder } from '@/types/atlas';
 import AtlasAPI from '@/services/api';
+import { SheetPreviewDialog } from '@/components/SheetPreviewDialog';
+import { PageViewerDialog } from '@/components/PageViewerDialog';
+import { ImageCompareDialog } from '@/components/ImageCompareDialog';
+import { DeadLetterPanel } from '@/components/DeadLetterPanel';
+import { DuplicateReviewPanel } from '@/components/DuplicateReviewPanel';
+import { QuarantinePanel } from '@/components/QuarantinePanel';
+import { TrashPanel } from '@/components/TrashPanel';
+import { ArchiveEntries } from '@/components/ArchiveEntries';
+import { FileActions } from '@/components/FileActions';
+import { VersionHistoryDialog } from '@/components/VersionHistoryDialog';
+import { FolderTree } from '@/components/FolderTree';
+import { FileDropZone } from '@/components/FileDropZone';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from '@/components/ui/breadcrumb';
 import { useToast } from '@/components/ui/use-toast';
-import { Upload, Search, File, Calendar, HardDrive, Tag, Home, ArrowLeft } from 'lucide-react';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { folderPath } from '@/lib/folders';
+import { PendingFile, describeLimits } from '@/lib/file-drop';
+import { useUploadLimits } from '@/hooks/use-upload-limits';
+import { Upload, Search, File, Calendar, HardDrive, Tag, Home, ArrowLeft, Mail, CornerLeftUp, Camera, MapPin } from 'lucide-react';
+
+// How often the file list is refreshed while any file is pending or processing
+const STATUS_POLL_INTERVAL_MS = 5000;
+// Mirrors LOW_CONFIDENCE_THRESHOLD in the file-geometry function
+const LOW_OCR_CONFIDENCE = 60;
+// Files uploaded at once
+const UPLOAD_CONCURRENCY = 3;
+// Embedded metadata fields the metadata filter can match (files.metadata paths)
+const METADATA_FIELDS = [
+  { path: 'pdf.author', label: 'PDF author' },
+  { path: 'pdf.title', label: 'PDF title' },
+  { path: 'pdf.producer', label: 'PDF producer' },
+  { path: 'exif.camera', label: 'Camera' },
+];
 
 interface DashboardProps {
   className?: string;
@@ -16,10 +51,21 @@ interface DashboardProps {
 
 const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
   const [files, setFiles] = useState<Document[]>([]);
-  const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<PendingFile[]>([]);
   const [uploading, setUploading] = useState(false);
+  // Overall progress of the running batch, 0-100
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const uploadController = useRef<AbortController | null>(null);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  // Sender and date filters over email headers
+  const [filters, setFilters] = useState<FileFilters>({});
+  const [metadataField, setMetadataField] = useState(METADATA_FIELDS[0].path);
+  const [metadataValue, setMetadataValue] = useState('');
+  // Set when following a link to one document, e.g. from an attachment to its email
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [pageView, setPageView] = useState<{ file: Document; page: number } | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
   const [pagination, setPagination] = useState({
     limit: 20,
     offset: 0,
@@ -27,21 +73,27 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
     has_more: false
   });
   
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const uploadLimits = useUploadLimits();
 
   // Fetch files on component mount and when search/pagination changes
   useEffect(() => {
     fetchFiles();
-  }, [searchQuery, pagination.offset]);
+  }, [searchQuery, pagination.offset, filters, focusedId]);
+
+  useEffect(() => {
+    fetchFolders();
+  }, []);
 
-  const fetchFiles = async () => {
-    setLoading(true);
+  const fetchFiles = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) setLoading(true);
     try {
       const response = await AtlasAPI.getFiles({
         limit: pagination.limit,
         offset: pagination.offset,
-        search: searchQuery || undefined
+        search: searchQuery || undefined,
+        ...filters,
+        id: focusedId || undefined,
       });
 
       if (response.success) {
@@ -51,7 +103,7 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
           total: response.data.pagination.total,
           has_more: response.data.pagination.has_more
         }));
-      } else {
+      } else if (!silent) {
         toast({
           title: "Error",
           description: response.error || "Failed to fetch files",
@@ -60,21 +112,40 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
       }
     } catch (error) {
       console.error('Error fetching files:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch files",
-        variant: "destructive",
-      });
+      if (!silent) {
+        toast({
+          title: "Error",
+          description: "Failed to fetch files",
+          variant: "destructive",
+        });
+      }
     }
-    setLoading(false);
-  };
+    if (!silent) setLoading(false);
+  }, [pagination.limit, pagination.offset, searchQuery, filters, focusedId, toast]);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSelectedFiles(event.target.files);
+  // Poll quietly while uploads (or the files unpacked from an archive) are still queued or being processed
+  useEffect(() => {
+    const isActive = (status: Document['status']) => status === 'pending' || status === 'processing';
+    const hasActiveJobs = files.some(file => isActive(file.status) || file.children?.some(child => isActive(child.status)));
+    if (!hasActiveJobs) return;
+    const timer = setTimeout(() => fetchFiles({ silent: true }), STATUS_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [files, fetchFiles]);
+
+  // Folder counts change with uploads and moves, and dropped folders create new ones
+  const fetchFolders = async () => {
+    const response = await AtlasAPI.getFolders();
+    if (response.success && response.data) {
+      setFolders(response.data);
+    }
   };
 
+  const handleFilesAdded = useCallback((added: PendingFile[]) => {
+    setSelectedFiles(prev => [...prev, ...added]);
+  }, []);
+
   const handleUpload = async () => {
-    if (!selectedFiles || selectedFiles.length === 0) {
+    if (selectedFiles.length === 0) {
       toast({
         title: "No files selected",
         description: "Please select files to upload",
@@ -84,16 +155,37 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
     }
 
     setUploading(true);
+    setUploadProgress(0);
+    const controller = new AbortController();
+    uploadController.current = controller;
     let successCount = 0;
+    let skippedCount = 0;
     let failCount = 0;
 
+    const batch = selectedFiles;
+    const totalBytes = batch.reduce((sum, { file }) => sum + file.size, 0);
+    const loadedBytes = new Map<File, number>();
+    const reportProgress = (file: File, loaded: number) => {
+      loadedBytes.set(file, loaded);
+      const loadedTotal = [...loadedBytes.values()].reduce((sum, bytes) => sum + bytes, 0);
+      setUploadProgress(totalBytes > 0 ? Math.round(loadedTotal / totalBytes * 100) : 0);
+    };
+
     try {
-      for (const file of Array.from(selectedFiles)) {
+      await runWithConcurrency(batch, UPLOAD_CONCURRENCY, async ({ file, relativePath }) => {
+        if (controller.signal.aborted) return;
         try {
-          const response = await AtlasAPI.uploadDocument(file);
-          if (response.success) {
+          const response = await AtlasAPI.uploadDocument(file, undefined, {
+            relativePath,
+            folderId: filters.folderId,
+            signal: controller.signal,
+            onProgress: ({ loaded }) => reportProgress(file, loaded),
+          });
+          if (response.success && response.data?.outcome === 'skipped') {
+            skippedCount++;
+          } else if (response.success) {
             successCount++;
-          } else {
+          } else if (!controller.signal.aborted) {
             failCount++;
             console.error(`Failed to upload ${file.name}:`, response.error);
           }
@@ -101,26 +193,39 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
           failCount++;
           console.error(`Upload error for ${file.name}:`, error);
         }
+      });
+
+      if (controller.signal.aborted) {
+        toast({
+          title: "Upload cancelled",
+          description: `${successCount + skippedCount} of ${batch.length} file(s) finished before cancelling`,
+        });
       }
 
       if (successCount > 0) {
         toast({
           title: "Upload successful",
-          description: `${successCount} file(s) uploaded successfully`,
+          description: `${successCount} file(s) uploaded and queued for processing`,
         });
         
         // Clear selected files and refresh file list
-        setSelectedFiles(null);
-        if (fileInputRef.current) fileInputRef.current.value = '';
+        setSelectedFiles([]);
         
         // Reset to first page and refresh
         setPagination(prev => ({ ...prev, offset: 0 }));
-        await fetchFiles();
+        await Promise.all([fetchFiles(), fetchFolders()]);
+      }
+
+      if (skippedCount > 0) {
+        toast({
+          title: "Duplicates skipped",
+          description: `${skippedCount} file(s) were already uploaded`,
+        });
       }
 
       if (failCount > 0) {
         toast({
-          title: failCount === selectedFiles.length ? "Upload failed" : "Partial upload failure",
+          title: failCount === batch.length ? "Upload failed" : "Partial upload failure",
           description: `${failCount} file(s) failed to upload`,
           variant: "destructive",
         });
@@ -134,6 +239,7 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
       });
     }
     
+    uploadController.current = null;
     setUploading(false);
   };
 
@@ -149,6 +255,33 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
     setPagination(prev => ({ ...prev, offset: 0 }));
   };
 
+  const handleFilterChange = (name: keyof FileFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [name]: value || undefined }));
+    setPagination(prev => ({ ...prev, offset: 0 }));
+  };
+
+  const handleMetadataFilterChange = (field: string, value: string) => {
+    setMetadataField(field);
+    setMetadataValue(value);
+    setFilters(prev => ({ ...prev, metadata: value.trim() ? [`${field}:${value.trim()}`] : undefined }));
+    setPagination(prev => ({ ...prev, offset: 0 }));
+  };
+
+  const selectFolder = (folderId: string | null) => {
+    setFocusedId(null);
+    setFilters(prev => ({ ...prev, folderId: folderId ?? undefined }));
+    setPagination(prev => ({ ...prev, offset: 0 }));
+  };
+
+  // Shows just this document; the search and filters would usually hide it
+  const focusFile = (id: string) => {
+    setSearchQuery('');
+    setFilters({});
+    setMetadataValue('');
+    setFocusedId(id);
+    setPagination(prev => ({ ...prev, offset: 0 }));
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -171,6 +304,23 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
     return <File className="h-4 w-4" />;
   };
 
+  const currentPath = folderPath(folders, filters.folderId);
+  const currentFolder = currentPath[currentPath.length - 1];
+
+  const handleFileChanged = () => {
+    fetchFiles({ silent: true });
+    fetchFolders();
+  };
+
+  const handleFileDeleted = (id: string) => {
+    if (focusedId === id) {
+      setFocusedId(null);
+      return;
+    }
+    setFiles(prev => prev.filter(file => file.id !== id));
+    setPagination(prev => ({ ...prev, total: Math.max(0, prev.total - 1) }));
+  };
+
   const loadMore = () => {
     setPagination(prev => ({
       ...prev,
@@ -210,28 +360,49 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
             <CardTitle className="flex items-center gap-2">
               <Upload className="h-5 w-5" />
               Upload Files
+              {currentFolder && (
+                <span className="text-base font-normal text-muted-foreground truncate">
+                  to {currentPath.map(folder => folder.name).join(' / ')}
+                </span>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <FileDropZone onFilesAdded={handleFilesAdded} disabled={uploading} className="p-4" />
+            {selectedFiles.length > 0 && (
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-muted-foreground" title={selectedFiles.map(({ file, relativePath }) => relativePath || file.name).join('\n')}>
+                  {selectedFiles.length} file(s) ready: {selectedFiles.map(({ file, relativePath }) => relativePath || file.name).join(', ')}
+                </span>
+                {!uploading && (
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedFiles([])}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            )}
             <div className="flex flex-col sm:flex-row gap-4">
-              <Input
-                type="file"
-                ref={fileInputRef}
-                onChange={handleFileSelect}
-                multiple
-                accept=".pdf,.jpg,.jpeg,.png,.txt"
-                className="flex-1"
-              />
               <Button 
                 onClick={handleUpload}
-                disabled={!selectedFiles || selectedFiles.length === 0 || uploading}
-                className="sm:w-auto"
+                disabled={selectedFiles.length === 0 || uploading}
+                className="flex-1"
               >
-                {uploading ? 'Uploading...' : `Upload ${selectedFiles?.length || 0} File(s)`}
+                {uploading ? 'Uploading...' : `Upload ${selectedFiles.length} File(s)`}
               </Button>
+              {uploading && (
+                <Button variant="outline" onClick={() => uploadController.current?.abort()} className="sm:w-auto">
+                  Cancel
+                </Button>
+              )}
             </div>
+            {uploading && (
+              <div className="flex items-center gap-2">
+                <Progress value={uploadProgress} className="h-2" />
+                <span className="text-xs text-muted-foreground w-10 text-right">{uploadProgress}%</span>
+              </div>
+            )}
             <p className="text-sm text-muted-foreground">
-              Supported formats: PDF, JPG, PNG, TXT (max 10MB per file)
+              {uploadLimits ? `Supported formats: ${describeLimits(uploadLimits)}` : 'Checking supported formats...'}
             </p>
           </CardContent>
         </Card>
@@ -244,7 +415,7 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
                   type="text"
-                  placeholder="Search files by name or content..."
+                  placeholder={currentFolder ? `Search ${currentFolder.name} and its subfolders...` : "Search files by name or content..."}
                   value={searchQuery}
                   onChange={handleSearchInputChange}
                   className="pl-10"
@@ -254,103 +425,381 @@ const Dashboard: React.FC<DashboardProps> = ({ className = '' }) => {
                 Search
               </Button>
             </form>
+            <div className="grid gap-2 sm:grid-cols-3 mt-4">
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  type="text"
+                  placeholder="Email sender"
+                  value={filters.from ?? ''}
+                  onChange={e => handleFilterChange('from', e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Input
+                type="date"
+                aria-label="Sent on or after"
+                title="Sent on or after"
+                value={filters.sentAfter ?? ''}
+                onChange={e => handleFilterChange('sentAfter', e.target.value)}
+              />
+              <Input
+                type="date"
+                aria-label="Sent on or before"
+                title="Sent on or before"
+                value={filters.sentBefore ?? ''}
+                onChange={e => handleFilterChange('sentBefore', e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2 mt-2">
+              <Select value={metadataField} onValueChange={field => handleMetadataFilterChange(field, metadataValue)}>
+                <SelectTrigger className="w-40 shrink-0" aria-label="Metadata field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METADATA_FIELDS.map(field => (
+                    <SelectItem key={field.path} value={field.path}>{field.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="text"
+                placeholder="Embedded metadata contains..."
+                value={metadataValue}
+                onChange={e => handleMetadataFilterChange(metadataField, e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2 mt-3">
+              <Checkbox
+                id="all-versions"
+                checked={!!filters.allVersions}
+                onCheckedChange={checked => {
+                  setFilters(prev => ({ ...prev, allVersions: checked === true || undefined }));
+                  setPagination(prev => ({ ...prev, offset: 0 }));
+                }}
+              />
+              <Label htmlFor="all-versions" className="text-sm font-normal">Include earlier versions</Label>
+            </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Files Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center justify-between">
-            <span>Files ({pagination.total})</span>
-            {loading && <span className="text-sm font-normal">Loading...</span>}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {files.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              {loading ? 'Loading files...' : searchQuery ? 'No files found matching your search.' : 'No files uploaded yet.'}
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {/* Files Grid */}
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {files.map((file) => (
-                  <Card key={file.id} className="hover:shadow-md transition-shadow">
-                    <CardContent className="p-4">
-                      <div className="space-y-3">
-                        {/* File Header */}
-                        <div className="flex items-start gap-3">
-                          {getFileIcon(file.type)}
-                          <div className="flex-1 min-w-0">
-                            <h3 className="font-medium truncate" title={file.name}>
-                              {file.name}
-                            </h3>
-                            <Badge variant={file.status === 'completed' ? 'default' : 'secondary'}>
-                              {file.status}
-                            </Badge>
-                          </div>
-                        </div>
+      {/* Failed Processing */}
+      <DeadLetterPanel
+        refreshKey={files.filter(file => file.status === 'error').length}
+        onRerun={() => fetchFiles({ silent: true })}
+      />
+
+      {/* Quarantined uploads; they drop out of the file list, so the total changes when one is flagged */}
+      <QuarantinePanel refreshKey={pagination.total} />
+
+      {/* Near-duplicate Review */}
+      <DuplicateReviewPanel
+        refreshKey={files.filter(file => file.status === 'completed').length}
+        onResolved={() => fetchFiles({ silent: true })}
+      />
+
+      {/* Folders sidebar and files */}
+      <div className="grid gap-6 lg:grid-cols-[16rem_1fr] items-start">
+        <FolderTree
+          folders={folders}
+          selectedId={filters.folderId ?? null}
+          onSelect={selectFolder}
+          onChanged={fetchFolders}
+        />
 
-                        {/* File Details */}
-                        <div className="space-y-2 text-sm text-muted-foreground">
-                          <div className="flex items-center gap-2">
-                            <HardDrive className="h-3 w-3" />
-                            <span>{formatFileSize(file.size)}</span>
+        {/* Files Section */}
+        <Card>
+          <CardHeader>
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  {currentFolder ? (
+                    <BreadcrumbLink asChild>
+                      <button type="button" onClick={() => selectFolder(null)}>All files</button>
+                    </BreadcrumbLink>
+                  ) : (
+                    <BreadcrumbPage>All files</BreadcrumbPage>
+                  )}
+                </BreadcrumbItem>
+                {currentPath.map((folder, index) => (
+                  <React.Fragment key={folder.id}>
+                    <BreadcrumbSeparator />
+                    <BreadcrumbItem>
+                      {index === currentPath.length - 1 ? (
+                        <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                      ) : (
+                        <BreadcrumbLink asChild>
+                          <button type="button" onClick={() => selectFolder(folder.id)}>{folder.name}</button>
+                        </BreadcrumbLink>
+                      )}
+                    </BreadcrumbItem>
+                  </React.Fragment>
+                ))}
+              </BreadcrumbList>
+            </Breadcrumb>
+            <CardTitle className="flex items-center justify-between">
+              <span>Files ({pagination.total})</span>
+              <div className="flex items-center gap-2">
+                {loading && <span className="text-sm font-normal">Loading...</span>}
+                {focusedId && (
+                  <Button variant="outline" size="sm" onClick={() => setFocusedId(null)}>
+                    Show all files
+                  </Button>
+                )}
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {files.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {loading ? 'Loading files...' : searchQuery ? 'No files found matching your search.' : currentFolder ? 'This folder is empty.' : 'No files uploaded yet.'}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {/* Files Grid */}
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {files.map((file) => (
+                    <Card key={file.id} className="hover:shadow-md transition-shadow">
+                      <CardContent className="p-4">
+                        <div className="space-y-3">
+                          {/* File Header */}
+                          <div className="flex items-start gap-3">
+                            {getFileIcon(file.type)}
+                            <div className="flex-1 min-w-0">
+                              <h3 className="font-medium truncate" title={file.name}>
+                                <Link to={`/documents/${file.id}`} className="hover:underline">
+                                  {file.name}
+                                </Link>
+                              </h3>
+                              {file.parent && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs max-w-full"
+                                  title={`Open ${file.parent.name}`}
+                                  onClick={() => focusFile(file.parent!.id)}
+                                >
+                                  <CornerLeftUp className="h-3 w-3 mr-1 shrink-0" />
+                                  <span className="truncate">
+                                    {file.parent.type === 'email' ? 'Attached to' : 'In'} {file.parent.name}
+                                  </span>
+                                </Button>
+                              )}
+                              {file.relativePath && file.relativePath !== file.name && (
+                                <p className="text-xs text-muted-foreground truncate" title={file.relativePath}>
+                                  {file.relativePath}
+                                </p>
+                              )}
+                              <div className="flex flex-wrap gap-1">
+                                <Badge
+                                  variant={file.status === 'completed' ? 'default' : file.status === 'error' ? 'destructive' : 'secondary'}
+                                  title={file.errorMessage}
+                                >
+                                  {file.status}
+                                </Badge>
+                                {file.language && (
+                                  <Badge variant="outline" title="Detected document language">
+                                    {file.language.toUpperCase()}
+                                  </Badge>
+                                )}
+                                {file.ocrPages && file.ocrPages.length > 0 && (
+                                  <Badge
+                                    variant="outline"
+                                    title={`Text on page(s) ${file.ocrPages.join(', ')} comes from OCR and may contain recognition errors`}
+                                  >
+                                    OCR {file.ocrPages.length}/{file.pageCount ?? file.ocrPages.length} pages
+                                  </Badge>
+                                )}
+                                {file.ocrConfidence !== undefined && file.ocrConfidence < LOW_OCR_CONFIDENCE && (
+                                  <Badge
+                                    variant="destructive"
+                                    title={`Average OCR confidence is ${file.ocrConfidence}%; extracted text may be unreliable`}
+                                  >
+                                    Low OCR quality
+                                  </Badge>
+                                )}
+                                {file.version !== undefined && file.version > 1 && (
+                                  <Badge variant="outline" title="A later version of the document; see its version history">
+                                    v{file.version}
+                                  </Badge>
+                                )}
+                                {file.isCurrent === false && (
+                                  <Badge variant="secondary" title="An earlier version; search and the list show the current one">
+                                    superseded
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
                           </div>
-                          <div className="flex items-center gap-2">
-                            <Calendar className="h-3 w-3" />
-                            <span>{formatDate(file.uploadedAt)}</span>
+
+                          {/* Email Headers */}
+                          {file.email && (
+                            <div className="space-y-0.5 text-xs text-muted-foreground">
+                              {file.email.subject && (
+                                <p className="font-medium text-foreground truncate" title={file.email.subject}>
+                                  {file.email.subject}
+                                </p>
+                              )}
+                              {file.email.from && <p className="truncate" title={file.email.from}>From: {file.email.from}</p>}
+                              {file.email.to.length > 0 && (
+                                <p className="truncate" title={file.email.to.join(', ')}>To: {file.email.to.join(', ')}</p>
+                              )}
+                              {file.email.date && <p>Sent: {formatDate(file.email.date)}</p>}
+                            </div>
+                          )}
+
+                          {/* Embedded Metadata */}
+                          {file.pdfInfo && (file.pdfInfo.title || file.pdfInfo.author || file.pdfInfo.createdAt) && (
+                            <div className="space-y-0.5 text-xs text-muted-foreground">
+                              {file.pdfInfo.title && <p className="truncate" title={file.pdfInfo.title}>Title: {file.pdfInfo.title}</p>}
+                              {file.pdfInfo.author && <p className="truncate" title={file.pdfInfo.author}>Author: {file.pdfInfo.author}</p>}
+                              {file.pdfInfo.createdAt && <p>Created: {formatDate(file.pdfInfo.createdAt)}</p>}
+                            </div>
+                          )}
+                          {file.exif && (
+                            <div className="space-y-0.5 text-xs text-muted-foreground">
+                              {(file.exif.camera || file.exif.capturedAt) && (
+                                <p className="flex items-center gap-1 truncate">
+                                  <Camera className="h-3 w-3 shrink-0" />
+                                  {[file.exif.camera, file.exif.capturedAt && formatDate(file.exif.capturedAt)].filter(Boolean).join(' · ')}
+                                </p>
+                              )}
+                              {file.exif.gps && (
+                                <p className="flex items-center gap-1">
+                                  <MapPin className="h-3 w-3 shrink-0" />
+                                  {file.exif.gps.latitude.toFixed(5)}, {file.exif.gps.longitude.toFixed(5)}
+                                </p>
+                              )}
+                            </div>
+                          )}
+
+                          {/* File Details */}
+                          <div className="space-y-2 text-sm text-muted-foreground">
+                            <div className="flex items-center gap-2">
+                              <HardDrive className="h-3 w-3" />
+                              <span>{formatFileSize(file.size)}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Calendar className="h-3 w-3" />
+                              <span>{formatDate(file.uploadedAt)}</span>
+                            </div>
+                            {file.aliases && file.aliases.length > 0 && (
+                              <p className="text-xs break-words" title="Duplicate uploads linked to this file">
+                                Also uploaded as: {file.aliases.join(', ')}
+                              </p>
+                            )}
+                            {file.status === 'error' && file.errorMessage && (
+                              <p className="text-xs text-destructive break-words">{file.errorMessage}</p>
+                            )}
                           </div>
-                        </div>
 
-                        {/* Tags */}
-                        {file.tags && file.tags.length > 0 && (
-                          <div className="space-y-2">
-                            <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                              <Tag className="h-3 w-3" />
-                              <span>Tags:</span>
+                          {/* Archive Entries and Attachments */}
+                          {(file.archiveSummary || (file.children && file.children.length > 0)) && (
+                            <ArchiveEntries archive={file} onOpen={focusFile} />
+                          )}
+
+                          {/* Tags */}
+                          {file.tags && file.tags.length > 0 && (
+                            <div className="space-y-2">
+                              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                <Tag className="h-3 w-3" />
+                                <span>Tags:</span>
+                              </div>
+                              <div className="flex flex-wrap gap-1">
+                                {file.tags.map((tag, index) => (
+                                  <Badge key={index} variant="outline" className="text-xs">
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
                             </div>
-                            <div className="flex flex-wrap gap-1">
-                              {file.tags.map((tag, index) => (
-                                <Badge key={index} variant="outline" className="text-xs">
-                                  {tag}
-                                </Badge>
+                          )}
+
+                          {/* Matching Pages */}
+                          {file.matchingPages && file.matchingPages.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+                              <span>Found on page:</span>
+                              {file.matchingPages.map(page => (
+                                <Button
+                                  key={page}
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => setPageView({ file, page })}
+                                >
+                                  {page}
+                                </Button>
                               ))}
                             </div>
-                          </div>
-                        )}
-
-                        {/* Content Preview */}
-                        {file.ocrText && (
-                          <div className="pt-2 border-t">
-                            <p className="text-xs text-muted-foreground line-clamp-3">
-                              {file.ocrText}
-                            </p>
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+                          )}
 
-              {/* Load More Button */}
-              {pagination.has_more && (
-                <div className="text-center pt-4">
-                  <Button 
-                    variant="outline" 
-                    onClick={loadMore}
-                    disabled={loading}
-                  >
-                    {loading ? 'Loading...' : 'Load More'}
-                  </Button>
+                          {/* Spreadsheet Sheets */}
+                          {file.sheets && file.sheets.length > 0 && (
+                            <div className="space-y-2">
+                              <div className="flex flex-wrap gap-1">
+                                {file.sheets.map((sheet, index) => (
+                                  <Badge key={index} variant="secondary" className="text-xs">
+                                    {sheet.name} · {sheet.rowCount} rows
+                                  </Badge>
+                                ))}
+                              </div>
+                              <SheetPreviewDialog document={file} />
+                            </div>
+                          )}
+
+                          {/* Original vs. preprocessed image */}
+                          {file.preprocessedPath && <ImageCompareDialog document={file} />}
+
+                          {/* Version history, and uploading a new version */}
+                          {!file.parentId && file.status !== 'quarantined' && (
+                            <VersionHistoryDialog document={file} onChanged={() => fetchFiles({ silent: true })} />
+                          )}
+
+                          {/* Download, Rename and Delete */}
+                          <FileActions document={file} folders={folders} onUpdated={handleFileChanged} onDeleted={handleFileDeleted} />
+
+                          {/* Content Preview */}
+                          {file.ocrText && (
+                            <div className="pt-2 border-t">
+                              <p className="text-xs text-muted-foreground line-clamp-3">
+                                {file.ocrText}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
                 </div>
-              )}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+
+                {/* Load More Button */}
+                {pagination.has_more && (
+                  <div className="text-center pt-4">
+                    <Button 
+                      variant="outline" 
+                      onClick={loadMore}
+                      disabled={loading}
+                    >
+                      {loading ? 'Loading...' : 'Load More'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PageViewerDialog
+        document={pageView?.file ?? null}
+        initialPage={pageView?.page ?? 1}
+        highlight={searchQuery}
+        onClose={() => setPageView(null)}
+      />
+
+      {/* Deleted files; deleting or restoring one changes the total */}
+      <TrashPanel refreshKey={pagination.total} onRestored={() => fetchFiles({ silent: true })} />
     </div>
   );
 };
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, RotateCw } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { DeadLetterJob } from '@/types/atlas';
+
+interface DeadLetterPanelProps {
+  // Changing this reloads the list, e.g. when a file on the dashboard turns to 'error'
+  refreshKey?: number;
+  onRerun?: () => void;
+}
+
+export const DeadLetterPanel = ({ refreshKey, onRerun }: DeadLetterPanelProps) => {
+  const [jobs, setJobs] = useState<DeadLetterJob[]>([]);
+  const [rerunning, setRerunning] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const loadJobs = async () => {
+    const response = await AtlasAPI.getDeadLetters();
+    if (response.success && response.data) {
+      setJobs(response.data);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, [refreshKey]);
+
+  const rerun = async (jobIds: string[]) => {
+    setRerunning(prev => [...prev, ...jobIds]);
+    const response = await AtlasAPI.rerunDeadLetters(jobIds);
+    setRerunning(prev => prev.filter(id => !jobIds.includes(id)));
+
+    if (response.success && response.data) {
+      toast({
+        title: "Processing restarted",
+        description: response.message,
+      });
+      setJobs(prev => prev.filter(job => !response.data!.requeued.includes(job.jobId)));
+      onRerun?.();
+    } else {
+      toast({
+        title: "Re-run failed",
+        description: response.error || "Failed to re-run jobs",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+          Failed processing ({jobs.length})
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => rerun(jobs.map(job => job.jobId))}
+          disabled={rerunning.length > 0}
+        >
+          <RotateCw className="h-3 w-3 mr-2" />
+          Re-run all
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Step</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Error</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map(job => (
+              <TableRow key={job.jobId}>
+                <TableCell className="font-medium max-w-[12rem] truncate" title={job.filename}>
+                  {job.filename}
+                </TableCell>
+                <TableCell>
+                  {job.failedStep && <Badge variant="outline">{job.failedStep}</Badge>}
+                </TableCell>
+                <TableCell>{job.attempts}/{job.maxAttempts}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  <p className="break-words">{job.lastError}</p>
+                  {job.errors.length > 1 && (
+                    <details className="mt-1 text-xs">
+                      <summary className="cursor-pointer">All attempts</summary>
+                      <ul className="mt-1 space-y-1">
+                        {job.errors.map(err => (
+                          <li key={`${err.attempt}-${err.createdAt.getTime()}`}>
+                            #{err.attempt} {err.step}: {err.error}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => rerun([job.jobId])}
+                    disabled={rerunning.includes(job.jobId)}
+                  >
+                    <RotateCw className="h-3 w-3 mr-2" />
+                    Re-run
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, GitMerge, X } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { DuplicateCluster } from '@/types/atlas';
+
+interface DuplicateReviewPanelProps {
+  // Changing this reloads the clusters, e.g. after uploads finish processing
+  refreshKey?: number;
+  onResolved?: () => void;
+}
+
+const formatSimilarity = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+export const DuplicateReviewPanel = ({ refreshKey, onResolved }: DuplicateReviewPanelProps) => {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  // File to keep per cluster; defaults to the oldest upload
+  const [keep, setKeep] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const loadClusters = async () => {
+    const response = await AtlasAPI.getDuplicateClusters();
+    if (response.success && response.data) {
+      setClusters(response.data);
+    }
+  };
+
+  useEffect(() => {
+    loadClusters();
+  }, [refreshKey]);
+
+  const resolve = async (cluster: DuplicateCluster, action: 'merge' | 'dismiss') => {
+    const keepId = keep[cluster.clusterId] ?? cluster.files[0].id;
+    const fileIds = cluster.files.map(file => file.id);
+
+    setResolving(prev => [...prev, cluster.clusterId]);
+    const response = action === 'merge'
+      ? await AtlasAPI.mergeDuplicates(keepId, fileIds.filter(id => id !== keepId))
+      : await AtlasAPI.dismissDuplicates(fileIds);
+    setResolving(prev => prev.filter(id => id !== cluster.clusterId));
+
+    if (response.success) {
+      toast({
+        title: action === 'merge' ? "Duplicates merged" : "Match dismissed",
+        description: response.message,
+      });
+      setClusters(prev => prev.filter(c => c.clusterId !== cluster.clusterId));
+      onResolved?.();
+    } else {
+      toast({
+        title: action === 'merge' ? "Merge failed" : "Dismiss failed",
+        description: response.error || "Failed to update duplicates",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (clusters.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Copy className="h-4 w-4" />
+          Possible duplicates ({clusters.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {clusters.map(cluster => (
+          <div key={cluster.clusterId} className="rounded border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Badge variant="secondary">{formatSimilarity(cluster.similarity)} similar</Badge>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => resolve(cluster, 'merge')}
+                  disabled={resolving.includes(cluster.clusterId)}
+                >
+                  <GitMerge className="h-3 w-3 mr-2" />
+                  Merge into kept file
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => resolve(cluster, 'dismiss')}
+                  disabled={resolving.includes(cluster.clusterId)}
+                >
+                  <X className="h-3 w-3 mr-2" />
+                  Not duplicates
+                </Button>
+              </div>
+            </div>
+            <RadioGroup
+              value={keep[cluster.clusterId] ?? cluster.files[0].id}
+              onValueChange={value => setKeep(prev => ({ ...prev, [cluster.clusterId]: value }))}
+              className="space-y-1"
+            >
+              {cluster.files.map(file => (
+                <div key={file.id} className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value={file.id} id={`keep-${cluster.clusterId}-${file.id}`} />
+                  <Label htmlFor={`keep-${cluster.clusterId}-${file.id}`} className="font-normal truncate" title={file.name}>
+                    {file.name}
+                  </Label>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {file.uploadedAt.toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">
+              Merging keeps the selected file; the others' names and tags move to it and their copies are deleted.
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
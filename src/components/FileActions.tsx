@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, Pencil, Trash2 } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, Folder } from '@/types/atlas';
+import { MoveFileDialog } from '@/components/MoveFileDialog';
+
+interface FileActionsProps {
+  document: Document;
+  // Called after a rename or tag change so the list can reload
+  onUpdated?: () => void;
+  onDeleted?: (id: string) => void;
+  // Offered as move and copy targets; without them there is no move button
+  folders?: Folder[];
+}
+
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+// Download, edit (name and tags), move and delete buttons for a file card
+export const FileActions = ({ document, onUpdated, onDeleted, folders }: FileActionsProps) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(document.name);
+  const [tags, setTags] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const openEditor = (open: boolean) => {
+    if (open) {
+      setName(document.name);
+      setTags((document.tags ?? []).join(', '));
+    }
+    setEditing(open);
+  };
+
+  // The link is only valid for a minute, so it is fetched on click rather than rendered up front
+  const download = async () => {
+    setBusy(true);
+    const response = await AtlasAPI.getDownloadUrl(document.id);
+    setBusy(false);
+    if (response.success && response.data) {
+      window.location.assign(response.data.url);
+    } else {
+      toast({
+        title: "Download failed",
+        description: response.error || "Failed to create download link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newTags = parseTags(tags);
+    const tagsChanged = newTags.join(',') !== (document.tags ?? []).join(',');
+    const nameChanged = name.trim() !== document.name;
+    if (!nameChanged && !tagsChanged) {
+      setEditing(false);
+      return;
+    }
+
+    setBusy(true);
+    const response = await AtlasAPI.updateFile(document.id, {
+      name: nameChanged ? name.trim() : undefined,
+      tags: tagsChanged ? newTags : undefined,
+    });
+    setBusy(false);
+
+    if (response.success) {
+      toast({ title: "File updated", description: name.trim() });
+      setEditing(false);
+      onUpdated?.();
+    } else {
+      toast({
+        title: "Update failed",
+        description: response.error || "Failed to update file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const remove = async () => {
+    setBusy(true);
+    const response = await AtlasAPI.deleteFile(document.id);
+    setBusy(false);
+
+    if (response.success) {
+      toast({ title: "Moved to trash", description: document.name });
+      onDeleted?.(document.id);
+    } else {
+      toast({
+        title: "Delete failed",
+        description: response.error || "Failed to delete file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" className="flex-1" disabled={busy} onClick={download}>
+        <Download className="h-3 w-3 mr-2" />
+        Download
+      </Button>
+
+      <Dialog open={editing} onOpenChange={openEditor}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy} title="Rename or edit tags">
+            <Pencil className="h-3 w-3" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit file</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={save} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`file-name-${document.id}`}>Name</Label>
+              <Input id={`file-name-${document.id}`} value={name} onChange={e => setName(e.target.value)} />
+              <p className="text-xs text-muted-foreground">The extension cannot be changed.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`file-tags-${document.id}`}>Tags</Label>
+              <Input
+                id={`file-tags-${document.id}`}
+                value={tags}
+                placeholder="invoice, 2024"
+                onChange={e => setTags(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Comma-separated. Re-running auto-tagging replaces them.</p>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={busy || !name.trim()}>
+                {busy ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {folders && !document.parentId && (
+        <MoveFileDialog document={document} folders={folders} onChanged={onUpdated} />
+      )}
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={busy} title="Delete">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {document.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file{document.children && document.children.length > 0 ? ` and the ${document.children.length} file(s) unpacked from it` : ''} move
+              to the trash{document.hasVersions ? ' together with its other versions' : ''}. It can be restored from there
+              until the trash is purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={remove}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Upload, FolderOpen, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useUploadLimits } from '@/hooks/use-upload-limits';
+import {
+  PendingFile,
+  RejectedFile,
+  acceptAttribute,
+  filesFromClipboard,
+  filesFromDataTransfer,
+  filesFromInput,
+  partitionFiles,
+} from '@/lib/file-drop';
+
+interface FileDropZoneProps {
+  // Called with the files that passed validation; rejected ones are listed by the zone itself
+  onFilesAdded: (files: PendingFile[]) => void;
+  disabled?: boolean;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// Drop target for files and whole folders, with file/folder pickers and clipboard paste
+export const FileDropZone = ({ onFilesAdded, disabled = false, className, children }: FileDropZoneProps) => {
+  const [dragDepth, setDragDepth] = useState(0);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const limits = useUploadLimits();
+
+  const addFiles = useCallback((candidates: PendingFile[]) => {
+    if (candidates.length === 0) return;
+    const result = partitionFiles(candidates, limits);
+    setRejected(prev => [...prev, ...result.rejected]);
+    if (result.accepted.length > 0) onFilesAdded(result.accepted);
+  }, [onFilesAdded, limits]);
+
+  // React has no typed prop for webkitdirectory
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Pasting anywhere on the page adds clipboard files (e.g. screenshots); pasted text is left alone
+  useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => {
+      if (disabled || !event.clipboardData?.files.length) return;
+      event.preventDefault();
+      addFiles(filesFromClipboard(event.clipboardData));
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [addFiles, disabled]);
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(filesFromInput(event.target.files));
+    event.target.value = '';
+  };
+
+  const handleDragEnter = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!disabled) setDragDepth(depth => depth + 1);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragDepth(depth => Math.max(depth - 1, 0));
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = disabled ? 'none' : 'copy';
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragDepth(0);
+    if (disabled) return;
+    try {
+      addFiles(await filesFromDataTransfer(event.dataTransfer));
+    } catch (error) {
+      console.error('Reading dropped files failed:', error);
+      setRejected(prev => [...prev, { name: 'Dropped items', reason: 'Could not be read by the browser' }]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        className={cn(
+          'border-2 border-dashed rounded-lg p-6 text-center transition-colors',
+          dragDepth > 0 ? 'border-primary bg-primary/5' : 'border-border',
+          className,
+        )}
+      >
+        <Input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={acceptAttribute(limits)}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+        <Input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+        />
+        <Upload className="mx-auto h-8 w-8 text-muted-foreground" />
+        <p className="text-sm font-medium mt-2">
+          {dragDepth > 0 ? 'Drop to add' : 'Drag files or folders here, or paste a screenshot'}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2 justify-center mt-3">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+            <Upload className="mr-2 h-4 w-4" />
+            Choose Files
+          </Button>
+          <Button variant="outline" onClick={() => folderInputRef.current?.click()} disabled={disabled}>
+            <FolderOpen className="mr-2 h-4 w-4" />
+            Choose Folder
+          </Button>
+        </div>
+        {children}
+      </div>
+
+      {rejected.length > 0 && (
+        <div className="rounded border border-destructive/40 p-2 space-y-1">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium flex items-center gap-1 text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              Not added ({rejected.length})
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => setRejected([])} className="h-7 px-2 text-xs">
+              Dismiss
+            </Button>
+          </div>
+          <ul className="max-h-32 overflow-y-auto space-y-0.5">
+            {rejected.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="text-xs flex justify-between gap-2">
+                <span className="truncate" title={file.name}>{file.name}</span>
+                <span className="text-muted-foreground whitespace-nowrap">{file.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
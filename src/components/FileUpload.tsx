@@ -1,48 +1,175 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import { Upload, FileText, Image, X, CheckCircle, AlertCircle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Progress } from '@/components/ui/progress';
+import { Upload, FileText, Image, X, CheckCircle, AlertCircle, RotateCw } from 'lucide-react';
+import { FileDropZone } from '@/components/FileDropZone';
 import { useToast } from '@/hooks/use-toast';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { PendingFile, describeLimits } from '@/lib/file-drop';
+import { useUploadLimits } from '@/hooks/use-upload-limits';
 import AtlasAPI from '@/services/api';
-import { Document } from '@/types/atlas';
+import { Document, DuplicateAction, PreprocessStep } from '@/types/atlas';
+
+// Tesseract language codes accepted by documents-upload
+const OCR_LANGUAGE_OPTIONS = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'rus', label: 'Russian' },
+  { code: 'ell', label: 'Greek' },
+  { code: 'ara', label: 'Arabic' },
+];
+
+// Cleanup applied to images before OCR; all on by default
+const PREPROCESS_OPTIONS: { step: PreprocessStep; label: string }[] = [
+  { step: 'rotate', label: 'Auto-rotate' },
+  { step: 'deskew', label: 'Deskew' },
+  { step: 'denoise', label: 'Denoise' },
+  { step: 'contrast', label: 'Contrast' },
+  { step: 'binarize', label: 'Binarize' },
+];
+
+// What documents-upload does with a file whose bytes were uploaded before
+const DUPLICATE_OPTIONS: { action: DuplicateAction; label: string }[] = [
+  { action: 'skip', label: 'Skip' },
+  { action: 'link', label: 'Link to existing' },
+  { action: 'version', label: 'Keep as new version' },
+];
+
+// Uploads running at once unless the parent says otherwise
+const DEFAULT_UPLOAD_CONCURRENCY = 3;
+
+type UploadItemStatus = 'queued' | 'uploading' | 'done' | 'error' | 'cancelled';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  // Set for files that came from a dropped or chosen folder
+  relativePath?: string;
+  status: UploadItemStatus;
+  // 0-100
+  progress: number;
+  error?: string;
+  note?: string;
+}
 
 interface FileUploadProps {
   onUploadComplete?: (documents: Document[]) => void;
+  concurrency?: number;
 }
 
-export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
-  const [files, setFiles] = useState<File[]>([]);
-  const [uploading, setUploading] = useState(false);
-  const [uploadResults, setUploadResults] = useState<{ file: string; success: boolean; error?: string }[]>([]);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+export const FileUpload = ({ onUploadComplete, concurrency = DEFAULT_UPLOAD_CONCURRENCY }: FileUploadProps) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [ocrLanguages, setOcrLanguages] = useState<string[]>([]);
+  const [preprocess, setPreprocess] = useState<PreprocessStep[]>(PREPROCESS_OPTIONS.map(option => option.step));
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateAction>('skip');
+  // One controller per running upload; queued items cancelled before they start are remembered here
+  const controllers = useRef(new Map<string, AbortController>());
+  const cancelledBeforeStart = useRef(new Set<string>());
   const { toast } = useToast();
+  const limits = useUploadLimits();
+
+  const uploading = items.some(item => item.status === 'uploading');
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+
+  const updateItem = (id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const addFiles = useCallback((files: PendingFile[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(({ file, relativePath }) => ({
+        id: crypto.randomUUID(),
+        file,
+        relativePath,
+        status: 'queued' as const,
+        progress: 0,
+      })),
+    ]);
+  }, []);
+
+  const toggleOcrLanguage = (code: string, checked: boolean) => {
+    setOcrLanguages(prev => checked ? [...prev, code] : prev.filter(c => c !== code));
+  };
+
+  const togglePreprocess = (step: PreprocessStep, checked: boolean) => {
+    setPreprocess(prev => checked ? [...prev, step] : prev.filter(s => s !== step));
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const uploadItems = async (batch: UploadItem[]) => {
+    const uploadedDocs: Document[] = [];
+    let successCount = 0;
+    let failCount = 0;
+
+    batch.forEach(item => {
+      cancelledBeforeStart.current.delete(item.id);
+      updateItem(item.id, { status: 'queued', progress: 0, error: undefined, note: undefined });
+    });
+
+    await runWithConcurrency(batch, concurrency, async item => {
+      if (cancelledBeforeStart.current.delete(item.id)) return;
+
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      updateItem(item.id, { status: 'uploading' });
+
+      const response = await AtlasAPI.uploadDocument(item.file, undefined, {
+        ocrLanguages,
+        preprocess,
+        onDuplicate,
+        relativePath: item.relativePath,
+        signal: controller.signal,
+        onProgress: ({ loaded, total }) => updateItem(item.id, { progress: total > 0 ? Math.round(loaded / total * 100) : 0 }),
+      });
+      controllers.current.delete(item.id);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(event.target.files || []);
-    const validFiles = selectedFiles.filter(file => {
-      const validTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/jpg', 'text/plain'];
-      return validTypes.includes(file.type) && file.size <= 10 * 1024 * 1024; // 10MB limit
+      if (response.success && response.data) {
+        successCount++;
+        const duplicate = response.data.outcome !== 'created';
+        updateItem(item.id, { status: 'done', progress: 100, note: duplicate ? response.message : undefined });
+        if (response.data.outcome !== 'skipped') uploadedDocs.push(response.data);
+      } else if (controller.signal.aborted) {
+        updateItem(item.id, { status: 'cancelled' });
+      } else {
+        failCount++;
+        updateItem(item.id, { status: 'error', error: response.error || 'Upload failed' });
+      }
     });
 
-    if (validFiles.length !== selectedFiles.length) {
+    if (successCount > 0) {
+      toast({
+        title: `${successCount} file(s) uploaded successfully`,
+        description: failCount > 0 ? `${failCount} file(s) failed to upload` : undefined,
+      });
+
+      if (onUploadComplete) {
+        onUploadComplete(uploadedDocs);
+      }
+    } else if (failCount > 0) {
       toast({
-        title: "Invalid files detected",
-        description: "Some files were skipped. Only PDF, JPG, PNG, and TXT files under 10MB are allowed.",
+        title: "Upload failed",
+        description: `${failCount} file(s) failed to upload. Use retry to try again.`,
         variant: "destructive",
       });
     }
-
-    setFiles(prev => [...prev, ...validFiles]);
-    if (fileInputRef.current) fileInputRef.current.value = '';
-  };
-
-  const removeFile = (index: number) => {
-    setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
   const handleUpload = async () => {
-    if (files.length === 0) {
+    const queued = items.filter(item => item.status === 'queued');
+    if (queued.length === 0) {
       toast({
         title: "No files selected",
         description: "Please select files to upload",
@@ -51,64 +178,21 @@ export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
       return;
     }
 
-    setUploading(true);
-    setUploadResults([]);
-    const results: { file: string; success: boolean; error?: string }[] = [];
-    const uploadedDocs: Document[] = [];
-
-    try {
-      for (const file of files) {
-        try {
-          const response = await AtlasAPI.uploadDocument(file);
-          if (response.success && response.data) {
-            results.push({ file: file.name, success: true });
-            uploadedDocs.push(response.data);
-          } else {
-            results.push({ file: file.name, success: false, error: response.error });
-          }
-        } catch (error) {
-          results.push({ file: file.name, success: false, error: 'Upload failed' });
-        }
-      }
-
-      setUploadResults(results);
-      
-      const successCount = results.filter(r => r.success).length;
-      const failCount = results.filter(r => !r.success).length;
-
-      if (successCount > 0) {
-        toast({
-          title: `${successCount} file(s) uploaded successfully`,
-          description: failCount > 0 ? `${failCount} file(s) failed to upload` : undefined,
-        });
-        
-        if (onUploadComplete) {
-          onUploadComplete(uploadedDocs);
-        }
-      }
-
-      if (failCount === files.length) {
-        toast({
-          title: "Upload failed",
-          description: "All files failed to upload. Please try again.",
-          variant: "destructive",
-        });
-      }
+    await uploadItems(queued);
+  };
 
-    } catch (error) {
-      toast({
-        title: "Upload error",
-        description: "An error occurred during upload",
-        variant: "destructive",
-      });
-    } finally {
-      setUploading(false);
+  const cancelItem = (item: UploadItem) => {
+    const controller = controllers.current.get(item.id);
+    if (controller) {
+      controller.abort();
+    } else {
+      cancelledBeforeStart.current.add(item.id);
+      updateItem(item.id, { status: 'cancelled' });
     }
   };
 
   const clearAll = () => {
-    setFiles([]);
-    setUploadResults([]);
+    setItems(prev => prev.filter(item => item.status === 'uploading'));
   };
 
   const getFileIcon = (type: string) => {
@@ -126,74 +210,143 @@ export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
-          <Input
-            ref={fileInputRef}
-            type="file"
-            multiple
-            accept=".pdf,.jpg,.jpeg,.png,.txt"
-            onChange={handleFileSelect}
-            className="hidden"
-          />
-          <Button 
-            variant="outline" 
-            onClick={() => fileInputRef.current?.click()}
-            className="w-full"
-          >
-            <Upload className="mr-2 h-4 w-4" />
-            Choose Files
-          </Button>
+        <FileDropZone onFilesAdded={addFiles}>
           <p className="text-sm text-muted-foreground mt-2">
-            PDF, JPG, PNG, TXT files up to 10MB
+            {limits ? `${describeLimits(limits)}.` : 'Checking supported file types...'} Folders keep their structure, and interrupted uploads resume where they left off.
+          </p>
+        </FileDropZone>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">OCR languages</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {OCR_LANGUAGE_OPTIONS.map(option => (
+              <div key={option.code} className="flex items-center gap-2">
+                <Checkbox
+                  id={`ocr-${option.code}`}
+                  checked={ocrLanguages.includes(option.code)}
+                  onCheckedChange={checked => toggleOcrLanguage(option.code, checked === true)}
+                  disabled={uploading}
+                />
+                <Label htmlFor={`ocr-${option.code}`} className="text-sm font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {ocrLanguages.length === 0
+              ? 'None selected: script and language are detected automatically.'
+              : 'Scanned pages and images are recognised using the selected languages.'}
           </p>
         </div>
 
-        {files.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Image preprocessing</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {PREPROCESS_OPTIONS.map(option => (
+              <div key={option.step} className="flex items-center gap-2">
+                <Checkbox
+                  id={`preprocess-${option.step}`}
+                  checked={preprocess.includes(option.step)}
+                  onCheckedChange={checked => togglePreprocess(option.step, checked === true)}
+                  disabled={uploading}
+                />
+                <Label htmlFor={`preprocess-${option.step}`} className="text-sm font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {preprocess.length === 0
+              ? 'Images are OCR\'d as uploaded.'
+              : 'Images are cleaned up before OCR; the cleaned copy is kept next to the original.'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">If a file was already uploaded</h4>
+          <RadioGroup
+            value={onDuplicate}
+            onValueChange={value => setOnDuplicate(value as DuplicateAction)}
+            className="flex flex-wrap gap-4"
+            disabled={uploading}
+          >
+            {DUPLICATE_OPTIONS.map(option => (
+              <div key={option.action} className="flex items-center gap-2">
+                <RadioGroupItem value={option.action} id={`duplicate-${option.action}`} />
+                <Label htmlFor={`duplicate-${option.action}`} className="text-sm font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {items.length > 0 && (
           <div className="space-y-2">
             <div className="flex justify-between items-center">
-              <h4 className="text-sm font-medium">Selected Files ({files.length})</h4>
+              <h4 className="text-sm font-medium">Selected Files ({items.length})</h4>
               <Button variant="ghost" size="sm" onClick={clearAll}>
                 Clear All
               </Button>
             </div>
-            <div className="max-h-32 overflow-y-auto space-y-1">
-              {files.map((file, index) => (
-                <div key={index} className="flex items-center justify-between p-2 bg-muted/50 rounded">
-                  <div className="flex items-center gap-2">
-                    {getFileIcon(file.type)}
-                    <span className="text-sm truncate">{file.name}</span>
-                    <span className="text-xs text-muted-foreground">
-                      ({(file.size / 1024 / 1024).toFixed(1)} MB)
-                    </span>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {items.map(item => (
+                <div key={item.id} className="p-2 bg-muted/50 rounded space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {item.status === 'done' ? (
+                        <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />
+                      ) : item.status === 'error' ? (
+                        <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />
+                      ) : (
+                        getFileIcon(item.file.type)
+                      )}
+                      <span className="text-sm truncate" title={item.relativePath || item.file.name}>
+                        {item.relativePath || item.file.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        ({(item.file.size / 1024 / 1024).toFixed(1)} MB)
+                      </span>
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      {(item.status === 'uploading' || (item.status === 'queued' && uploading)) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelItem(item)}
+                          className="h-8 px-2 text-xs"
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                      {(item.status === 'error' || item.status === 'cancelled') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => uploadItems([item])}
+                          className="h-8 px-2 text-xs"
+                        >
+                          <RotateCw className="h-3 w-3 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                      {item.status !== 'uploading' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeItem(item.id)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeFile(index)}
-                    className="h-8 w-8 p-0"
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-
-        {uploadResults.length > 0 && (
-          <div className="space-y-2">
-            <h4 className="text-sm font-medium">Upload Results</h4>
-            <div className="max-h-32 overflow-y-auto space-y-1">
-              {uploadResults.map((result, index) => (
-                <div key={index} className="flex items-center gap-2 p-2 bg-muted/50 rounded">
-                  {result.success ? (
-                    <CheckCircle className="h-4 w-4 text-green-500" />
-                  ) : (
-                    <AlertCircle className="h-4 w-4 text-red-500" />
+                  {item.status === 'uploading' && <Progress value={item.progress} className="h-1.5" />}
+                  {item.status === 'cancelled' && (
+                    <p className="text-xs text-muted-foreground">Cancelled</p>
+                  )}
+                  {item.error && (
+                    <p className="text-xs text-red-500">{item.error}</p>
                   )}
-                  <span className="text-sm truncate flex-1">{result.file}</span>
-                  {result.error && (
-                    <span className="text-xs text-red-500">{result.error}</span>
+                  {item.note && (
+                    <p className="text-xs text-muted-foreground">{item.note}</p>
                   )}
                 </div>
               ))}
@@ -203,10 +356,10 @@ export const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
 
         <Button 
           onClick={handleUpload} 
-          disabled={files.length === 0 || uploading}
+          disabled={queuedCount === 0 || uploading}
           className="w-full"
         >
-          {uploading ? 'Uploading...' : `Upload ${files.length} File(s)`}
+          {uploading ? 'Uploading...' : `Upload ${queuedCount} File(s)`}
         </Button>
       </CardContent>
     </Card>
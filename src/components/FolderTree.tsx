@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { ChevronDown, ChevronRight, Folder as FolderIcon, FolderOpen, FolderPlus, Library, Pencil, Trash2 } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Folder } from '@/types/atlas';
+import { childFolders, folderPath } from '@/lib/folders';
+
+interface FolderTreeProps {
+  folders: Folder[];
+  // null is "All files"
+  selectedId: string | null;
+  onSelect: (folderId: string | null) => void;
+  // Called after a folder is created, renamed or deleted so the tree can reload
+  onChanged: () => void;
+}
+
+// Sidebar tree of folders; new folders go into the selected one
+export const FolderTree = ({ folders, selectedId, onSelect, onChanged }: FolderTreeProps) => {
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [editor, setEditor] = useState<{ mode: 'create' | 'rename'; name: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const selected = folders.find(folder => folder.id === selectedId);
+
+  const toggle = (id: string) => {
+    setCollapsed(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editor || !editor.name.trim()) return;
+
+    setBusy(true);
+    const response = editor.mode === 'create'
+      ? await AtlasAPI.createFolder(editor.name.trim(), selected?.id)
+      : await AtlasAPI.updateFolder(selected!.id, { name: editor.name.trim() });
+    setBusy(false);
+
+    if (response.success) {
+      toast({ title: response.message, description: editor.name.trim() });
+      setEditor(null);
+      // A new folder's parent is opened so the folder shows up
+      if (selected) setCollapsed(prev => prev.filter(id => id !== selected.id));
+      onChanged();
+    } else {
+      toast({
+        title: editor.mode === 'create' ? "Could not create folder" : "Could not rename folder",
+        description: response.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const remove = async () => {
+    if (!selected) return;
+    setBusy(true);
+    const response = await AtlasAPI.deleteFolder(selected.id);
+    setBusy(false);
+
+    if (response.success) {
+      toast({ title: "Folder deleted", description: selected.name });
+      onSelect(selected.parentId ?? null);
+      onChanged();
+    } else {
+      toast({ title: "Could not delete folder", description: response.error, variant: "destructive" });
+    }
+  };
+
+  const renderFolders = (parentId: string | undefined, depth: number) => childFolders(folders, parentId).map(folder => {
+    const hasChildren = folders.some(child => child.parentId === folder.id);
+    const open = !collapsed.includes(folder.id);
+    const isSelected = folder.id === selectedId;
+    return (
+      <li key={folder.id}>
+        <div
+          className={`flex items-center gap-1 rounded-md pr-2 text-sm ${isSelected ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'}`}
+          style={{ paddingLeft: `${depth * 0.75}rem` }}
+        >
+          <button
+            type="button"
+            className={`p-1 text-muted-foreground ${hasChildren ? '' : 'invisible'}`}
+            aria-label={open ? `Collapse ${folder.name}` : `Expand ${folder.name}`}
+            onClick={() => toggle(folder.id)}
+          >
+            {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+          <button type="button" className="flex flex-1 min-w-0 items-center gap-2 py-1 text-left" onClick={() => onSelect(folder.id)}>
+            {isSelected ? <FolderOpen className="h-4 w-4 shrink-0" /> : <FolderIcon className="h-4 w-4 shrink-0" />}
+            <span className="truncate" title={folder.name}>{folder.name}</span>
+            {folder.fileCount > 0 && <span className="ml-auto text-xs text-muted-foreground">{folder.fileCount}</span>}
+          </button>
+        </div>
+        {hasChildren && open && <ul>{renderFolders(folder.id, depth + 1)}</ul>}
+      </li>
+    );
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          Folders
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              title={selected ? `New folder in ${selected.name}` : 'New folder'}
+              disabled={busy}
+              onClick={() => setEditor({ mode: 'create', name: '' })}
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
+            {selected && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={`Rename ${selected.name}`}
+                  disabled={busy}
+                  onClick={() => setEditor({ mode: 'rename', name: selected.name })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" title={`Delete ${selected.name}`} disabled={busy}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {selected.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Only an empty folder can be deleted. Move or delete its documents and subfolders first.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={remove}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <button
+          type="button"
+          className={`flex w-full items-center gap-2 rounded-md px-2 py-1 text-sm ${selectedId === null ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'}`}
+          onClick={() => onSelect(null)}
+        >
+          <Library className="h-4 w-4" />
+          All files
+        </button>
+        <ul className="mt-1">{renderFolders(undefined, 0)}</ul>
+      </CardContent>
+
+      <Dialog open={editor !== null} onOpenChange={open => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editor?.mode === 'rename' ? `Rename ${selected?.name}` : selected ? `New folder in ${folderPath(folders, selected.id).map(folder => folder.name).join(' / ')}` : 'New folder'}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={save} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="folder-name">Name</Label>
+              <Input
+                id="folder-name"
+                value={editor?.name ?? ''}
+                onChange={e => setEditor(prev => prev && { ...prev, name: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={busy || !editor?.name.trim()}>
+                {busy ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
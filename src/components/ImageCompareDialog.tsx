@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { SplitSquareHorizontal } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, ImageComparison, PreprocessingSteps } from '@/types/atlas';
+
+interface ImageCompareDialogProps {
+  document: Document;
+}
+
+const describeSteps = (steps: PreprocessingSteps) => [
+  ...(steps.rotation ? [`Rotated ${steps.rotation}°`] : []),
+  ...(steps.deskewAngle ? [`Deskewed ${steps.deskewAngle.toFixed(2)}°`] : []),
+  ...(steps.denoised ? ['Denoised'] : []),
+  ...(steps.contrastStretched ? ['Contrast stretched'] : []),
+  ...(steps.binarized ? [`Binarized (threshold ${steps.threshold})`] : []),
+];
+
+export const ImageCompareDialog = ({ document }: ImageCompareDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [comparison, setComparison] = useState<ImageComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Signed URLs expire, so fetch fresh ones every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const loadImages = async () => {
+      setLoading(true);
+      setError(null);
+      const response = await AtlasAPI.getImageComparison(document.id);
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setComparison(response.data);
+      } else {
+        setError(response.error || 'Failed to load images');
+      }
+      setLoading(false);
+    };
+
+    loadImages();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, document.id]);
+
+  const steps = comparison?.steps ?? document.preprocessing;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <SplitSquareHorizontal className="h-3 w-3 mr-2" />
+          Compare preprocessing
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate">{document.name}</DialogTitle>
+        </DialogHeader>
+
+        {steps && (
+          <div className="flex flex-wrap gap-1">
+            {describeSteps(steps).map(step => (
+              <Badge key={step} variant="secondary" className="text-xs">{step}</Badge>
+            ))}
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-muted-foreground">Loading images...</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {comparison && !loading && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Original', url: comparison.originalUrl },
+              { label: 'Preprocessed (used for OCR)', url: comparison.preprocessedUrl },
+            ].map(image => (
+              <div key={image.label} className="space-y-2">
+                <h4 className="text-sm font-medium">{image.label}</h4>
+                {image.url ? (
+                  <img src={image.url} alt={`${image.label}: ${document.name}`} className="w-full rounded border" />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not available</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, FolderInput } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, Folder } from '@/types/atlas';
+import { flattenFolders } from '@/lib/folders';
+
+interface MoveFileDialogProps {
+  document: Document;
+  folders: Folder[];
+  // Called after a move or copy so the list can reload
+  onChanged?: () => void;
+}
+
+// Radix Select items cannot have an empty value
+const NO_FOLDER = 'none';
+
+// Moves a document to another folder, or copies it there as a separate document
+export const MoveFileDialog = ({ document, folders, onChanged }: MoveFileDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState(NO_FOLDER);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const openDialog = (isOpen: boolean) => {
+    if (isOpen) setTarget(document.folderId ?? NO_FOLDER);
+    setOpen(isOpen);
+  };
+
+  const targetName = folders.find(folder => folder.id === target)?.name ?? 'no folder';
+
+  const apply = async (action: 'move' | 'copy') => {
+    const folderId = target === NO_FOLDER ? null : target;
+    setBusy(true);
+    const response = action === 'move'
+      ? await AtlasAPI.updateFile(document.id, { folderId })
+      : await AtlasAPI.copyFile(document.id, folderId);
+    setBusy(false);
+
+    if (response.success) {
+      toast({ title: action === 'move' ? "File moved" : "File copied", description: `${document.name} → ${targetName}` });
+      setOpen(false);
+      onChanged?.();
+    } else {
+      toast({
+        title: action === 'move' ? "Move failed" : "Copy failed",
+        description: response.error || `Failed to ${action} file`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={busy} title="Move or copy to a folder">
+          <FolderInput className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="truncate">Move or copy {document.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`file-folder-${document.id}`}>Folder</Label>
+          <Select value={target} onValueChange={setTarget}>
+            <SelectTrigger id={`file-folder-${document.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+              {flattenFolders(folders).map(({ folder, depth }) => (
+                <SelectItem key={folder.id} value={folder.id}>
+                  <span style={{ paddingLeft: `${depth * 0.75}rem` }}>{folder.name}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Moving takes the document's versions{document.children && document.children.length > 0 ? ' and unpacked files' : ''} along.
+            A copy is a separate document and is processed again.
+          </p>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" disabled={busy} onClick={() => apply('copy')}>
+            <Copy className="h-3 w-3 mr-2" />
+            Copy here
+          </Button>
+          <Button disabled={busy || target === (document.folderId ?? NO_FOLDER)} onClick={() => apply('move')}>
+            <FolderInput className="h-3 w-3 mr-2" />
+            Move here
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
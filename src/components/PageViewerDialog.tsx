@@ -0,0 +1,131 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, DocumentPage } from '@/types/atlas';
+
+interface PageViewerDialogProps {
+  document: Document | null;
+  initialPage: number;
+  highlight?: string;
+  onClose: () => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const PageViewerDialog = ({ document, initialPage, highlight, onClose }: PageViewerDialogProps) => {
+  const [pageNumber, setPageNumber] = useState(initialPage);
+  const [page, setPage] = useState<DocumentPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ocrConfidence, setOcrConfidence] = useState<number | null>(null);
+
+  useEffect(() => {
+    setPageNumber(initialPage);
+  }, [document?.id, initialPage]);
+
+  useEffect(() => {
+    if (!document) return;
+    let cancelled = false;
+
+    const loadPage = async () => {
+      setLoading(true);
+      setError(null);
+      const response = await AtlasAPI.getDocumentPage(document.id, pageNumber);
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setPage(response.data);
+      } else {
+        setPage(null);
+        setError(response.error || 'Failed to load page');
+      }
+      setLoading(false);
+    };
+
+    loadPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [document, pageNumber]);
+
+  // OCR'd pages also carry a confidence score from the word geometry
+  useEffect(() => {
+    setOcrConfidence(null);
+    if (!document || page?.textSource !== 'ocr') return;
+    let cancelled = false;
+
+    AtlasAPI.getDocumentGeometry(document.id, { page: page.pageNumber }).then(response => {
+      if (!cancelled && response.success && response.data?.pages[0]) {
+        setOcrConfidence(response.data.pages[0].confidence);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [document, page]);
+
+  const pageCount = page?.pageCount ?? document?.pageCount ?? pageNumber;
+  const matchingPages = document?.matchingPages ?? [];
+  const terms = (highlight || '').trim().split(/\s+/).filter(term => term.length > 1).map(escapeRegExp);
+  const parts = page && terms.length > 0 ? page.text.split(new RegExp(`(${terms.join('|')})`, 'gi')) : [page?.text ?? ''];
+
+  return (
+    <Dialog open={!!document} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-4xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="truncate">{document?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPageNumber(n => n - 1)} disabled={loading || pageNumber <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Page {pageNumber} of {pageCount}</span>
+            {page?.textSource === 'ocr' && (
+              <Badge variant="outline">
+                OCR{ocrConfidence !== null ? ` · ${Math.round(ocrConfidence)}% confidence` : ''}
+              </Badge>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setPageNumber(n => n + 1)} disabled={loading || pageNumber >= pageCount}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {matchingPages.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            <span>Matches on:</span>
+            {matchingPages.map(n => (
+              <Button
+                key={n}
+                variant={n === pageNumber ? 'default' : 'ghost'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setPageNumber(n)}
+              >
+                {n}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto rounded border bg-muted/30 p-4">
+          {loading && <p className="text-sm text-muted-foreground">Loading page...</p>}
+          {error && !loading && <p className="text-sm text-red-500">{error}</p>}
+          {page && !loading && (
+            <p className="whitespace-pre-wrap text-sm">
+              {parts.map((part, index) => (
+                index % 2 === 1
+                  ? <mark key={index} className="bg-warning/40 text-foreground">{part}</mark>
+                  : <Fragment key={index}>{part}</Fragment>
+              ))}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldAlert } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { QuarantinedFile } from '@/types/atlas';
+
+interface QuarantinePanelProps {
+  // Changing this reloads the list, e.g. when a processing file drops out of the dashboard
+  refreshKey?: number;
+}
+
+// Read-only: releasing or deleting a quarantined file is an admin action on the quarantine function
+export const QuarantinePanel = ({ refreshKey }: QuarantinePanelProps) => {
+  const [files, setFiles] = useState<QuarantinedFile[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    AtlasAPI.getQuarantinedFiles().then(response => {
+      if (!cancelled && response.success && response.data) setFiles(response.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (files.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldAlert className="h-4 w-4 text-destructive" />
+          Quarantined ({files.length})
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The malware scan flagged these uploads. They cannot be opened, searched or downloaded until an admin releases them.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Detected</TableHead>
+              <TableHead>Scanner</TableHead>
+              <TableHead>Quarantined</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {files.map(file => (
+              <TableRow key={file.id}>
+                <TableCell className="font-medium max-w-[12rem] truncate" title={file.name}>
+                  {file.name}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="destructive">{file.signature || 'Malware'}</Badge>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{file.scanner}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {file.quarantinedAt?.toLocaleString()}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
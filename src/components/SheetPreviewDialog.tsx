@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Sheet as SheetIcon } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, SheetPreview } from '@/types/atlas';
+
+interface SheetPreviewDialogProps {
+  document: Document;
+  rows?: number;
+}
+
+export const SheetPreviewDialog = ({ document, rows = 20 }: SheetPreviewDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [sheetName, setSheetName] = useState<string | undefined>(document.sheets?.[0]?.name);
+  const [preview, setPreview] = useState<SheetPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      setLoading(true);
+      setError(null);
+      const response = await AtlasAPI.getSheetPreview(document.id, { sheet: sheetName, rows });
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setPreview(response.data);
+      } else {
+        setError(response.error || 'Failed to load preview');
+      }
+      setLoading(false);
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, sheetName, document.id, rows]);
+
+  const sheets = preview?.sheets ?? document.sheets ?? [];
+  const headers = preview?.sheet.headers ?? [];
+  const columnCount = Math.max(headers.length, ...(preview?.rows ?? []).map(row => row.length), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <SheetIcon className="h-3 w-3 mr-2" />
+          Preview table
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate">{document.name}</DialogTitle>
+        </DialogHeader>
+
+        {sheets.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {sheets.map(sheet => (
+              <Button
+                key={sheet.name}
+                variant={sheet.name === (preview?.sheet.name ?? sheetName) ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSheetName(sheet.name)}
+              >
+                {sheet.name}
+                <Badge variant="secondary" className="ml-2">{sheet.rowCount}</Badge>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {loading && <p className="text-sm text-muted-foreground">Loading preview...</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {preview && !loading && (
+          <div className="space-y-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <TableHead key={i} className="whitespace-nowrap">{headers[i] ?? ''}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <TableCell key={i} className="whitespace-nowrap">{row[i] ?? ''}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Showing {preview.rows.length} of {preview.sheet.rowCount} row(s)
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { TrashedFile } from '@/types/atlas';
+
+interface TrashPanelProps {
+  // Changing this reloads the trash, e.g. after a file is deleted from the list
+  refreshKey?: number;
+  onRestored?: () => void;
+}
+
+export const TrashPanel = ({ refreshKey, onRestored }: TrashPanelProps) => {
+  const [files, setFiles] = useState<TrashedFile[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [working, setWorking] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    AtlasAPI.getTrash().then(response => {
+      if (!cancelled && response.success && response.data) {
+        setFiles(response.data.files);
+        setRetentionDays(response.data.retentionDays);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const apply = async (file: TrashedFile, action: 'restore' | 'delete') => {
+    setWorking(prev => [...prev, file.id]);
+    const response = action === 'restore'
+      ? await AtlasAPI.restoreFromTrash(file.id)
+      : await AtlasAPI.deleteFromTrash(file.id);
+    setWorking(prev => prev.filter(id => id !== file.id));
+
+    if (response.success) {
+      toast({ title: response.message, description: file.name });
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      if (action === 'restore') onRestored?.();
+    } else {
+      toast({
+        title: action === 'restore' ? "Restore failed" : "Delete failed",
+        description: response.error || "Failed to update the trash",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (files.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Trash2 className="h-4 w-4" />
+          Trash ({files.length})
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Deleted files are kept {retentionDays ? `for ${retentionDays} days` : 'for a while'} and then removed for good.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead>Removed for good</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {files.map(file => (
+              <TableRow key={file.id}>
+                <TableCell className="font-medium max-w-[16rem]">
+                  <p className="truncate" title={file.relativePath || file.name}>{file.name}</p>
+                  {file.entries > 0 && (
+                    <p className="text-xs font-normal text-muted-foreground">with {file.entries} unpacked file(s)</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{file.deletedAt.toLocaleString()}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{file.purgeAfter.toLocaleDateString()}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={working.includes(file.id)}
+                      onClick={() => apply(file, 'restore')}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" size="sm" disabled={working.includes(file.id)}>
+                          Delete forever
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {file.name} for good?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The stored file, its extracted text and tags are removed. This cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => apply(file, 'delete')}>Delete forever</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,268 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { FileText, GitCompare, History, RotateCcw, Upload } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, DocumentVersion } from '@/types/atlas';
+import { diffLines, DiffLine, MAX_DIFF_LINES } from '@/lib/text-diff';
+
+interface VersionHistoryDialogProps {
+  document: Document;
+  // Called after a new version is uploaded or an earlier one restored, so the list can reload
+  onChanged?: () => void;
+}
+
+type TextView =
+  | { kind: 'text'; version: DocumentVersion; text: string | null; truncated: boolean }
+  | { kind: 'diff'; version: DocumentVersion; current: DocumentVersion; lines: DiffLine[]; truncated: boolean };
+
+const DIFF_LINE_CLASSES: Record<DiffLine['type'], string> = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-500/10 text-green-700 dark:text-green-400',
+  removed: 'bg-red-500/10 text-red-700 dark:text-red-400 line-through',
+};
+
+const DIFF_LINE_PREFIX: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+export const VersionHistoryDialog = ({ document, onChanged }: VersionHistoryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [view, setView] = useState<TextView | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      setError(null);
+      const response = await AtlasAPI.getVersions(document.id);
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setVersions(response.data);
+      } else {
+        setError(response.error || 'Failed to load versions');
+      }
+      setLoading(false);
+    };
+
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, document.id, reloadKey]);
+
+  const current = versions.find(version => version.isCurrent);
+
+  const showText = async (version: DocumentVersion) => {
+    setBusy(true);
+    const response = await AtlasAPI.getVersionText(version.id);
+    setBusy(false);
+    if (response.success && response.data) {
+      setView({ kind: 'text', version, text: response.data.text, truncated: response.data.truncated });
+    } else {
+      toast({ title: "Could not load the text", description: response.error, variant: "destructive" });
+    }
+  };
+
+  const compareWithCurrent = async (version: DocumentVersion) => {
+    if (!current) return;
+    setBusy(true);
+    const [before, after] = await Promise.all([
+      AtlasAPI.getVersionText(version.id),
+      AtlasAPI.getVersionText(current.id),
+    ]);
+    setBusy(false);
+    if (!before.success || !after.success || !before.data || !after.data) {
+      toast({ title: "Could not load the text", description: before.error || after.error, variant: "destructive" });
+      return;
+    }
+    const beforeText = before.data.text ?? '';
+    const afterText = after.data.text ?? '';
+    setView({
+      kind: 'diff',
+      version,
+      current,
+      lines: diffLines(beforeText, afterText),
+      truncated: before.data.truncated || after.data.truncated
+        || beforeText.split('\n').length > MAX_DIFF_LINES || afterText.split('\n').length > MAX_DIFF_LINES,
+    });
+  };
+
+  const restore = async (version: DocumentVersion) => {
+    setBusy(true);
+    const response = await AtlasAPI.restoreVersion(version.id);
+    setBusy(false);
+    if (response.success) {
+      toast({ title: "Version restored", description: `${version.name} (v${version.version}) is the current version again` });
+      setView(null);
+      setReloadKey(key => key + 1);
+      onChanged?.();
+    } else {
+      toast({ title: "Restore failed", description: response.error || "Failed to restore the version", variant: "destructive" });
+    }
+  };
+
+  const uploadVersion = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    const response = await AtlasAPI.uploadDocument(file, undefined, { versionOf: current?.id ?? document.id });
+    setBusy(false);
+    if (response.success && response.data) {
+      toast({ title: "New version uploaded", description: `${file.name} (v${response.data.version ?? versions.length + 1})` });
+      setView(null);
+      setReloadKey(key => key + 1);
+      onChanged?.();
+    } else {
+      toast({ title: "Upload failed", description: response.error || "Failed to upload the new version", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => { setOpen(isOpen); if (!isOpen) setView(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <History className="h-3 w-3 mr-2" />
+          Versions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="truncate">Versions of {current?.name ?? document.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            Only the current version is listed and searched. Each version keeps its own file, text and tags.
+          </p>
+          <input ref={fileInput} type="file" className="hidden" onChange={uploadVersion} />
+          <Button size="sm" disabled={busy || loading} onClick={() => fileInput.current?.click()}>
+            <Upload className="h-3 w-3 mr-2" />
+            Upload new version
+          </Button>
+        </div>
+
+        {loading && <p className="text-sm text-muted-foreground">Loading versions...</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {!loading && versions.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>Tags</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...versions].reverse().map(version => (
+                <TableRow key={version.id}>
+                  <TableCell className="whitespace-nowrap">
+                    v{version.version}
+                    {version.isCurrent && <Badge className="ml-2">current</Badge>}
+                  </TableCell>
+                  <TableCell className="max-w-[14rem]">
+                    <p className="truncate" title={version.name}>{version.name}</p>
+                    {version.status !== 'completed' && (
+                      <p className="text-xs text-muted-foreground">{version.status}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {version.uploadedAt.toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {version.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="View text"
+                        disabled={busy || !version.hasContent}
+                        onClick={() => showText(version)}
+                      >
+                        <FileText className="h-3 w-3" />
+                      </Button>
+                      {!version.isCurrent && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Compare with the current version"
+                            disabled={busy || !current}
+                            onClick={() => compareWithCurrent(version)}
+                          >
+                            <GitCompare className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Make this the current version"
+                            disabled={busy || version.status === 'quarantined'}
+                            onClick={() => restore(version)}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {view && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                {view.kind === 'text'
+                  ? `Text of v${view.version.version}`
+                  : `Changes from v${view.version.version} to v${view.current.version} (current)`}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setView(null)}>Close</Button>
+            </div>
+            {view.truncated && (
+              <p className="text-xs text-muted-foreground">The text is long; only the beginning is shown.</p>
+            )}
+            {view.kind === 'text' ? (
+              <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs">
+                {view.text || 'No text was extracted from this version.'}
+              </pre>
+            ) : view.lines.every(line => line.type === 'same') ? (
+              <p className="text-sm text-muted-foreground">The extracted text is the same.</p>
+            ) : (
+              <pre className="max-h-96 overflow-auto rounded bg-muted p-3 text-xs">
+                {view.lines.map((line, index) => (
+                  <div key={index} className={DIFF_LINE_CLASSES[line.type]}>
+                    {DIFF_LINE_PREFIX[line.type]} {line.text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
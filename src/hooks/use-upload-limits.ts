@@ -0,0 +1,30 @@
+import * as React from "react";
+import AtlasAPI from "@/services/api";
+import { UploadLimits } from "@/types/atlas";
+
+// Fetched once per page load and shared by every upload form; a failed fetch is retried on the next mount
+let limitsRequest: Promise<UploadLimits | null> | null = null;
+
+// null until loaded (or if the backend is unreachable); the server validates every upload regardless
+export function useUploadLimits() {
+  const [limits, setLimits] = React.useState<UploadLimits | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    if (!limitsRequest) {
+      limitsRequest = AtlasAPI.getUploadLimits().then(response => {
+        if (response.success && response.data) return response.data;
+        limitsRequest = null;
+        return null;
+      });
+    }
+    limitsRequest.then(loaded => {
+      if (!cancelled) setLimits(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return limits;
+}
@@ -14,6 +14,74 @@ export type Database = {
   }
   public: {
     Tables: {
+      duplicate_dismissals: {
+        Row: {
+          created_at: string
+          file_id_a: number
+          file_id_b: number
+          id: number
+        }
+        Insert: {
+          created_at?: string
+          file_id_a: number
+          file_id_b: number
+          id?: number
+        }
+        Update: {
+          created_at?: string
+          file_id_a?: number
+          file_id_b?: number
+          id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_dismissals_file_id_a_fkey"
+            columns: ["file_id_a"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_dismissals_file_id_b_fkey"
+            columns: ["file_id_b"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_aliases: {
+        Row: {
+          created_at: string
+          file_id: number
+          filename: string
+          id: number
+          user_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          file_id: number
+          filename: string
+          id?: number
+          user_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          file_id?: number
+          filename?: string
+          id?: number
+          user_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_aliases_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_content: {
         Row: {
           created_at: string
@@ -46,6 +114,158 @@ export type Database = {
           },
         ]
       }
+      file_fingerprints: {
+        Row: {
+          created_at: string
+          file_id: number
+          minhash: number[]
+          shingle_count: number
+        }
+        Insert: {
+          created_at?: string
+          file_id: number
+          minhash: number[]
+          shingle_count?: number
+        }
+        Update: {
+          created_at?: string
+          file_id?: number
+          minhash?: number[]
+          shingle_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_fingerprints_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: true
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_ocr_pages: {
+        Row: {
+          confidence: number
+          created_at: string
+          file_id: number
+          height: number | null
+          id: number
+          page_number: number
+          width: number | null
+          word_count: number
+          words: Json
+        }
+        Insert: {
+          confidence?: number
+          created_at?: string
+          file_id: number
+          height?: number | null
+          id?: number
+          page_number: number
+          width?: number | null
+          word_count?: number
+          words?: Json
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          file_id?: number
+          height?: number | null
+          id?: number
+          page_number?: number
+          width?: number | null
+          word_count?: number
+          words?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_ocr_pages_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_pages: {
+        Row: {
+          created_at: string
+          file_id: number
+          id: number
+          page_number: number
+          page_text: string
+          search_vector: unknown | null
+          text_source: string
+        }
+        Insert: {
+          created_at?: string
+          file_id: number
+          id?: number
+          page_number: number
+          page_text: string
+          search_vector: unknown | null
+          text_source: string
+        }
+        Update: {
+          created_at?: string
+          file_id?: number
+          id?: number
+          page_number?: number
+          page_text?: string
+          search_vector?: unknown | null
+          text_source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_pages_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_sheets: {
+        Row: {
+          created_at: string
+          file_id: number
+          headers: string[]
+          id: number
+          name: string
+          preview_rows: Json
+          row_count: number
+          sheet_index: number
+        }
+        Insert: {
+          created_at?: string
+          file_id: number
+          headers?: string[]
+          id?: number
+          name: string
+          preview_rows?: Json
+          row_count?: number
+          sheet_index: number
+        }
+        Update: {
+          created_at?: string
+          file_id?: number
+          headers?: string[]
+          id?: number
+          name?: string
+          preview_rows?: Json
+          row_count?: number
+          sheet_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_sheets_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_tags: {
         Row: {
           created_at: string
@@ -81,33 +301,125 @@ export type Database = {
       }
       files: {
         Row: {
+          archive_depth: number
+          archive_summary: Json | null
+          content_hash: string | null
+          deleted_at: string | null
+          error_message: string | null
           file_type: Database["public"]["Enums"]["file_type_enum"]
           filename: string
+          folder_id: number | null
           id: number
+          is_current: boolean
+          language: string | null
+          malware_signature: string | null
+          metadata: Json | null
+          ocr_confidence: number | null
+          ocr_languages: string[] | null
+          parent_id: number | null
+          preprocess_options: Json | null
+          preprocessed_path: string | null
+          preprocessing_steps: Json | null
+          processed_at: string | null
+          quarantine_released_at: string | null
+          quarantine_released_by: string | null
+          quarantined_at: string | null
+          relative_path: string | null
+          scanned_at: string | null
+          scanner: string | null
           size: number
+          status: string
           storage_path: string
           upload_date: string
           user_id: number | null
+          version: number
+          version_of: number | null
         }
         Insert: {
+          archive_depth?: number
+          archive_summary?: Json | null
+          content_hash?: string | null
+          deleted_at?: string | null
+          error_message?: string | null
           file_type?: Database["public"]["Enums"]["file_type_enum"]
           filename: string
+          folder_id?: number | null
           id?: number
+          is_current?: boolean
+          language?: string | null
+          malware_signature?: string | null
+          metadata?: Json | null
+          ocr_confidence?: number | null
+          ocr_languages?: string[] | null
+          parent_id?: number | null
+          preprocess_options?: Json | null
+          preprocessed_path?: string | null
+          preprocessing_steps?: Json | null
+          processed_at?: string | null
+          quarantine_released_at?: string | null
+          quarantine_released_by?: string | null
+          quarantined_at?: string | null
+          relative_path?: string | null
+          scanned_at?: string | null
+          scanner?: string | null
           size: number
+          status?: string
           storage_path: string
           upload_date?: string
           user_id?: number | null
+          version?: number
+          version_of?: number | null
         }
         Update: {
+          archive_depth?: number
+          archive_summary?: Json | null
+          content_hash?: string | null
+          deleted_at?: string | null
+          error_message?: string | null
           file_type?: Database["public"]["Enums"]["file_type_enum"]
           filename?: string
+          folder_id?: number | null
           id?: number
+          is_current?: boolean
+          language?: string | null
+          malware_signature?: string | null
+          metadata?: Json | null
+          ocr_confidence?: number | null
+          ocr_languages?: string[] | null
+          parent_id?: number | null
+          preprocess_options?: Json | null
+          preprocessed_path?: string | null
+          preprocessing_steps?: Json | null
+          processed_at?: string | null
+          quarantine_released_at?: string | null
+          quarantine_released_by?: string | null
+          quarantined_at?: string | null
+          relative_path?: string | null
+          scanned_at?: string | null
+          scanner?: string | null
           size?: number
+          status?: string
           storage_path?: string
           upload_date?: string
           user_id?: number | null
+          version?: number
+          version_of?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "files_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "files_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "files_user_id_fkey"
             columns: ["user_id"]
@@ -115,6 +427,140 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "files_version_of_fkey"
+            columns: ["version_of"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folders: {
+        Row: {
+          created_at: string
+          id: number
+          name: string
+          parent_id: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          name: string
+          parent_id?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          name?: string
+          parent_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_job_errors: {
+        Row: {
+          attempt: number
+          created_at: string
+          error: string
+          file_id: number
+          id: number
+          job_id: number
+          step: string
+        }
+        Insert: {
+          attempt: number
+          created_at?: string
+          error: string
+          file_id: number
+          id?: number
+          job_id: number
+          step: string
+        }
+        Update: {
+          attempt?: number
+          created_at?: string
+          error?: string
+          file_id?: number
+          id?: number
+          job_id?: number
+          step?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_job_errors_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_job_errors_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "processing_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          failed_step: string | null
+          file_id: number
+          finished_at: string | null
+          id: number
+          last_error: string | null
+          max_attempts: number
+          next_run_at: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          failed_step?: string | null
+          file_id: number
+          finished_at?: string | null
+          id?: number
+          last_error?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          failed_step?: string | null
+          file_id?: number
+          finished_at?: string | null
+          id?: number
+          last_error?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
         ]
       }
       tags: {
@@ -135,6 +581,97 @@ export type Database = {
         }
         Relationships: []
       }
+      upload_sessions: {
+        Row: {
+          chunk_count: number
+          content_type: string | null
+          created_at: string
+          error_message: string | null
+          expires_at: string
+          file_id: number | null
+          filename: string
+          folder_id: number | null
+          id: string
+          ocr_languages: string[] | null
+          on_duplicate: string
+          preprocess_options: Json | null
+          relative_path: string | null
+          result: Json | null
+          size: number
+          status: string
+          updated_at: string
+          upload_offset: number
+          user_id: number | null
+          version_of: number | null
+        }
+        Insert: {
+          chunk_count?: number
+          content_type?: string | null
+          created_at?: string
+          error_message?: string | null
+          expires_at?: string
+          file_id?: number | null
+          filename: string
+          folder_id?: number | null
+          id?: string
+          ocr_languages?: string[] | null
+          on_duplicate?: string
+          preprocess_options?: Json | null
+          relative_path?: string | null
+          result?: Json | null
+          size: number
+          status?: string
+          updated_at?: string
+          upload_offset?: number
+          user_id?: number | null
+          version_of?: number | null
+        }
+        Update: {
+          chunk_count?: number
+          content_type?: string | null
+          created_at?: string
+          error_message?: string | null
+          expires_at?: string
+          file_id?: number | null
+          filename?: string
+          folder_id?: number | null
+          id?: string
+          ocr_languages?: string[] | null
+          on_duplicate?: string
+          preprocess_options?: Json | null
+          relative_path?: string | null
+          result?: Json | null
+          size?: number
+          status?: string
+          updated_at?: string
+          upload_offset?: number
+          user_id?: number | null
+          version_of?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upload_sessions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upload_sessions_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upload_sessions_version_of_fkey"
+            columns: ["version_of"]
+            isOneToOne: false
+            referencedRelation: "files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       users: {
         Row: {
           created_at: string
@@ -164,10 +701,58 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_processing_job: {
+        Args: { p_job_id?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          failed_step: string | null
+          file_id: number
+          finished_at: string | null
+          id: number
+          last_error: string | null
+          max_attempts: number
+          next_run_at: string
+          started_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      search_file_content: {
+        Args: { p_query: string }
+        Returns: {
+          file_id: number
+        }[]
+      }
+      search_file_pages: {
+        Args: { p_query: string }
+        Returns: {
+          file_id: number
+          page_number: number
+        }[]
+      }
+      text_search_config: {
+        Args: { p_language: string }
+        Returns: unknown
+      }
     }
     Enums: {
-      file_type_enum: "pdf" | "image" | "text" | "audio" | "video" | "other"
+      file_type_enum:
+        | "pdf"
+        | "image"
+        | "text"
+        | "audio"
+        | "video"
+        | "other"
+        | "markdown"
+        | "html"
+        | "csv"
+        | "docx"
+        | "pptx"
+        | "odt"
+        | "xlsx"
+        | "archive"
+        | "email"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -295,7 +880,23 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      file_type_enum: ["pdf", "image", "text", "audio", "video", "other"],
+      file_type_enum: [
+        "pdf",
+        "image",
+        "text",
+        "audio",
+        "video",
+        "other",
+        "markdown",
+        "html",
+        "csv",
+        "docx",
+        "pptx",
+        "odt",
+        "xlsx",
+        "archive",
+        "email",
+      ],
     },
   },
 } as const
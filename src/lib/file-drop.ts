@@ -0,0 +1,126 @@
+// Turns file pickers, drag-and-drop (including whole folders) and clipboard pastes
+// into upload candidates, and decides which of them can be uploaded.
+
+import { UploadLimits } from '@/types/atlas';
+
+// A file waiting to be uploaded; relativePath is set for files that came from a folder
+export interface PendingFile {
+  file: File;
+  relativePath?: string;
+}
+
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+const displayName = (candidate: PendingFile) => candidate.relativePath || candidate.file.name;
+
+const extension = (name: string) => name.includes('.') ? name.split('.').pop()?.toLowerCase() || '' : '';
+
+const MB = 1024 * 1024;
+
+export const formatLimit = (bytes: number) => bytes >= 1024 * MB ? `${bytes / (1024 * MB)}GB` : `${Math.round(bytes / MB)}MB`;
+
+// Mirrors checkDeclaredUpload in supabase/functions/_shared/limits.ts; the server also checks
+// the file content. Until the limits have loaded only the obvious cases are refused.
+export function rejectionReason(file: File, limits: UploadLimits | null): string | null {
+  const ext = extension(file.name);
+  // Folders drag along .DS_Store, Thumbs.db and friends
+  if (file.name.startsWith('.') || file.name === 'Thumbs.db' || file.name === 'desktop.ini') return 'System or hidden file';
+  if (file.size === 0) return 'File is empty';
+  if (!limits) return null;
+  if (limits.deniedExtensions.includes(ext)) return `.${ext} files are not accepted`;
+  const type = limits.types.find(limit => limit.mimeTypes.includes(file.type) || limit.extensions.includes(ext));
+  if (!type) return ext ? `Unsupported file type (.${ext})` : 'Unsupported file type';
+  if (file.size > type.maxBytes) return `${type.label} files are limited to ${formatLimit(type.maxBytes)}`;
+  return null;
+}
+
+// For the file picker; undefined (anything) until the limits have loaded
+export const acceptAttribute = (limits: UploadLimits | null) =>
+  limits ? limits.types.flatMap(type => type.extensions.map(ext => `.${ext}`)).join(',') : undefined;
+
+// e.g. "PDF up to 100MB, Images up to 50MB, ..."
+export const describeLimits = (limits: UploadLimits) =>
+  limits.types.map(type => `${type.label} up to ${formatLimit(type.maxBytes)}`).join(', ');
+
+export function partitionFiles(
+  candidates: PendingFile[],
+  limits: UploadLimits | null,
+): { accepted: PendingFile[]; rejected: RejectedFile[] } {
+  const accepted: PendingFile[] = [];
+  const rejected: RejectedFile[] = [];
+  for (const candidate of candidates) {
+    const reason = rejectionReason(candidate.file, limits);
+    if (reason) rejected.push({ name: displayName(candidate), reason });
+    else accepted.push(candidate);
+  }
+  return { accepted, rejected };
+}
+
+// A folder picker (webkitdirectory) fills in webkitRelativePath; a plain picker leaves it empty
+export function filesFromInput(files: FileList | null): PendingFile[] {
+  return Array.from(files || []).map(file => ({
+    file,
+    relativePath: file.webkitRelativePath || undefined,
+  }));
+}
+
+const readFileEntry = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries hands back directory contents in batches (100 at a time in Chrome) until it returns none
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry, into: PendingFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    // fullPath is "/Invoices/2024/march.pdf"; a file dropped on its own is just "/march.pdf"
+    const path = entry.fullPath.replace(/^\/+/, '');
+    into.push({ file, relativePath: path.includes('/') ? path : undefined });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectoryEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, into);
+    }
+  }
+}
+
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<PendingFile[]> {
+  // Items are only readable during the drop event, so take every entry before the first await
+  const items = Array.from(dataTransfer.items || []).filter(item => item.kind === 'file');
+  const sources = items.map(item => ({ entry: item.webkitGetAsEntry?.() ?? null, file: item.getAsFile() }));
+
+  if (sources.length === 0) {
+    return Array.from(dataTransfer.files || []).map(file => ({ file }));
+  }
+
+  const files: PendingFile[] = [];
+  for (const source of sources) {
+    if (source.entry) await walkEntry(source.entry, files);
+    else if (source.file) files.push({ file: source.file });
+  }
+  return files;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Screenshots arrive as "image.png"; give them a name that says when they were pasted
+export function filesFromClipboard(clipboardData: DataTransfer | null): PendingFile[] {
+  const now = new Date();
+  const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}.${pad(now.getMinutes())}.${pad(now.getSeconds())}`;
+  return Array.from(clipboardData?.files || []).map((file, index) => {
+    if (!file.type.startsWith('image/') || !/^image\.\w+$/i.test(file.name)) return { file };
+    const ext = file.name.split('.').pop();
+    const name = `Pasted image ${stamp}${index > 0 ? ` (${index + 1})` : ''}.${ext}`;
+    return { file: new File([file], name, { type: file.type, lastModified: now.getTime() }) };
+  });
+}
@@ -0,0 +1,26 @@
+import { Folder } from '@/types/atlas';
+
+// Subfolders of parentId (undefined: the top level), by name
+export function childFolders(folders: Folder[], parentId?: string): Folder[] {
+  return folders
+    .filter(folder => folder.parentId === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The folder and its ancestors, top-level first; empty when it does not exist
+export function folderPath(folders: Folder[], folderId?: string | null): Folder[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  for (let folder = folderId ? byId.get(folderId) : undefined; folder && !path.includes(folder); folder = folder.parentId ? byId.get(folder.parentId) : undefined) {
+    path.unshift(folder);
+  }
+  return path;
+}
+
+// Every folder in tree order with its depth, e.g. for an indented folder picker
+export function flattenFolders(folders: Folder[], parentId?: string, depth = 0): { folder: Folder; depth: number }[] {
+  return childFolders(folders, parentId).flatMap(folder => [
+    { folder, depth },
+    ...flattenFolders(folders, folder.id, depth + 1),
+  ]);
+}
@@ -0,0 +1,40 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// The LCS table grows with the product of both line counts, so longer texts are compared
+// only up to this many lines each
+export const MAX_DIFF_LINES = 2000;
+
+// Line diff of before -> after (longest common subsequence); lines past MAX_DIFF_LINES are left out
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n').slice(0, MAX_DIFF_LINES);
+  const b = after.split('\n').slice(0, MAX_DIFF_LINES);
+
+  // common[i][j]: length of the LCS of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
@@ -0,0 +1,436 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { FileActions } from '@/components/FileActions';
+import { ArchiveEntries } from '@/components/ArchiveEntries';
+import { VersionHistoryDialog } from '@/components/VersionHistoryDialog';
+import { PageViewerDialog } from '@/components/PageViewerDialog';
+import { SheetPreviewDialog } from '@/components/SheetPreviewDialog';
+import { ImageCompareDialog } from '@/components/ImageCompareDialog';
+import { ArrowLeft, BookOpen, CornerLeftUp, FileText, History, Info, Link2, RefreshCw, ScanText, Tag, Tags } from 'lucide-react';
+import AtlasAPI from '@/services/api';
+import { Document, Folder, ProcessingJob } from '@/types/atlas';
+import { folderPath } from '@/lib/folders';
+
+// How often the page is refreshed while the document is queued or being processed
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+const JOB_STATUS_VARIANTS: Record<ProcessingJob['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'secondary',
+  running: 'secondary',
+  succeeded: 'default',
+  dead_letter: 'destructive',
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Label/value rows for the metadata card; empty values are left out
+const metadataRows = (document: Document, folders: Folder[]): [string, string][] => {
+  const { email, pdfInfo, exif } = document;
+  const rows: [string, string | undefined][] = [
+    ['Type', document.type],
+    ['Size', formatFileSize(document.size)],
+    ['Uploaded', document.uploadedAt.toLocaleString()],
+    ['Processed', document.processedAt?.toLocaleString()],
+    ['Folder', folderPath(folders, document.folderId).map(folder => folder.name).join(' / ')],
+    ['Path', document.relativePath !== document.name ? document.relativePath : undefined],
+    ['Version', document.version !== undefined ? `v${document.version}${document.isCurrent === false ? ' (superseded)' : ''}` : undefined],
+    ['Also uploaded as', document.aliases?.join(', ')],
+    ['Content hash', document.contentHash],
+    ['Subject', email?.subject],
+    ['From', email?.from],
+    ['To', email?.to.join(', ')],
+    ['Cc', email?.cc.join(', ')],
+    ['Sent', email?.date?.toLocaleString()],
+    ['Title', pdfInfo?.title],
+    ['Author', pdfInfo?.author],
+    ['PDF subject', pdfInfo?.subject],
+    ['Keywords', pdfInfo?.keywords],
+    ['Creator', pdfInfo?.creator],
+    ['Producer', pdfInfo?.producer],
+    ['Created', pdfInfo?.createdAt?.toLocaleString()],
+    ['Modified', pdfInfo?.modifiedAt?.toLocaleString()],
+    ['Camera', exif?.camera],
+    ['Lens', exif?.lens],
+    ['Software', exif?.software],
+    ['Captured', exif?.capturedAt?.toLocaleString()],
+    ['Dimensions', exif?.width && exif?.height ? `${exif.width} × ${exif.height}` : undefined],
+    ['Location', exif?.gps ? `${exif.gps.latitude.toFixed(5)}, ${exif.gps.longitude.toFixed(5)}` : undefined],
+  ];
+  return rows.filter((row): row is [string, string] => !!row[1]);
+};
+
+// What processing found out about the document
+const analysisRows = (document: Document): [string, string][] => {
+  const steps = document.preprocessing;
+  const rows: [string, string | undefined][] = [
+    ['Language', document.language?.toUpperCase()],
+    ['OCR languages', document.ocrLanguages?.join(', ')],
+    ['Pages', document.pageCount?.toString()],
+    ['OCR pages', document.ocrPages && document.ocrPages.length > 0 ? document.ocrPages.join(', ') : undefined],
+    ['OCR confidence', document.ocrConfidence !== undefined ? `${document.ocrConfidence}%` : undefined],
+    ['Image cleanup', steps ? [
+      steps.rotation ? `rotated ${steps.rotation}°` : '',
+      steps.deskewAngle ? `deskewed ${steps.deskewAngle.toFixed(1)}°` : '',
+      steps.denoised ? 'denoised' : '',
+      steps.contrastStretched ? 'contrast stretched' : '',
+      steps.binarized ? 'binarized' : '',
+    ].filter(Boolean).join(', ') || 'none needed' : undefined],
+    ['Sheets', document.sheets && document.sheets.length > 0 ? document.sheets.map(sheet => `${sheet.name} (${sheet.rowCount} rows)`).join(', ') : undefined],
+    ['Unpacked', document.archiveSummary ? `${document.archiveSummary.entries} ${document.archiveSummary.format} entries` : undefined],
+  ];
+  return rows.filter((row): row is [string, string] => !!row[1]);
+};
+
+const DetailList = ({ rows }: { rows: [string, string][] }) => (
+  <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+    {rows.map(([label, value]) => (
+      <div key={label} className="contents">
+        <dt className="text-muted-foreground">{label}</dt>
+        <dd className="break-words">{value}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+// One document on its own page, at a URL that can be shared: full text, metadata,
+// tags, analysis and processing history, with download, re-process and re-tag
+const DocumentDetail = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [document, setDocument] = useState<Document | null>(null);
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'reprocess' | 'retag' | null>(null);
+  const [pageView, setPageView] = useState(false);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    const [file, history] = await Promise.all([AtlasAPI.getFile(id), AtlasAPI.getFileHistory(id)]);
+    if (file.success && file.data) {
+      setDocument(file.data);
+      setError(null);
+    } else {
+      setDocument(null);
+      setError(file.error || 'Failed to fetch file');
+    }
+    if (history.success && history.data) setJobs(history.data);
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    AtlasAPI.getFolders().then(response => {
+      if (response.success && response.data) setFolders(response.data);
+    });
+  }, []);
+
+  // Poll quietly while the document (or a file unpacked from it) is queued or being processed
+  useEffect(() => {
+    const isActive = (status: Document['status']) => status === 'pending' || status === 'processing';
+    if (!document || !(isActive(document.status) || document.children?.some(child => isActive(child.status)))) return;
+    const timer = setTimeout(load, STATUS_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [document, load]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Anyone on the team can open this document with it" });
+    } catch {
+      toast({ title: "Could not copy link", description: window.location.href, variant: "destructive" });
+    }
+  };
+
+  const reprocess = async () => {
+    setBusy('reprocess');
+    const response = await AtlasAPI.reprocessFile(id);
+    setBusy(null);
+    if (response.success) {
+      toast({ title: response.message, description: document?.name });
+      load();
+    } else {
+      toast({ title: "Re-process failed", description: response.error, variant: "destructive" });
+    }
+  };
+
+  const retag = async () => {
+    setBusy('retag');
+    const response = await AtlasAPI.autoTagFile(id);
+    setBusy(null);
+    if (response.success && response.data) {
+      toast({
+        title: response.message,
+        description: response.data.tags.length > 0 ? response.data.tags.join(', ') : 'No tags found',
+      });
+      load();
+    } else {
+      toast({ title: "Re-tag failed", description: response.error, variant: "destructive" });
+    }
+  };
+
+  const openDocument = (documentId: string) => navigate(`/documents/${documentId}`);
+
+  const processing = !!document && (document.status === 'pending' || document.status === 'processing');
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Navigation Header */}
+      <div className="flex items-center justify-between border-b pb-4">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <div className="h-6 w-px bg-border" />
+          <Badge variant="outline">Project ATLAS</Badge>
+        </div>
+        <Button variant="outline" size="sm" onClick={copyLink}>
+          <Link2 className="h-4 w-4 mr-2" />
+          Copy link
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading document...</p>
+      ) : !document ? (
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <p className="font-medium">This document could not be opened.</p>
+            <p className="text-sm text-muted-foreground">
+              It may have been deleted or quarantined, or the link may be wrong.
+            </p>
+            {error && <p className="text-xs text-destructive break-words">{error}</p>}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Header */}
+          <div className="flex flex-col gap-3">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <h1 className="text-3xl font-bold break-words">{document.name}</h1>
+                {document.parent && (
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => openDocument(document.parent!.id)}>
+                    <CornerLeftUp className="h-3 w-3 mr-1" />
+                    {document.parent.type === 'email' ? 'Attached to' : 'In'} {document.parent.name}
+                  </Button>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  <Badge
+                    variant={document.status === 'completed' ? 'default' : document.status === 'error' ? 'destructive' : 'secondary'}
+                    title={document.errorMessage}
+                  >
+                    {document.status}
+                  </Badge>
+                  {document.language && <Badge variant="outline">{document.language.toUpperCase()}</Badge>}
+                  {document.version !== undefined && document.version > 1 && <Badge variant="outline">v{document.version}</Badge>}
+                  {document.isCurrent === false && <Badge variant="secondary">superseded</Badge>}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" size="sm" disabled={busy !== null || processing} onClick={reprocess}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${busy === 'reprocess' ? 'animate-spin' : ''}`} />
+                  Re-process
+                </Button>
+                <Button variant="outline" size="sm" disabled={busy !== null || processing || !document.text} onClick={retag}>
+                  <Tags className="h-4 w-4 mr-2" />
+                  Re-tag
+                </Button>
+                {!document.parentId && (
+                  <VersionHistoryDialog document={document} onChanged={load} />
+                )}
+                <FileActions
+                  document={document}
+                  folders={folders}
+                  onUpdated={load}
+                  onDeleted={() => navigate('/dashboard')}
+                />
+              </div>
+            </div>
+            {document.status === 'error' && document.errorMessage && (
+              <p className="text-sm text-destructive break-words">{document.errorMessage}</p>
+            )}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-[1fr_22rem]">
+            <div className="space-y-6 min-w-0">
+              {/* Extracted Text */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2">
+                      <FileText className="h-5 w-5" />
+                      Extracted Text
+                    </span>
+                    {document.pageCount && (
+                      <Button variant="outline" size="sm" onClick={() => setPageView(true)}>
+                        <BookOpen className="h-4 w-4 mr-2" />
+                        View pages
+                      </Button>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {document.text ? (
+                    <>
+                      <pre className="max-h-[70vh] overflow-auto whitespace-pre-wrap break-words rounded-md bg-muted p-4 text-sm font-sans">
+                        {document.text}
+                      </pre>
+                      {document.textTruncated && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          The text is too long to show in full; download the original to read the rest.
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {processing ? 'The text is being extracted...' : 'No text was extracted from this document.'}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Archive Entries and Attachments */}
+              {(document.archiveSummary || (document.children && document.children.length > 0)) && (
+                <ArchiveEntries archive={document} onOpen={openDocument} />
+              )}
+
+              {/* Processing History */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Processing History
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {jobs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No processing runs recorded.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Queued</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Attempts</TableHead>
+                          <TableHead>Finished</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {jobs.map(job => (
+                          <TableRow key={job.id}>
+                            <TableCell className="align-top text-sm">{job.createdAt.toLocaleString()}</TableCell>
+                            <TableCell className="align-top">
+                              <Badge variant={JOB_STATUS_VARIANTS[job.status]}>{job.status.replace('_', ' ')}</Badge>
+                            </TableCell>
+                            <TableCell className="align-top text-sm">
+                              {job.attempts}/{job.maxAttempts}
+                              {job.errors.length > 0 && (
+                                <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                                  {job.errors.map(err => (
+                                    <li key={`${err.attempt}-${err.step}`} className="break-words">
+                                      #{err.attempt} {err.step}: {err.error}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </TableCell>
+                            <TableCell className="align-top text-sm text-muted-foreground">
+                              {job.finishedAt?.toLocaleString() ?? '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6 min-w-0">
+              {/* Tags */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Tag className="h-4 w-4" />
+                    Tags
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {document.tags && document.tags.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {document.tags.map(tag => (
+                        <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No tags yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Metadata */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Info className="h-4 w-4" />
+                    Metadata
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <DetailList rows={metadataRows(document, folders)} />
+                </CardContent>
+              </Card>
+
+              {/* Analysis Results */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <ScanText className="h-4 w-4" />
+                    Analysis
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {analysisRows(document).length > 0 ? (
+                    <DetailList rows={analysisRows(document)} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Nothing to report yet.</p>
+                  )}
+                  {document.sheets && document.sheets.length > 0 && <SheetPreviewDialog document={document} />}
+                  {document.preprocessedPath && <ImageCompareDialog document={document} />}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+
+          <PageViewerDialog
+            document={pageView ? document : null}
+            initialPage={1}
+            onClose={() => setPageView(false)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DocumentDetail;
@@ -1,80 +1,1786 @@
-import { APIResponse, Document, AnalysisResult } from '@/types/atlas';
+import { APIResponse, Document, DocumentPage, AnalysisResult, SheetInfo, SheetPreview, DeadLetterJob, ProcessingJob, DocumentGeometry, OcrWord, ImageComparison, UploadOptions, UploadResult, UploadOutcome, UploadSession, UploadLimits, DuplicateCluster, QuarantinedFile, TrashedFile, DocumentVersion, VersionText, ArchiveEntry, EmailHeaders, FileFilters, FileUpdate, FileDownload, Folder, PdfInfo, ExifInfo } from '@/types/atlas';
 import { SUPABASE_URL, SUPABASE_ANON_KEY } from '@/lib/supabase-config';
 
+// Files above this size go through resumable upload sessions instead of one request
+const RESUMABLE_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+// Attempts per chunk before giving up; the upload can still be resumed later
+const CHUNK_ATTEMPTS = 5;
+// Unfinished sessions are remembered per file and target so a reload resumes instead of restarting
+const UPLOAD_SESSION_KEY_PREFIX = 'atlas-upload-session:';
+
+// The folder and the document it is a version of are fixed when the session is created,
+// so the same file sent somewhere else gets a session of its own
+const uploadSessionKey = (file: File, options?: UploadOptions) =>
+  `${UPLOAD_SESSION_KEY_PREFIX}${options?.relativePath || file.name}:${file.size}:${file.lastModified}:${options?.folderId ?? ''}:${options?.versionOf ?? ''}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// fetch cannot report upload progress, so request bodies worth tracking go through XHR
+function sendWithProgress(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: XMLHttpRequestBodyInit,
+  options?: { onProgress?: (loaded: number) => void; signal?: AbortSignal }
+): Promise<{ ok: boolean; status: number; text: string }> {
+  return new Promise((resolve, reject) => {
+    if (options?.signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    const onAbort = () => xhr.abort();
+    options?.signal?.addEventListener('abort', onAbort);
+    const done = () => options?.signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = event => options?.onProgress?.(event.loaded);
+    xhr.onload = () => {
+      done();
+      resolve({ ok: xhr.status >= 200 && xhr.status < 300, status: xhr.status, text: xhr.responseText });
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new Error('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    xhr.send(body);
+  });
+}
+
+type UploadResponseData = {
+  outcome?: UploadOutcome;
+  file_id: number;
+  filename?: string;
+  file_type: string;
+  bytes: number;
+  status?: Document['status'];
+  ocr_languages?: string[];
+  content_hash?: string;
+  version?: number;
+  duplicate_of?: number | null;
+  relative_path?: string | null;
+};
+
+// files.metadata.email as stored by process-document
+type EmailHeadersData = {
+  subject: string | null;
+  from: string | null;
+  to: string[] | null;
+  cc: string[] | null;
+  date: string | null;
+  message_id: string | null;
+  in_reply_to: string | null;
+};
+
+const toEmailHeaders = (data: EmailHeadersData): EmailHeaders => ({
+  subject: data.subject || undefined,
+  from: data.from || undefined,
+  to: data.to || [],
+  cc: data.cc || [],
+  date: data.date ? new Date(data.date) : undefined,
+  messageId: data.message_id || undefined,
+  inReplyTo: data.in_reply_to || undefined,
+});
+
+// files.metadata.pdf and files.metadata.exif; absent fields are left out by the server
+type PdfInfoData = {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  created_at?: string;
+  modified_at?: string;
+  page_count?: number;
+};
+
+type ExifInfoData = {
+  camera?: string;
+  lens?: string;
+  software?: string;
+  captured_at?: string;
+  orientation?: number;
+  width?: number;
+  height?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+};
+
+const toPdfInfo = (data: PdfInfoData): PdfInfo => ({
+  title: data.title,
+  author: data.author,
+  subject: data.subject,
+  keywords: data.keywords,
+  creator: data.creator,
+  producer: data.producer,
+  createdAt: data.created_at ? new Date(data.created_at) : undefined,
+  modifiedAt: data.modified_at ? new Date(data.modified_at) : undefined,
+  pageCount: data.page_count,
+});
+
+const toExifInfo = (data: ExifInfoData): ExifInfo => ({
+  camera: data.camera,
+  lens: data.lens,
+  software: data.software,
+  capturedAt: data.captured_at ? new Date(data.captured_at) : undefined,
+  orientation: data.orientation,
+  width: data.width,
+  height: data.height,
+  gps: data.gps,
+});
+
+// A file as returned by the files function
+const toDocument = (file: any): Document => ({
+  id: file.id.toString(),
+  name: file.filename,
+  type: file.file_type as Document['type'],
+  size: file.size,
+  uploadedAt: new Date(file.upload_date),
+  processedAt: file.processed_at ? new Date(file.processed_at) : undefined,
+  status: file.status || (file.has_content ? 'completed' : 'pending'),
+  errorMessage: file.error_message || undefined,
+  language: file.language || undefined,
+  ocrLanguages: file.ocr_languages || [],
+  ocrConfidence: file.ocr_confidence ?? undefined,
+  preprocessedPath: file.preprocessed_path || undefined,
+  preprocessing: file.preprocessing_steps || undefined,
+  contentHash: file.content_hash || undefined,
+  version: file.version || undefined,
+  versionOf: file.version_of ? file.version_of.toString() : undefined,
+  isCurrent: file.is_current ?? undefined,
+  hasVersions: file.has_versions ?? undefined,
+  relativePath: file.relative_path || undefined,
+  folderId: file.folder_id ? file.folder_id.toString() : undefined,
+  aliases: file.aliases || [],
+  parentId: file.parent_id ? file.parent_id.toString() : undefined,
+  parent: file.parent
+    ? { id: file.parent.id.toString(), name: file.parent.filename, type: file.parent.file_type as Document['type'] }
+    : undefined,
+  metadata: file.metadata || undefined,
+  email: file.metadata?.email ? toEmailHeaders(file.metadata.email) : undefined,
+  pdfInfo: file.metadata?.pdf ? toPdfInfo(file.metadata.pdf) : undefined,
+  exif: file.metadata?.exif ? toExifInfo(file.metadata.exif) : undefined,
+  archiveSummary: file.archive_summary || undefined,
+  children: (file.children || []).map((child: { id: number; filename: string; file_type: string; size: number; status: string; error_message: string | null; relative_path: string | null }): ArchiveEntry => ({
+    id: child.id.toString(),
+    name: child.filename,
+    type: child.file_type as Document['type'],
+    size: child.size,
+    status: child.status as Document['status'],
+    errorMessage: child.error_message || undefined,
+    relativePath: child.relative_path || undefined,
+  })),
+  ocrText: file.content_preview || undefined,
+  text: file.text ?? undefined,
+  textTruncated: file.text_truncated ?? undefined,
+  tags: file.tags || [],
+  sheets: (file.sheets || []).map((sheet: { name: string; headers: string[]; row_count: number }): SheetInfo => ({
+    name: sheet.name,
+    headers: sheet.headers || [],
+    rowCount: sheet.row_count,
+  })),
+  pageCount: file.page_count || undefined,
+  ocrPages: file.ocr_pages || [],
+  matchingPages: file.matching_pages || []
+});
+
+type UploadSessionData = {
+  session_id: string;
+  filename: string;
+  size: number;
+  offset: number;
+  chunk_size: number;
+  status: UploadSession['status'];
+  expires_at: string;
+  error_message?: string | null;
+};
+
 export class AtlasAPI {
   // Document Management
-  static async uploadDocument(file: File, userId?: string): Promise<APIResponse<Document>> {
+  static async uploadDocument(file: File, userId?: string, options?: UploadOptions): Promise<APIResponse<UploadResult>> {
+    if (file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+      return this.uploadDocumentResumable(file, userId, options);
+    }
+
     const formData = new FormData();
     formData.append('file', file);
     if (userId) formData.append('user_id', userId);
+    // Omitted when empty so the backend auto-detects script and language
+    if (options?.ocrLanguages?.length) formData.append('ocr_languages', options.ocrLanguages.join(','));
+    // Images are fully preprocessed unless told otherwise; an empty list turns it off
+    if (options?.preprocess) formData.append('preprocess', options.preprocess.length ? options.preprocess.join(',') : 'none');
+    if (options?.onDuplicate) formData.append('on_duplicate', options.onDuplicate);
+    if (options?.relativePath) formData.append('relative_path', options.relativePath);
+    if (options?.versionOf) formData.append('version_of', options.versionOf);
+    if (options?.folderId) formData.append('folder_id', options.folderId);
     
     try {
       if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
         throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
       }
 
-      const url = `${SUPABASE_URL}/functions/v1/documents-upload`;
+      const url = `${SUPABASE_URL}/functions/v1/documents-upload`;
+
+      const response = await sendWithProgress(
+        'POST',
+        url,
+        {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          // Do not set Content-Type when sending FormData
+        },
+        formData,
+        {
+          // The multipart body is slightly larger than the file itself
+          onProgress: loaded => options?.onProgress?.({ loaded: Math.min(loaded, file.size), total: file.size }),
+          signal: options?.signal,
+        }
+      );
+
+      if (!response.ok) {
+        console.error('Upload failed:', response.status, response.text);
+        throw new Error(response.text || `Upload failed: ${response.status}`);
+      }
+
+      const data = JSON.parse(response.text);
+
+      console.log('Upload response:', data);
+
+      if (data && data.success) {
+        return this.toUploadResult(data, file);
+      } else {
+        throw new Error(data?.error || 'Upload failed');
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { success: false, error: 'Upload cancelled' };
+      }
+      console.error('Upload error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to upload document'
+      };
+    }
+  }
+
+  // documents-upload and upload-sessions answer with the same body
+  private static toUploadResult(data: UploadResponseData, file: File): APIResponse<UploadResult> {
+    const outcome: UploadOutcome = data.outcome || 'created';
+    const document: UploadResult = {
+      id: data.file_id.toString(),
+      name: data.filename || file.name,
+      type: data.file_type as Document['type'],
+      size: data.bytes,
+      uploadedAt: new Date(),
+      status: data.status || 'pending',
+      ocrText: undefined,
+      ocrLanguages: data.ocr_languages || [],
+      contentHash: data.content_hash,
+      version: data.version,
+      relativePath: data.relative_path || undefined,
+      outcome,
+      duplicateOf: data.duplicate_of ? data.duplicate_of.toString() : undefined,
+    };
+
+    const messages: Record<UploadOutcome, string> = {
+      created: 'Document uploaded successfully',
+      skipped: `Already uploaded as ${document.name}; upload skipped`,
+      linked: `Already uploaded as ${document.name}; linked to the existing file`,
+      versioned: `Uploaded as version ${document.version} of an existing file`,
+    };
+
+    return {
+      success: true,
+      data: document,
+      message: messages[outcome]
+    };
+  }
+
+  // Uploads in chunks, resuming a session left over from an earlier attempt (or page load)
+  static async uploadDocumentResumable(file: File, userId?: string, options?: UploadOptions): Promise<APIResponse<UploadResult>> {
+    const storageKey = uploadSessionKey(file, options);
+    let session: UploadSession | undefined;
+
+    try {
+      const savedSessionId = localStorage.getItem(storageKey);
+      if (savedSessionId) {
+        const saved = await this.getUploadSession(savedSessionId);
+        if (saved.success && saved.data && saved.data.status !== 'expired') {
+          session = saved.data;
+        } else {
+          localStorage.removeItem(storageKey);
+        }
+      }
+
+      if (!session) {
+        const created = await this.createUploadSession(file, userId, options);
+        if (!created.success || !created.data) throw new Error(created.error || 'Failed to start upload');
+        session = created.data;
+        localStorage.setItem(storageKey, session.sessionId);
+      }
+
+      let offset = session.offset;
+      let failures = 0;
+      options?.onProgress?.({ loaded: offset, total: file.size });
+      while (offset < file.size && session.status === 'open') {
+        const chunk = file.slice(offset, offset + session.chunkSize);
+        const chunkStart = offset;
+        const sent = await this.uploadChunk(session.sessionId, offset, chunk, {
+          onProgress: loaded => options?.onProgress?.({ loaded: chunkStart + loaded, total: file.size }),
+          signal: options?.signal,
+        });
+        if (sent.success && sent.data) {
+          offset = sent.data.offset;
+          failures = 0;
+          continue;
+        }
+
+        options?.signal?.throwIfAborted();
+        failures++;
+        if (failures >= CHUNK_ATTEMPTS) throw new Error(sent.error || 'Chunk upload failed');
+        await sleep(1000 * 2 ** (failures - 1));
+        options?.signal?.throwIfAborted();
+
+        // The chunk may have arrived even though the response did not; ask where to continue
+        const current = await this.getUploadSession(session.sessionId);
+        if (current.success && current.data) {
+          session = current.data;
+          offset = session.offset;
+        }
+      }
+
+      options?.signal?.throwIfAborted();
+      const result = await this.finalizeUploadSession(session.sessionId, file);
+      if (result.success) localStorage.removeItem(storageKey);
+      return result;
+    } catch (error) {
+      // Cancelling discards the server-side chunks; other failures keep them for a later resume
+      if (options?.signal?.aborted) {
+        if (session) await this.cancelUploadSession(session.sessionId);
+        localStorage.removeItem(storageKey);
+        return { success: false, error: 'Upload cancelled' };
+      }
+      console.error('Resumable upload error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to upload document'
+      };
+    }
+  }
+
+  private static toUploadSession(data: UploadSessionData): UploadSession {
+    return {
+      sessionId: data.session_id,
+      filename: data.filename,
+      size: data.size,
+      offset: data.offset,
+      chunkSize: data.chunk_size,
+      status: data.status,
+      expiresAt: new Date(data.expires_at),
+      errorMessage: data.error_message || undefined
+    };
+  }
+
+  static async createUploadSession(file: File, userId?: string, options?: UploadOptions): Promise<APIResponse<UploadSession>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/upload-sessions`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename: file.name,
+          size: file.size,
+          content_type: file.type || undefined,
+          user_id: userId,
+          ocr_languages: options?.ocrLanguages?.length ? options.ocrLanguages.join(',') : undefined,
+          preprocess: options?.preprocess ? (options.preprocess.length ? options.preprocess.join(',') : 'none') : undefined,
+          on_duplicate: options?.onDuplicate,
+          relative_path: options?.relativePath,
+          version_of: options?.versionOf ? parseInt(options.versionOf) : undefined,
+          folder_id: options?.folderId ? parseInt(options.folderId) : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Upload session failed:', response.status, text);
+        throw new Error(text || `Upload session failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: this.toUploadSession(data)
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to start upload');
+      }
+    } catch (error) {
+      console.error('Upload session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start upload'
+      };
+    }
+  }
+
+  static async getUploadSession(sessionId: string): Promise<APIResponse<UploadSession>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ session_id: sessionId });
+      const url = `${SUPABASE_URL}/functions/v1/upload-sessions?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Upload session fetch failed:', response.status, text);
+        throw new Error(text || `Upload session fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: this.toUploadSession(data)
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch upload session');
+      }
+    } catch (error) {
+      console.error('Upload session fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch upload session'
+      };
+    }
+  }
+
+  static async uploadChunk(
+    sessionId: string,
+    offset: number,
+    chunk: Blob,
+    options?: { onProgress?: (loaded: number) => void; signal?: AbortSignal }
+  ): Promise<APIResponse<{ offset: number }>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ session_id: sessionId });
+      const url = `${SUPABASE_URL}/functions/v1/upload-sessions?${searchParams.toString()}`;
+
+      const response = await sendWithProgress(
+        'PUT',
+        url,
+        {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': offset.toString(),
+        },
+        chunk,
+        options
+      );
+
+      if (!response.ok) {
+        console.error('Chunk upload failed:', response.status, response.text);
+        throw new Error(response.text || `Chunk upload failed: ${response.status}`);
+      }
+
+      const data = JSON.parse(response.text);
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: { offset: data.offset }
+        };
+      } else {
+        throw new Error(data?.error || 'Chunk upload failed');
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { success: false, error: 'Upload cancelled' };
+      }
+      console.error('Chunk upload error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Chunk upload failed'
+      };
+    }
+  }
+
+  static async finalizeUploadSession(sessionId: string, file: File): Promise<APIResponse<UploadResult>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ session_id: sessionId });
+      const url = `${SUPABASE_URL}/functions/v1/upload-sessions?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Upload finalise failed:', response.status, text);
+        throw new Error(text || `Upload finalise failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return this.toUploadResult(data, file);
+      } else {
+        throw new Error(data?.error || 'Failed to finalise upload');
+      }
+    } catch (error) {
+      console.error('Upload finalise error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to finalise upload'
+      };
+    }
+  }
+
+  static async cancelUploadSession(sessionId: string): Promise<APIResponse<void>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ session_id: sessionId });
+      const url = `${SUPABASE_URL}/functions/v1/upload-sessions?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Upload cancel failed:', response.status, text);
+        throw new Error(text || `Upload cancel failed: ${response.status}`);
+      }
+
+      return {
+        success: true,
+        message: 'Upload cancelled'
+      };
+    } catch (error) {
+      console.error('Upload cancel error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel upload'
+      };
+    }
+  }
+
+  static async getFiles(params?: { limit?: number; offset?: number; search?: string } & FileFilters): Promise<APIResponse<{ files: Document[]; pagination: any; search_query?: string }>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams();
+      if (params?.limit) searchParams.set('limit', params.limit.toString());
+      if (params?.offset) searchParams.set('offset', params.offset.toString());  
+      if (params?.search) searchParams.set('search', params.search);
+      if (params?.id) searchParams.set('id', params.id);
+      if (params?.from) searchParams.set('from', params.from);
+      if (params?.sentAfter) searchParams.set('sent_after', params.sentAfter);
+      if (params?.sentBefore) searchParams.set('sent_before', params.sentBefore);
+      params?.metadata?.forEach(condition => searchParams.append('meta', condition));
+      if (params?.allVersions) searchParams.set('all_versions', 'true');
+      if (params?.folderId) searchParams.set('folder', params.folderId);
+
+      const url = `${SUPABASE_URL}/functions/v1/files?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Files fetch failed:', response.status, text);
+        throw new Error(text || `Files fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        const documents: Document[] = data.files.map(toDocument);
+        
+        return {
+          success: true,
+          data: {
+            files: documents,
+            pagination: data.pagination,
+            search_query: data.search_query
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch files');
+      }
+    } catch (error) {
+      console.error('Files fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch files'
+      };
+    }
+  }
+
+  static async getFile(fileId: string): Promise<APIResponse<Document>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('File fetch failed:', response.status, text);
+        throw new Error(text || `File fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: toDocument(data.file)
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch file');
+      }
+    } catch (error) {
+      console.error('File fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch file'
+      };
+    }
+  }
+
+  // Renames the file, moves it to another relative path and/or replaces its tags
+  static async updateFile(fileId: string, changes: FileUpdate): Promise<APIResponse<void>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}`;
+
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename: changes.name,
+          relative_path: changes.relativePath,
+          tags: changes.tags,
+          folder_id: changes.folderId === undefined ? undefined : changes.folderId === null ? null : parseInt(changes.folderId),
+        }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('File update failed:', response.status, text);
+        throw new Error(text || `File update failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          message: 'File updated'
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to update file');
+      }
+    } catch (error) {
+      console.error('File update error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update file'
+      };
+    }
+  }
+
+  // Copies the document into a folder (null: no folder, undefined: the original's folder);
+  // the copy is processed like a new upload. Resolves to the new file's id.
+  static async copyFile(fileId: string, folderId?: string | null): Promise<APIResponse<string>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}/copy`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          folder_id: folderId === undefined ? undefined : folderId === null ? null : parseInt(folderId),
+        }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('File copy failed:', response.status, text);
+        throw new Error(text || `File copy failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: data.file_id.toString(),
+          message: 'File copied'
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to copy file');
+      }
+    } catch (error) {
+      console.error('File copy error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to copy file'
+      };
+    }
+  }
+
+  // Moves the file and its unpacked entries to the trash; see restoreFromTrash and deleteFromTrash
+  static async deleteFile(fileId: string): Promise<APIResponse<void>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}`;
+
+      const response = await fetch(url, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('File delete failed:', response.status, text);
+        throw new Error(text || `File delete failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          message: 'Moved to trash'
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to delete file');
+      }
+    } catch (error) {
+      console.error('File delete error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete file'
+      };
+    }
+  }
+
+  // Every processing run of the file, newest first
+  static async getFileHistory(fileId: string): Promise<APIResponse<ProcessingJob[]>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}/history`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Processing history fetch failed:', response.status, text);
+        throw new Error(text || `Processing history fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        type ErrorRow = { attempt: number; step: string; error: string; created_at: string };
+        const jobs: ProcessingJob[] = data.jobs.map((job: {
+          id: number;
+          status: ProcessingJob['status'];
+          attempts: number;
+          max_attempts: number;
+          failed_step: string | null;
+          last_error: string | null;
+          created_at: string;
+          started_at: string | null;
+          finished_at: string | null;
+          errors: ErrorRow[];
+        }) => ({
+          id: job.id.toString(),
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.max_attempts,
+          failedStep: job.failed_step || undefined,
+          lastError: job.last_error || undefined,
+          createdAt: new Date(job.created_at),
+          startedAt: job.started_at ? new Date(job.started_at) : undefined,
+          finishedAt: job.finished_at ? new Date(job.finished_at) : undefined,
+          errors: (job.errors || []).map((err: ErrorRow) => ({
+            attempt: err.attempt,
+            step: err.step,
+            error: err.error,
+            createdAt: new Date(err.created_at)
+          }))
+        }));
+
+        return {
+          success: true,
+          data: jobs
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch processing history');
+      }
+    } catch (error) {
+      console.error('Processing history fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch processing history'
+      };
+    }
+  }
+
+  // Extracts, indexes and tags the file again from its stored original
+  static async reprocessFile(fileId: string): Promise<APIResponse<{ jobId: string }>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}/reprocess`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Re-process failed:', response.status, text);
+        throw new Error(text || `Re-process failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: { jobId: data.job_id.toString() },
+          message: 'File queued for processing'
+        };
+      } else {
+        throw new Error(data?.error || 'Re-process failed');
+      }
+    } catch (error) {
+      console.error('Re-process error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to re-process file'
+      };
+    }
+  }
+
+  // A signed link to the original upload; it expires quickly, so fetch one per download
+  static async getDownloadUrl(fileId: string): Promise<APIResponse<FileDownload>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/files/${encodeURIComponent(fileId)}/download`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Download link failed:', response.status, text);
+        throw new Error(text || `Download link failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            fileId: data.file_id.toString(),
+            filename: data.filename,
+            url: data.url,
+            expiresIn: data.expires_in
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to create download link');
+      }
+    } catch (error) {
+      console.error('Download link error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create download link'
+      };
+    }
+  }
+
+  static async getSheetPreview(fileId: string, options?: { sheet?: string; rows?: number }): Promise<APIResponse<SheetPreview>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ file_id: fileId });
+      if (options?.sheet) searchParams.set('sheet', options.sheet);
+      if (options?.rows) searchParams.set('rows', options.rows.toString());
+
+      const url = `${SUPABASE_URL}/functions/v1/file-preview?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Sheet preview failed:', response.status, text);
+        throw new Error(text || `Sheet preview failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        const toSheetInfo = (sheet: { name: string; headers: string[]; row_count: number }): SheetInfo => ({
+          name: sheet.name,
+          headers: sheet.headers || [],
+          rowCount: sheet.row_count,
+        });
+
+        return {
+          success: true,
+          data: {
+            fileId: data.file_id.toString(),
+            sheets: (data.sheets || []).map(toSheetInfo),
+            sheet: toSheetInfo(data.sheet),
+            rows: data.rows || [],
+            truncated: !!data.truncated
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch sheet preview');
+      }
+    } catch (error) {
+      console.error('Sheet preview error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch sheet preview'
+      };
+    }
+  }
+
+  static async getDocumentPage(fileId: string, pageNumber: number): Promise<APIResponse<DocumentPage>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ file_id: fileId, page: pageNumber.toString() });
+      const url = `${SUPABASE_URL}/functions/v1/file-pages?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Page fetch failed:', response.status, text);
+        throw new Error(text || `Page fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            fileId: data.file_id.toString(),
+            pageNumber: data.page.page_number,
+            pageCount: data.page_count,
+            text: data.page.text || '',
+            textSource: data.page.text_source
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch page');
+      }
+    } catch (error) {
+      console.error('Page fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch page'
+      };
+    }
+  }
+
+  static async getDocumentGeometry(fileId: string, options?: { page?: number; query?: string }): Promise<APIResponse<DocumentGeometry>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ file_id: fileId });
+      if (options?.page) searchParams.set('page', options.page.toString());
+      if (options?.query) searchParams.set('q', options.query);
+
+      const url = `${SUPABASE_URL}/functions/v1/file-geometry?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Geometry fetch failed:', response.status, text);
+        throw new Error(text || `Geometry fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            fileId: data.file_id.toString(),
+            image: data.image || 'original',
+            quality: data.quality,
+            pages: (data.pages || []).map((page: {
+              page_number: number;
+              width: number | null;
+              height: number | null;
+              confidence: number;
+              word_count: number;
+              low_confidence_words: number;
+              words: OcrWord[];
+              matches?: OcrWord[];
+            }) => ({
+              pageNumber: page.page_number,
+              width: page.width,
+              height: page.height,
+              confidence: page.confidence,
+              wordCount: page.word_count,
+              lowConfidenceWords: page.low_confidence_words,
+              words: page.words || [],
+              matches: page.matches
+            }))
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch OCR geometry');
+      }
+    } catch (error) {
+      console.error('Geometry fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch OCR geometry'
+      };
+    }
+  }
+
+  static async getImageComparison(fileId: string): Promise<APIResponse<ImageComparison>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams({ file_id: fileId });
+      const url = `${SUPABASE_URL}/functions/v1/file-images?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Image fetch failed:', response.status, text);
+        throw new Error(text || `Image fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            fileId: data.file_id.toString(),
+            originalUrl: data.original?.url ?? null,
+            preprocessedUrl: data.preprocessed?.url ?? null,
+            steps: data.preprocessed?.steps ?? null,
+            expiresIn: data.expires_in
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch images');
+      }
+    } catch (error) {
+      console.error('Image fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch images'
+      };
+    }
+  }
+
+  static async getDocuments(): Promise<APIResponse<Document[]>> {
+    try {
+      const result = await this.getFiles();
+      if (result.success) {
+        return {
+          success: true,
+          data: result.data.files
+        };
+      }
+      return {
+        success: false,
+        error: result.error || 'Failed to fetch documents'
+      };
+    } catch (error) {
+      throw new Error('Failed to fetch documents');
+    }
+  }
+
+  static async processDocument(documentId: string): Promise<APIResponse<void>> {
+    try {
+      // Placeholder for document processing
+      return {
+        success: true,
+        message: 'Document processed'
+      };
+    } catch (error) {
+      throw new Error('Failed to process document');
+    }
+  }
+
+  // OCR Processing
+  static async performOCR(documentId: string): Promise<APIResponse<string>> {
+    try {
+      // OCR is handled in the upload function
+      return {
+        success: true,
+        data: 'OCR completed during upload'
+      };
+    } catch (error) {
+      throw new Error('OCR processing failed');
+    }
+  }
+
+  // Analytics
+  static async analyzeDocument(documentId: string, analysisType: string): Promise<APIResponse<AnalysisResult>> {
+    try {
+      // Placeholder for analysis
+      return {
+        success: true,
+        data: {
+          id: '1',
+          documentId,
+          type: analysisType as any,
+          result: {},
+          confidence: 0.95,
+          createdAt: new Date()
+        }
+      };
+    } catch (error) {
+      throw new Error('Document analysis failed');
+    }
+  }
+
+  static async getAnalysisResults(documentId: string): Promise<APIResponse<AnalysisResult[]>> {
+    try {
+      return {
+        success: true,
+        data: []
+      };
+    } catch (error) {
+      throw new Error('Failed to fetch analysis results');
+    }
+  }
+
+  // Search functionality
+  static async searchFiles(query: string): Promise<APIResponse<Document[]>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/search?q=${encodeURIComponent(query)}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Search failed:', response.status, text);
+        throw new Error(text || `Search failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        const documents: Document[] = data.results.map((result: any) => ({
+          id: result.id.toString(),
+          name: result.filename,
+          type: result.file_type as Document['type'],
+          size: result.size,
+          uploadedAt: new Date(result.upload_date),
+          status: result.status || (result.has_content ? 'completed' : 'pending'),
+          errorMessage: result.error_message || undefined,
+          language: result.language || undefined,
+          ocrText: result.content_preview || undefined,
+          matchingPages: result.matching_pages || [],
+        }));
+        
+        return {
+          success: true,
+          data: documents,
+          message: `Found ${data.total_count} results for "${query}"`
+        };
+      } else {
+        throw new Error(data?.error || 'Search failed');
+      }
+    } catch (error) {
+      console.error('Search error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to search files'
+      };
+    }
+  }
+
+  // Re-tags the file from its extracted text (auto-tag-file reads it by file_id)
+  static async autoTagFile(fileId: string): Promise<APIResponse<{ tags: string[], tag_count: number }>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/auto-tag-file`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ file_id: parseInt(fileId) }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Auto-tagging failed:', response.status, text);
+        throw new Error(text || `Auto-tagging failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            tags: data.tags || [],
+            tag_count: data.tag_count || 0
+          },
+          message: data.message || 'File auto-tagged successfully'
+        };
+      } else {
+        throw new Error(data?.error || 'Auto-tagging failed');
+      }
+    } catch (error) {
+      console.error('Auto-tagging error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to auto-tag file'
+      };
+    }
+  }
+
+  // Processing failures
+  static async getDeadLetters(limit?: number): Promise<APIResponse<DeadLetterJob[]>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams();
+      if (limit) searchParams.set('limit', limit.toString());
+
+      const url = `${SUPABASE_URL}/functions/v1/processing-dead-letters?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Dead-letter fetch failed:', response.status, text);
+        throw new Error(text || `Dead-letter fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        type ErrorRow = { attempt: number; step: string; error: string; created_at: string };
+        const jobs: DeadLetterJob[] = data.jobs.map((job: {
+          job_id: number;
+          file_id: number;
+          filename: string | null;
+          file_type: Document['type'] | null;
+          attempts: number;
+          max_attempts: number;
+          failed_step: string | null;
+          last_error: string | null;
+          failed_at: string | null;
+          errors: ErrorRow[];
+        }) => ({
+          jobId: job.job_id.toString(),
+          fileId: job.file_id.toString(),
+          filename: job.filename || `File ${job.file_id}`,
+          type: job.file_type || undefined,
+          attempts: job.attempts,
+          maxAttempts: job.max_attempts,
+          failedStep: job.failed_step || undefined,
+          lastError: job.last_error || undefined,
+          failedAt: job.failed_at ? new Date(job.failed_at) : undefined,
+          errors: (job.errors || []).map((err: ErrorRow) => ({
+            attempt: err.attempt,
+            step: err.step,
+            error: err.error,
+            createdAt: new Date(err.created_at)
+          }))
+        }));
+
+        return {
+          success: true,
+          data: jobs
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch failed jobs');
+      }
+    } catch (error) {
+      console.error('Dead-letter fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch failed jobs'
+      };
+    }
+  }
+
+  static async rerunDeadLetters(jobIds: string[]): Promise<APIResponse<{ requeued: string[]; skipped: string[] }>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/processing-dead-letters`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ job_ids: jobIds.map(id => parseInt(id)) }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Re-run failed:', response.status, text);
+        throw new Error(text || `Re-run failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            requeued: (data.requeued || []).map((job: { job_id: number }) => job.job_id.toString()),
+            skipped: (data.skipped || []).map((id: number) => id.toString())
+          },
+          message: `${(data.requeued || []).length} job(s) queued for processing`
+        };
+      } else {
+        throw new Error(data?.error || 'Re-run failed');
+      }
+    } catch (error) {
+      console.error('Re-run error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to re-run jobs'
+      };
+    }
+  }
+
+  // Dashboard Data
+  static async getUploadLimits(): Promise<APIResponse<UploadLimits>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/config/limits`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Upload limits fetch failed:', response.status, text);
+        throw new Error(text || `Upload limits fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        type TypeRow = { type: Document['type']; label: string; extensions: string[]; mime_types: string[]; max_bytes: number };
+        return {
+          success: true,
+          data: {
+            maxUploadSize: data.max_upload_size,
+            types: data.types.map((type: TypeRow) => ({
+              type: type.type,
+              label: type.label,
+              extensions: type.extensions,
+              mimeTypes: type.mime_types,
+              maxBytes: type.max_bytes
+            })),
+            deniedExtensions: data.denied_extensions || []
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch upload limits');
+      }
+    } catch (error) {
+      console.error('Upload limits fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch upload limits'
+      };
+    }
+  }
+
+  static async getQuarantinedFiles(limit?: number): Promise<APIResponse<QuarantinedFile[]>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams();
+      if (limit) searchParams.set('limit', limit.toString());
+
+      const url = `${SUPABASE_URL}/functions/v1/quarantine?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Quarantine fetch failed:', response.status, text);
+        throw new Error(text || `Quarantine fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        const files: QuarantinedFile[] = data.files.map((file: {
+          id: number;
+          filename: string;
+          file_type: Document['type'];
+          size: number;
+          upload_date: string;
+          malware_signature: string | null;
+          scanner: string | null;
+          quarantined_at: string | null;
+        }) => ({
+          id: file.id.toString(),
+          name: file.filename,
+          type: file.file_type,
+          size: file.size,
+          uploadedAt: new Date(file.upload_date),
+          signature: file.malware_signature || undefined,
+          scanner: file.scanner || undefined,
+          quarantinedAt: file.quarantined_at ? new Date(file.quarantined_at) : undefined
+        }));
+
+        return {
+          success: true,
+          data: files
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch quarantined files');
+      }
+    } catch (error) {
+      console.error('Quarantine fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch quarantined files'
+      };
+    }
+  }
+
+  static async getTrash(limit?: number): Promise<APIResponse<{ files: TrashedFile[]; retentionDays: number }>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const searchParams = new URLSearchParams();
+      if (limit) searchParams.set('limit', limit.toString());
+
+      const url = `${SUPABASE_URL}/functions/v1/trash?${searchParams.toString()}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Trash fetch failed:', response.status, text);
+        throw new Error(text || `Trash fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        const files: TrashedFile[] = data.files.map((file: {
+          id: number;
+          filename: string;
+          file_type: Document['type'];
+          size: number;
+          upload_date: string;
+          relative_path: string | null;
+          deleted_at: string;
+          purge_after: string;
+          entries: number;
+        }) => ({
+          id: file.id.toString(),
+          name: file.filename,
+          type: file.file_type,
+          size: file.size,
+          uploadedAt: new Date(file.upload_date),
+          relativePath: file.relative_path || undefined,
+          deletedAt: new Date(file.deleted_at),
+          purgeAfter: new Date(file.purge_after),
+          entries: file.entries
+        }));
+
+        return {
+          success: true,
+          data: {
+            files,
+            retentionDays: data.retention_days
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch the trash');
+      }
+    } catch (error) {
+      console.error('Trash fetch error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch the trash'
+      };
+    }
+  }
+
+  static async restoreFromTrash(fileId: string): Promise<APIResponse<void>> {
+    return this.trashAction({ action: 'restore', file_id: parseInt(fileId) }, 'File restored');
+  }
+
+  // Deletes the file, its unpacked entries, extracted text, tags and stored bytes for good
+  static async deleteFromTrash(fileId: string): Promise<APIResponse<void>> {
+    return this.trashAction({ action: 'delete', file_id: parseInt(fileId) }, 'File permanently deleted');
+  }
+
+  private static async trashAction(body: Record<string, unknown>, successMessage: string): Promise<APIResponse<void>> {
+    try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/trash`;
 
       const response = await fetch(url, {
         method: 'POST',
         headers: {
           Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
           apikey: SUPABASE_ANON_KEY,
-          // Do not set Content-Type when sending FormData
-        } as any,
-        body: formData,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) {
         const text = await response.text();
-        console.error('Upload failed:', response.status, text);
-        throw new Error(text || `Upload failed: ${response.status}`);
+        console.error('Trash action failed:', response.status, text);
+        throw new Error(text || `Trash action failed: ${response.status}`);
       }
 
       const data = await response.json();
 
-      console.log('Upload response:', data);
-
       if (data && data.success) {
-        const document: Document = {
-          id: data.file_id.toString(),
-          name: file.name,
-          type: data.file_type as 'pdf' | 'image' | 'text',
-          size: data.bytes,
-          uploadedAt: new Date(),
-          status: data.extracted ? 'completed' : 'pending',
-          ocrText: undefined,
-        };
-        
         return {
           success: true,
-          data: document,
-          message: 'Document uploaded successfully'
+          message: successMessage
         };
       } else {
-        throw new Error(data?.error || 'Upload failed');
+        throw new Error(data?.error || 'Trash action failed');
       }
     } catch (error) {
-      console.error('Upload error:', error);
+      console.error('Trash action error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to upload document'
+        error: error instanceof Error ? error.message : 'Failed to update the trash'
       };
     }
   }
 
-  static async getFiles(params?: { limit?: number; offset?: number; search?: string }): Promise<APIResponse<{ files: Document[]; pagination: any; search_query?: string }>> {
+  // Every folder, flat; build the tree from parentId
+  static async getFolders(): Promise<APIResponse<Folder[]>> {
     try {
       if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
         throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
       }
 
-      const searchParams = new URLSearchParams();
-      if (params?.limit) searchParams.set('limit', params.limit.toString());
-      if (params?.offset) searchParams.set('offset', params.offset.toString());  
-      if (params?.search) searchParams.set('search', params.search);
-
-      const url = `${SUPABASE_URL}/functions/v1/files?${searchParams.toString()}`;
+      const url = `${SUPABASE_URL}/functions/v1/folders`;
 
       const response = await fetch(url, {
         method: 'GET',
@@ -86,126 +1792,261 @@ export class AtlasAPI {
 
       if (!response.ok) {
         const text = await response.text();
-        console.error('Files fetch failed:', response.status, text);
-        throw new Error(text || `Files fetch failed: ${response.status}`);
+        console.error('Folders fetch failed:', response.status, text);
+        throw new Error(text || `Folders fetch failed: ${response.status}`);
       }
 
       const data = await response.json();
 
       if (data && data.success) {
-        const documents: Document[] = data.files.map((file: any) => ({
-          id: file.id.toString(),
-          name: file.filename,
-          type: file.file_type as 'pdf' | 'image' | 'text',
-          size: file.size,
-          uploadedAt: new Date(file.upload_date),
-          status: file.has_content ? 'completed' : 'pending',
-          ocrText: file.content_preview || undefined,
-          tags: file.tags || []
-        }));
-        
         return {
           success: true,
-          data: {
-            files: documents,
-            pagination: data.pagination,
-            search_query: data.search_query
-          }
+          data: data.folders.map((folder: { id: number; name: string; parent_id: number | null; created_at: string; file_count: number }): Folder => ({
+            id: folder.id.toString(),
+            name: folder.name,
+            parentId: folder.parent_id ? folder.parent_id.toString() : undefined,
+            createdAt: new Date(folder.created_at),
+            fileCount: folder.file_count
+          }))
         };
       } else {
-        throw new Error(data?.error || 'Failed to fetch files');
+        throw new Error(data?.error || 'Failed to fetch folders');
       }
     } catch (error) {
-      console.error('Files fetch error:', error);
+      console.error('Folders fetch error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch files'
+        error: error instanceof Error ? error.message : 'Failed to fetch folders'
       };
     }
   }
 
-  static async getDocuments(): Promise<APIResponse<Document[]>> {
+  static async createFolder(name: string, parentId?: string): Promise<APIResponse<void>> {
+    return this.folderRequest('POST', '', { name, parent_id: parentId ? parseInt(parentId) : null }, 'Folder created');
+  }
+
+  // Renames the folder and/or moves it, with everything in it; a null parentId makes it top-level
+  static async updateFolder(folderId: string, changes: { name?: string; parentId?: string | null }): Promise<APIResponse<void>> {
+    return this.folderRequest('PATCH', `/${encodeURIComponent(folderId)}`, {
+      name: changes.name,
+      parent_id: changes.parentId === undefined ? undefined : changes.parentId === null ? null : parseInt(changes.parentId),
+    }, 'Folder updated');
+  }
+
+  // Only an empty folder can be deleted
+  static async deleteFolder(folderId: string): Promise<APIResponse<void>> {
+    return this.folderRequest('DELETE', `/${encodeURIComponent(folderId)}`, undefined, 'Folder deleted');
+  }
+
+  private static async folderRequest(method: string, path: string, body: Record<string, unknown> | undefined, successMessage: string): Promise<APIResponse<void>> {
     try {
-      const result = await this.getFiles();
-      if (result.success) {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/folders${path}`;
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Folder request failed:', response.status, text);
+        throw new Error(text || `Folder request failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
         return {
           success: true,
-          data: result.data.files
+          message: successMessage
         };
+      } else {
+        throw new Error(data?.error || 'Folder request failed');
       }
+    } catch (error) {
+      console.error('Folder request error:', error);
       return {
         success: false,
-        error: result.error || 'Failed to fetch documents'
+        error: error instanceof Error ? error.message : 'Failed to update folders'
       };
-    } catch (error) {
-      throw new Error('Failed to fetch documents');
     }
   }
 
-  static async processDocument(documentId: string): Promise<APIResponse<void>> {
+  // Every version of the document the file belongs to, oldest first
+  static async getVersions(fileId: string): Promise<APIResponse<DocumentVersion[]>> {
     try {
-      // Placeholder for document processing
-      return {
-        success: true,
-        message: 'Document processed'
-      };
-    } catch (error) {
-      throw new Error('Failed to process document');
-    }
-  }
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
 
-  // OCR Processing
-  static async performOCR(documentId: string): Promise<APIResponse<string>> {
-    try {
-      // OCR is handled in the upload function
+      const url = `${SUPABASE_URL}/functions/v1/file-versions?file_id=${encodeURIComponent(fileId)}`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Versions fetch failed:', response.status, text);
+        throw new Error(text || `Versions fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: data.versions.map((version: {
+            id: number;
+            version: number | null;
+            filename: string;
+            file_type: Document['type'];
+            size: number;
+            upload_date: string;
+            status: Document['status'];
+            is_current: boolean;
+            content_hash: string | null;
+            has_content: boolean;
+            tags: string[];
+          }): DocumentVersion => ({
+            id: version.id.toString(),
+            version: version.version ?? 1,
+            name: version.filename,
+            type: version.file_type,
+            size: version.size,
+            uploadedAt: new Date(version.upload_date),
+            status: version.status,
+            isCurrent: version.is_current,
+            contentHash: version.content_hash || undefined,
+            hasContent: version.has_content,
+            tags: version.tags
+          }))
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch versions');
+      }
+    } catch (error) {
+      console.error('Versions fetch error:', error);
       return {
-        success: true,
-        data: 'OCR completed during upload'
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch versions'
       };
-    } catch (error) {
-      throw new Error('OCR processing failed');
     }
   }
 
-  // Analytics
-  static async analyzeDocument(documentId: string, analysisType: string): Promise<APIResponse<AnalysisResult>> {
+  static async getVersionText(fileId: string): Promise<APIResponse<VersionText>> {
     try {
-      // Placeholder for analysis
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/file-versions?file_id=${encodeURIComponent(fileId)}&text=true`;
+
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Version text fetch failed:', response.status, text);
+        throw new Error(text || `Version text fetch failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          data: {
+            fileId: data.file_id.toString(),
+            version: data.version ?? 1,
+            text: data.text,
+            truncated: data.truncated
+          }
+        };
+      } else {
+        throw new Error(data?.error || 'Failed to fetch the text');
+      }
+    } catch (error) {
+      console.error('Version text fetch error:', error);
       return {
-        success: true,
-        data: {
-          id: '1',
-          documentId,
-          type: analysisType as any,
-          result: {},
-          confidence: 0.95,
-          createdAt: new Date()
-        }
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch the text'
       };
-    } catch (error) {
-      throw new Error('Document analysis failed');
     }
   }
 
-  static async getAnalysisResults(documentId: string): Promise<APIResponse<AnalysisResult[]>> {
+  // Makes an earlier version the current one again; later versions stay in the history
+  static async restoreVersion(fileId: string): Promise<APIResponse<void>> {
     try {
+      if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+        throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
+      }
+
+      const url = `${SUPABASE_URL}/functions/v1/file-versions`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'restore', file_id: parseInt(fileId) }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error('Version restore failed:', response.status, text);
+        throw new Error(text || `Version restore failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (data && data.success) {
+        return {
+          success: true,
+          message: 'Version restored'
+        };
+      } else {
+        throw new Error(data?.error || 'Version restore failed');
+      }
+    } catch (error) {
+      console.error('Version restore error:', error);
       return {
-        success: true,
-        data: []
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore the version'
       };
-    } catch (error) {
-      throw new Error('Failed to fetch analysis results');
     }
   }
 
-  // Search functionality
-  static async searchFiles(query: string): Promise<APIResponse<Document[]>> {
+  static async getDuplicateClusters(threshold?: number): Promise<APIResponse<DuplicateCluster[]>> {
     try {
       if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
         throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
       }
 
-      const url = `${SUPABASE_URL}/functions/v1/search?q=${encodeURIComponent(query)}`;
+      const searchParams = new URLSearchParams();
+      if (threshold) searchParams.set('threshold', threshold.toString());
+
+      const url = `${SUPABASE_URL}/functions/v1/duplicate-clusters?${searchParams.toString()}`;
 
       const response = await fetch(url, {
         method: 'GET',
@@ -217,48 +2058,74 @@ export class AtlasAPI {
 
       if (!response.ok) {
         const text = await response.text();
-        console.error('Search failed:', response.status, text);
-        throw new Error(text || `Search failed: ${response.status}`);
+        console.error('Duplicate fetch failed:', response.status, text);
+        throw new Error(text || `Duplicate fetch failed: ${response.status}`);
       }
 
       const data = await response.json();
 
       if (data && data.success) {
-        const documents: Document[] = data.results.map((result: any) => ({
-          id: result.id.toString(),
-          name: result.filename,
-          type: result.file_type as 'pdf' | 'image' | 'text',
-          size: result.size,
-          uploadedAt: new Date(result.upload_date),
-          status: result.has_content ? 'completed' : 'pending',
-          ocrText: result.content_preview || undefined,
+        type FileRow = { id: number; filename: string; file_type: Document['type']; size: number; upload_date: string; status: Document['status'] };
+        type PairRow = { file_id_a: number; file_id_b: number; similarity: number };
+        const clusters: DuplicateCluster[] = data.clusters.map((cluster: {
+          cluster_id: number;
+          similarity: number;
+          files: FileRow[];
+          pairs: PairRow[];
+        }) => ({
+          clusterId: cluster.cluster_id.toString(),
+          similarity: cluster.similarity,
+          files: cluster.files.map((file: FileRow) => ({
+            id: file.id.toString(),
+            name: file.filename,
+            type: file.file_type,
+            size: file.size,
+            uploadedAt: new Date(file.upload_date),
+            status: file.status
+          })),
+          pairs: cluster.pairs.map((pair: PairRow) => ({
+            fileIdA: pair.file_id_a.toString(),
+            fileIdB: pair.file_id_b.toString(),
+            similarity: pair.similarity
+          }))
         }));
-        
+
         return {
           success: true,
-          data: documents,
-          message: `Found ${data.total_count} results for "${query}"`
+          data: clusters
         };
       } else {
-        throw new Error(data?.error || 'Search failed');
+        throw new Error(data?.error || 'Failed to fetch duplicates');
       }
     } catch (error) {
-      console.error('Search error:', error);
+      console.error('Duplicate fetch error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to search files'
+        error: error instanceof Error ? error.message : 'Failed to fetch duplicates'
       };
     }
   }
 
-  // Auto-tagging functionality
-  static async autoTagFile(fileId: string): Promise<APIResponse<{ tags: string[], tag_count: number }>> {
+  // Marks the files as not duplicates of each other
+  static async dismissDuplicates(fileIds: string[]): Promise<APIResponse<void>> {
+    return this.resolveDuplicates({ action: 'dismiss', file_ids: fileIds.map(id => parseInt(id)) }, 'Match dismissed');
+  }
+
+  // Folds the other files into keepId: names become aliases, tags are combined, the copies are deleted
+  static async mergeDuplicates(keepId: string, mergeIds: string[]): Promise<APIResponse<void>> {
+    return this.resolveDuplicates(
+      { action: 'merge', keep_id: parseInt(keepId), merge_ids: mergeIds.map(id => parseInt(id)) },
+      `${mergeIds.length} file(s) merged`
+    );
+  }
+
+  private static async resolveDuplicates(body: Record<string, unknown>, successMessage: string): Promise<APIResponse<void>> {
     try {
       if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
         throw new Error('Supabase URL/Anon Key missing. Set them in src/lib/supabase-config.ts');
       }
 
-      const url = `${SUPABASE_URL}/functions/v1/auto-tag-file`;
+      const url = `${SUPABASE_URL}/functions/v1/duplicate-clusters`;
 
       const response = await fetch(url, {
         method: 'POST',
@@ -267,13 +2134,13 @@ export class AtlasAPI {
           apikey: SUPABASE_ANON_KEY,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ file_id: parseInt(fileId) }),
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) {
         const text = await response.text();
-        console.error('Auto-tagging failed:', response.status, text);
-        throw new Error(text || `Auto-tagging failed: ${response.status}`);
+        console.error('Duplicate review failed:', response.status, text);
+        throw new Error(text || `Duplicate review failed: ${response.status}`);
       }
 
       const data = await response.json();
@@ -281,25 +2148,20 @@ export class AtlasAPI {
       if (data && data.success) {
         return {
           success: true,
-          data: {
-            tags: data.tags || [],
-            tag_count: data.tag_count || 0
-          },
-          message: data.message || 'File auto-tagged successfully'
+          message: successMessage
         };
       } else {
-        throw new Error(data?.error || 'Auto-tagging failed');
+        throw new Error(data?.error || 'Duplicate review failed');
       }
     } catch (error) {
-      console.error('Auto-tagging error:', error);
+      console.error('Duplicate review error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to auto-tag file'
+        error: error instanceof Error ? error.message : 'Failed to update duplicates'
       };
     }
   }
 
-  // Dashboard Data
   static async getDashboardData(): Promise<APIResponse<any>> {
     try {
       return {
@@ -3,14 +3,378 @@
 export interface Document {
   id: string;
   name: string;
-  type: 'pdf' | 'image' | 'text' | 'audio' | 'video' | 'other';
+  type: 'pdf' | 'image' | 'text' | 'markdown' | 'html' | 'csv' | 'xlsx' | 'docx' | 'pptx' | 'odt' | 'archive' | 'email' | 'audio' | 'video' | 'other';
   size: number;
   uploadedAt: Date;
   processedAt?: Date;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'quarantined';
+  errorMessage?: string;
   ocrText?: string;
+  // The full extracted text; only GET /files/:id (AtlasAPI.getFile) returns it
+  text?: string;
+  textTruncated?: boolean;
   metadata?: Record<string, any>;
   tags?: string[];
+  sheets?: SheetInfo[];
+  pageCount?: number;
+  ocrPages?: number[];
+  matchingPages?: number[];
+  language?: string;
+  ocrLanguages?: string[];
+  ocrConfidence?: number;
+  preprocessedPath?: string;
+  preprocessing?: PreprocessingSteps;
+  contentHash?: string;
+  version?: number;
+  versionOf?: string;
+  // False for an earlier version of a document (see AtlasAPI.getVersions)
+  isCurrent?: boolean;
+  // Set when the document has more than one version
+  hasVersions?: boolean;
+  // Path inside the folder it was dropped with, e.g. "Invoices/2024/march.pdf"
+  relativePath?: string;
+  // The folder it is filed in (see AtlasAPI.getFolders)
+  folderId?: string;
+  // Other names the same bytes were uploaded under (duplicates linked to this file)
+  aliases?: string[];
+  // Set on files unpacked from an archive or attached to an email
+  parentId?: string;
+  parent?: { id: string; name: string; type: Document['type'] };
+  // Headers of an email (from files.metadata.email)
+  email?: EmailHeaders;
+  // PDF info dictionary and image EXIF (from files.metadata.pdf / .exif)
+  pdfInfo?: PdfInfo;
+  exif?: ExifInfo;
+  // Set on archives, mailboxes and emails: what was unpacked, and the entries themselves
+  archiveSummary?: ArchiveSummary;
+  children?: ArchiveEntry[];
+}
+
+export interface EmailHeaders {
+  subject?: string;
+  from?: string;
+  to: string[];
+  cc: string[];
+  date?: Date;
+  messageId?: string;
+  inReplyTo?: string;
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+  pageCount?: number;
+}
+
+export interface ExifInfo {
+  camera?: string;
+  lens?: string;
+  software?: string;
+  // Camera-local time when the camera recorded no UTC offset
+  capturedAt?: Date;
+  // EXIF orientation 1-8; 1 is upright
+  orientation?: number;
+  width?: number;
+  height?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+// Narrows getFiles; sentAfter and sentBefore are inclusive YYYY-MM-DD dates matched against email headers
+export interface FileFilters {
+  id?: string;
+  from?: string;
+  sentAfter?: string;
+  sentBefore?: string;
+  // Embedded metadata conditions, e.g. "pdf.author:smith" or "exif.captured_at>=2024-01-01"
+  metadata?: string[];
+  // Include earlier versions of documents, not only the current ones
+  allVersions?: boolean;
+  // Documents in this folder; a search also covers its subfolders
+  folderId?: string;
+}
+
+// Changes for AtlasAPI.updateFile; a rename must keep the file's extension
+export interface FileUpdate {
+  name?: string;
+  relativePath?: string | null;
+  // Replaces all of the file's tags
+  tags?: string[];
+  // Moves the document, with its versions and unpacked entries; null takes it out of its folder
+  folderId?: string | null;
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  parentId?: string;
+  createdAt: Date;
+  // Documents directly in the folder, not counting subfolders
+  fileCount: number;
+}
+
+export interface FileDownload {
+  fileId: string;
+  filename: string;
+  url: string;
+  // Seconds until the URL expires
+  expiresIn: number;
+}
+
+export interface ArchiveSummary {
+  format: 'zip' | 'tar' | 'gzip' | 'mbox' | 'email';
+  entries: number;
+  // Entries left out, e.g. executables, unsafe paths or archives nested too deep
+  skipped: { path: string; reason: string }[];
+}
+
+// A file unpacked from an archive, as listed under the archive
+export interface ArchiveEntry {
+  id: string;
+  name: string;
+  type: Document['type'];
+  size: number;
+  status: Document['status'];
+  errorMessage?: string;
+  relativePath?: string;
+}
+
+// How documents-upload handles bytes it has seen before
+export type DuplicateAction = 'skip' | 'link' | 'version';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  ocrLanguages?: string[];
+  preprocess?: PreprocessStep[];
+  onDuplicate?: DuplicateAction;
+  relativePath?: string;
+  // Id of the document this upload is a new version of; onDuplicate does not apply
+  versionOf?: string;
+  // Folder to upload into; the folders of relativePath are created below it
+  folderId?: string;
+  onProgress?: (progress: UploadProgress) => void;
+  // Aborting cancels the upload; a resumable upload's session is discarded too
+  signal?: AbortSignal;
+}
+
+// A resumable upload; offset is how many bytes the server already has
+export interface UploadSession {
+  sessionId: string;
+  filename: string;
+  size: number;
+  offset: number;
+  chunkSize: number;
+  status: 'open' | 'finalizing' | 'completed' | 'expired';
+  expiresAt: Date;
+  errorMessage?: string;
+}
+
+// One accepted file type and its size limit, as published by GET /config/limits
+export interface UploadTypeLimit {
+  type: Document['type'];
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  maxBytes: number;
+}
+
+// The rules documents-upload and upload-sessions enforce; the server also checks file content
+export interface UploadLimits {
+  maxUploadSize: number;
+  types: UploadTypeLimit[];
+  deniedExtensions: string[];
+}
+
+export type UploadOutcome = 'created' | 'skipped' | 'linked' | 'versioned';
+
+// For 'skipped' and 'linked' uploads the document is the existing file
+export interface UploadResult extends Document {
+  outcome: UploadOutcome;
+  duplicateOf?: string;
+}
+
+export type PreprocessStep = 'rotate' | 'deskew' | 'denoise' | 'contrast' | 'binarize';
+
+// What was applied to an image before OCR
+export interface PreprocessingSteps {
+  // Clockwise quarter turns applied, in degrees
+  rotation: number;
+  deskewAngle: number;
+  denoised: boolean;
+  contrastStretched: boolean;
+  binarized: boolean;
+  threshold: number | null;
+}
+
+export interface ImageComparison {
+  fileId: string;
+  originalUrl: string | null;
+  preprocessedUrl: string | null;
+  steps: PreprocessingSteps | null;
+  // Seconds until the URLs expire
+  expiresIn: number;
+}
+
+export interface DocumentPage {
+  fileId: string;
+  pageNumber: number;
+  pageCount: number;
+  text: string;
+  textSource: 'text_layer' | 'ocr';
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  // [x0, y0, x1, y1] in pixels of the OCR'd image
+  bbox: [number, number, number, number];
+}
+
+export interface OcrPageGeometry {
+  pageNumber: number;
+  width: number | null;
+  height: number | null;
+  confidence: number;
+  wordCount: number;
+  lowConfidenceWords: number;
+  words: OcrWord[];
+  matches?: OcrWord[];
+}
+
+export interface DocumentGeometry {
+  fileId: string;
+  // Which image the boxes refer to; preprocessed images may be rotated or downscaled
+  image: 'original' | 'preprocessed';
+  quality: {
+    score: number | null;
+    reliable: boolean | null;
+    threshold: number;
+  };
+  pages: OcrPageGeometry[];
+}
+
+export interface SheetInfo {
+  name: string;
+  headers: string[];
+  rowCount: number;
+}
+
+export interface SheetPreview {
+  fileId: string;
+  sheets: SheetInfo[];
+  sheet: SheetInfo;
+  rows: string[][];
+  truncated: boolean;
+}
+
+export interface ProcessingError {
+  attempt: number;
+  step: string;
+  error: string;
+  createdAt: Date;
+}
+
+// One run of a document through the processing queue, with the errors of its failed attempts
+export interface ProcessingJob {
+  id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'dead_letter';
+  attempts: number;
+  maxAttempts: number;
+  failedStep?: string;
+  lastError?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  errors: ProcessingError[];
+}
+
+export interface DeadLetterJob {
+  jobId: string;
+  fileId: string;
+  filename: string;
+  type?: Document['type'];
+  attempts: number;
+  maxAttempts: number;
+  failedStep?: string;
+  lastError?: string;
+  failedAt?: Date;
+  errors: ProcessingError[];
+}
+
+// A file the malware scan flagged; it stays hidden from files, search and downloads until an admin releases it
+export interface QuarantinedFile {
+  id: string;
+  name: string;
+  type: Document['type'];
+  size: number;
+  uploadedAt: Date;
+  signature?: string;
+  scanner?: string;
+  quarantinedAt?: Date;
+}
+
+// A deleted file waiting in the trash; entries unpacked from it are restored and deleted with it
+export interface TrashedFile {
+  id: string;
+  name: string;
+  type: Document['type'];
+  size: number;
+  uploadedAt: Date;
+  relativePath?: string;
+  deletedAt: Date;
+  // When the scheduled purge removes it for good
+  purgeAfter: Date;
+  entries: number;
+}
+
+// One version of a document, as listed in its version history
+export interface DocumentVersion {
+  id: string;
+  version: number;
+  name: string;
+  type: Document['type'];
+  size: number;
+  uploadedAt: Date;
+  status: Document['status'];
+  isCurrent: boolean;
+  contentHash?: string;
+  hasContent: boolean;
+  tags: string[];
+}
+
+// Extracted text of one version, for viewing or comparing
+export interface VersionText {
+  fileId: string;
+  version: number;
+  text: string | null;
+  // The text was cut short for transfer
+  truncated: boolean;
+}
+
+export interface DuplicateClusterFile {
+  id: string;
+  name: string;
+  type: Document['type'];
+  size: number;
+  uploadedAt: Date;
+  status: Document['status'];
+}
+
+// Near-duplicate documents grouped by text similarity (0-1, estimated from MinHash)
+export interface DuplicateCluster {
+  clusterId: string;
+  similarity: number;
+  files: DuplicateClusterFile[];
+  pairs: { fileIdA: string; fileIdB: string; similarity: number }[];
 }
 
 export interface AnalysisResult {
@@ -0,0 +1,191 @@
+// Used by process-document: reads ZIP, TAR and gzip (including .tar.gz) archives
+// so each entry can become a file of its own. Declared sizes are checked before
+// anything is inflated, and entries are inflated one at a time, so a zip bomb is
+// refused without ever being expanded. Entry paths are normalised; anything that
+// would climb out of the archive ("../"), links and devices are skipped.
+
+import { gunzipSync, unzipSync } from "https://esm.sh/fflate@0.8.2";
+import { extFromName } from "./detect.ts";
+import { parseRelativePath } from "./ingest.ts";
+
+// Entries per archive; the rest are skipped
+export const MAX_ARCHIVE_ENTRIES = 1000;
+// Total uncompressed size of an archive's entries (and of a gzip stream)
+export const MAX_EXPANDED_BYTES = 512 * 1024 * 1024;
+// Uncompressed / compressed; ordinary documents stay far below this
+export const MAX_COMPRESSION_RATIO = 200;
+// Archives inside archives are expanded up to this depth (the upload itself is depth 0)
+export const MAX_ARCHIVE_DEPTH = 2;
+
+export type ArchiveFormat = "zip" | "tar" | "gzip";
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  // Inflates the entry on demand, so only one entry is held in memory at a time
+  read(): Uint8Array;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+// The whole archive is refused: a zip bomb, or not readable at all
+export class ArchiveError extends Error {}
+
+// Folders and OS clutter that zip tools add next to the real files
+const IGNORED_SEGMENTS = new Set(["__MACOSX", ".DS_Store", "Thumbs.db", "desktop.ini"]);
+
+function normaliseEntryPath(raw: string): { path: string | null; reason?: string } {
+  const parsed = parseRelativePath(raw.replace(/^([a-zA-Z]:)?[\\/]+/, ""));
+  if (parsed.error) return { path: null, reason: "Unsafe path" };
+  if (!parsed.path) return { path: null, reason: "Empty name" };
+  if (parsed.path.split("/").some((segment) => IGNORED_SEGMENTS.has(segment) || segment.startsWith("._"))) {
+    return { path: null, reason: "System file" };
+  }
+  return { path: parsed.path };
+}
+
+export function archiveFormat(bytes: Uint8Array, filename: string): ArchiveFormat | null {
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) return "zip";
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return "gzip";
+  if (new TextDecoder().decode(bytes.subarray(257, 262)) === "ustar") return "tar";
+  const ext = extFromName(filename);
+  return ext === "zip" ? "zip" : ext === "tar" ? "tar" : ext === "gz" || ext === "tgz" ? "gzip" : null;
+}
+
+function checkRatio(path: string, compressed: number, uncompressed: number) {
+  if (compressed > 0 && uncompressed / compressed > MAX_COMPRESSION_RATIO) {
+    throw new ArchiveError(`${path} expands ${Math.round(uncompressed / compressed)}x; refusing a likely zip bomb`);
+  }
+}
+
+function openZip(bytes: Uint8Array) {
+  const entries: ArchiveEntry[] = [];
+  const skipped: SkippedEntry[] = [];
+  let expanded = 0;
+
+  // Reads only the central directory: the filter sees each entry's declared sizes and inflates nothing
+  try {
+    unzipSync(bytes, {
+      filter: (info) => {
+        if (info.name.endsWith("/")) return false;
+        const { path, reason } = normaliseEntryPath(info.name);
+        if (!path) {
+          skipped.push({ path: info.name, reason: reason! });
+          return false;
+        }
+        if (entries.length >= MAX_ARCHIVE_ENTRIES) {
+          skipped.push({ path, reason: `More than ${MAX_ARCHIVE_ENTRIES} entries` });
+          return false;
+        }
+        checkRatio(path, info.size, info.originalSize);
+        expanded += info.originalSize;
+        if (expanded > MAX_EXPANDED_BYTES) {
+          throw new ArchiveError(`Archive expands to more than ${MAX_EXPANDED_BYTES} bytes`);
+        }
+        const name = info.name;
+        entries.push({
+          path,
+          size: info.originalSize,
+          // fflate sizes the output buffer from the declared size, so a lying header cannot overflow it
+          read: () => unzipSync(bytes, { filter: (candidate) => candidate.name === name })[name],
+        });
+        return false;
+      },
+    });
+  } catch (e) {
+    if (e instanceof ArchiveError) throw e;
+    throw new ArchiveError(`Unreadable ZIP archive: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return { entries, skipped };
+}
+
+const TAR_BLOCK = 512;
+
+function tarString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+}
+
+function openTar(bytes: Uint8Array) {
+  const entries: ArchiveEntry[] = [];
+  const skipped: SkippedEntry[] = [];
+  let expanded = 0;
+  let longName: string | null = null;
+
+  for (let offset = 0; offset + TAR_BLOCK <= bytes.length;) {
+    const header = bytes.subarray(offset, offset + TAR_BLOCK);
+    // Two zero blocks end the archive
+    if (header.every((b) => b === 0)) break;
+
+    const size = parseInt(tarString(header, 124, 12).trim() || "0", 8);
+    if (isNaN(size) || size < 0) throw new ArchiveError("Unreadable TAR archive: bad entry size");
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = tarString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${tarString(header, 0, 100)}` : tarString(header, 0, 100));
+    const dataStart = offset + TAR_BLOCK;
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+    longName = null;
+
+    if (dataStart + size > bytes.length) throw new ArchiveError("Unreadable TAR archive: truncated entry");
+
+    // GNU long name: the data block holds the name of the next entry
+    if (type === "L") {
+      longName = tarString(bytes, dataStart, size);
+      continue;
+    }
+    // Regular files only; directories, links, devices and pax headers are left out
+    if (type !== "0") {
+      if (type === "1" || type === "2") skipped.push({ path: name, reason: "Link" });
+      continue;
+    }
+
+    const { path, reason } = normaliseEntryPath(name);
+    if (!path) {
+      skipped.push({ path: name, reason: reason! });
+      continue;
+    }
+    if (entries.length >= MAX_ARCHIVE_ENTRIES) {
+      skipped.push({ path, reason: `More than ${MAX_ARCHIVE_ENTRIES} entries` });
+      continue;
+    }
+    expanded += size;
+    if (expanded > MAX_EXPANDED_BYTES) throw new ArchiveError(`Archive expands to more than ${MAX_EXPANDED_BYTES} bytes`);
+    entries.push({ path, size, read: () => bytes.subarray(dataStart, dataStart + size) });
+  }
+  return { entries, skipped };
+}
+
+// gzip holds a single stream: a tarball (.tar.gz / .tgz) or one compressed file (report.pdf.gz)
+function openGzip(bytes: Uint8Array, filename: string) {
+  // The trailer records the uncompressed size (mod 2^32); fflate sizes its output from it
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const declared = bytes.length >= 18 ? view.getUint32(bytes.length - 4, true) : 0;
+  if (declared > MAX_EXPANDED_BYTES) throw new ArchiveError(`Archive expands to more than ${MAX_EXPANDED_BYTES} bytes`);
+  checkRatio(filename, bytes.length, declared);
+
+  let inflated: Uint8Array;
+  try {
+    inflated = gunzipSync(bytes);
+  } catch (e) {
+    throw new ArchiveError(`Unreadable gzip archive: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  if (new TextDecoder().decode(inflated.subarray(257, 262)) === "ustar") return openTar(inflated);
+
+  const innerName = filename.replace(/\.(tgz|gz)$/i, (_m, ext: string) => ext.toLowerCase() === "tgz" ? ".tar" : "");
+  const { path, reason } = normaliseEntryPath(innerName.split("/").pop() || "file");
+  if (!path) return { entries: [], skipped: [{ path: innerName, reason: reason! }] };
+  return { entries: [{ path, size: inflated.length, read: () => inflated }], skipped: [] };
+}
+
+// Lists the entries of an archive; throws ArchiveError when the archive as a whole is refused
+export function openArchive(bytes: Uint8Array, filename: string): { format: ArchiveFormat; entries: ArchiveEntry[]; skipped: SkippedEntry[] } {
+  const format = archiveFormat(bytes, filename);
+  if (!format) throw new ArchiveError("Not a ZIP, TAR or gzip archive");
+  const opened = format === "zip" ? openZip(bytes) : format === "tar" ? openTar(bytes) : openGzip(bytes, filename);
+  return { format, ...opened };
+}
@@ -0,0 +1,119 @@
+// Shared by documents-upload and upload-sessions: exact-duplicate detection by content hash.
+// files.content_hash holds the hex SHA-256 of the uploaded bytes.
+
+import { crypto as stdCrypto } from "https://deno.land/std@0.223.0/crypto/mod.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// What to do when the bytes were uploaded before:
+//   skip    - store nothing and return the existing file
+//   link    - store nothing, record the new name as an alias of the existing file
+//   version - store and process the upload as the next version of the existing file
+export const DUPLICATE_ACTIONS = ["skip", "link", "version"] as const;
+export type DuplicateAction = typeof DUPLICATE_ACTIONS[number];
+
+export const DEFAULT_DUPLICATE_ACTION: DuplicateAction = "skip";
+
+export function parseDuplicateAction(value: string | null | undefined): DuplicateAction | null {
+  const action = (value ?? "").trim().toLowerCase() || DEFAULT_DUPLICATE_ACTION;
+  return (DUPLICATE_ACTIONS as readonly string[]).includes(action) ? action as DuplicateAction : null;
+}
+
+// Accepts the bytes in one piece, or as a stream of chunks so large files never sit in memory
+export async function sha256Hex(bytes: Uint8Array | AsyncIterable<Uint8Array>): Promise<string> {
+  const digest = await stdCrypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export interface ExistingFile {
+  id: number;
+  filename: string;
+  file_type: string;
+  size: number;
+  status: string;
+  storage_path: string;
+  version_of: number | null;
+  folder_id: number | null;
+}
+
+const EXISTING_COLUMNS = "id, filename, file_type, size, status, storage_path, version_of, folder_id";
+
+// The oldest file with the same bytes, or null for new content. Files in the trash
+// or in quarantine do not count: uploading the same bytes again stores them again
+// (and the scan decides about the new copy). Neither do entries unpacked from an
+// archive or email, which cannot take versions. When the bytes match an earlier
+// version of a document, the document's current version is returned instead.
+export async function findDuplicate(admin: SupabaseClient, contentHash: string): Promise<ExistingFile | null> {
+  const { data, error } = await admin
+    .from("files")
+    .select(`${EXISTING_COLUMNS}, is_current`)
+    .eq("content_hash", contentHash)
+    .is("deleted_at", null)
+    .is("parent_id", null)
+    .neq("status", "quarantined")
+    .order("is_current", { ascending: false })
+    .order("id", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Duplicate lookup failed: ${error.message}`);
+  if (!data || data.is_current) return data as ExistingFile | null;
+
+  const root = data.version_of ?? data.id;
+  const { data: current, error: currentError } = await admin
+    .from("files")
+    .select(EXISTING_COLUMNS)
+    .or(`id.eq.${root},version_of.eq.${root}`)
+    .eq("is_current", true)
+    .is("deleted_at", null)
+    .neq("status", "quarantined")
+    .limit(1)
+    .maybeSingle();
+  if (currentError) throw new Error(`Duplicate lookup failed: ${currentError.message}`);
+  return (current ?? data) as ExistingFile;
+}
+
+// Handles a skipped or linked duplicate and returns the upload response body;
+// nothing is stored except, for "link", the alias
+export async function resolveDuplicate(
+  admin: SupabaseClient,
+  existing: ExistingFile,
+  action: Exclude<DuplicateAction, "version">,
+  upload: { filename: string; userId: string | null; contentHash: string },
+) {
+  if (action === "link") {
+    const { error } = await admin
+      .from("file_aliases")
+      .insert({ file_id: existing.id, filename: upload.filename, user_id: upload.userId });
+    if (error) {
+      console.error("file_aliases insert error", error);
+      throw new Error("Failed to link duplicate upload");
+    }
+  }
+
+  console.log(`Duplicate of file ${existing.id} (${action}): ${upload.filename}`);
+  return {
+    success: true,
+    outcome: action === "link" ? "linked" : "skipped",
+    duplicate_of: existing.id,
+    file_id: existing.id,
+    filename: existing.filename,
+    storage_path: existing.storage_path,
+    status: existing.status,
+    content_hash: upload.contentHash,
+    bytes: existing.size,
+    file_type: existing.file_type,
+  };
+}
+
+// Where a new version of `existing` goes: the first file of its chain and the next number
+export async function nextVersion(admin: SupabaseClient, existing: ExistingFile): Promise<{ versionOf: number; version: number }> {
+  const root = existing.version_of ?? existing.id;
+  const { data, error } = await admin
+    .from("files")
+    .select("version")
+    .or(`id.eq.${root},version_of.eq.${root}`)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Version lookup failed: ${error.message}`);
+  return { versionOf: root, version: (data?.version ?? 1) + 1 };
+}
@@ -0,0 +1,214 @@
+// Shared by documents-upload, upload-sessions and process-document: file type
+// detection from MIME type, extension and content, plus the low-level text, CSV
+// and zip helpers the extractors build on. ZIP, TAR and gzip uploads are typed
+// "archive" and expanded into child files (see archive.ts); EML and MBOX files
+// are "email" (see email.ts).
+
+// Office documents (DOCX, PPTX, ODT, XLSX) are zipped XML; fflate reads the archive in-process
+import { unzipSync } from "https://esm.sh/fflate@0.8.2";
+import { looksLikeEmail } from "./email.ts";
+
+// Mirrors public.file_type_enum
+export type FileType =
+  | "pdf"
+  | "image"
+  | "text"
+  | "markdown"
+  | "html"
+  | "csv"
+  | "xlsx"
+  | "docx"
+  | "pptx"
+  | "odt"
+  | "archive"
+  | "email"
+  | "other";
+
+export function extFromName(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+const TEXT_DECODER = new TextDecoder("utf-8", { fatal: false });
+
+export function decodeText(bytes: Uint8Array): string {
+  // Strip a UTF-8 BOM and normalise line endings
+  return TEXT_DECODER.decode(bytes).replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+// Treat content as text when the sample has no NUL bytes and few control characters
+export function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 8192);
+  if (sample.length === 0) return false;
+  let control = 0;
+  for (const b of sample) {
+    if (b === 0) return false;
+    if (b < 9 || (b > 13 && b < 32)) control++;
+  }
+  return control / sample.length < 0.02;
+}
+
+function looksLikeHtml(text: string): boolean {
+  const head = text.slice(0, 2048).trimStart().toLowerCase();
+  return head.startsWith("<!doctype html") || head.startsWith("<html") ||
+    /<(head|body|div|p|table|h[1-6])[\s>]/.test(head);
+}
+
+function looksLikeMarkdown(text: string): boolean {
+  const sample = text.slice(0, 8192);
+  let signals = 0;
+  if (/^#{1,6}\s+\S/m.test(sample)) signals++;
+  if (/^```/m.test(sample)) signals++;
+  if (/\[[^\]]+\]\([^)]+\)/.test(sample)) signals++;
+  if (/^\s*([-*+]|\d+\.)\s+\S/m.test(sample)) signals++;
+  if (/(\*\*|__)[^*_\n]+\1/.test(sample)) signals++;
+  return signals >= 2;
+}
+
+export function detectCsvDelimiter(text: string): string | null {
+  for (const delimiter of [",", ";", "\t"]) {
+    const rows = parseCsv(text, delimiter).slice(0, 20);
+    if (rows.length < 2) return null;
+    const counts = rows.map((r) => r.length);
+    if (counts[0] > 1 && counts.every((c) => c === counts[0])) return delimiter;
+  }
+  return null;
+}
+
+// Identifies Office formats from the archive layout without inflating the entries
+function detectZipType(bytes: Uint8Array): FileType {
+  const names: string[] = [];
+  try {
+    unzipSync(bytes, { filter: (entry) => { names.push(entry.name); return entry.name === "mimetype"; } });
+  } catch (_e) {
+    return "other";
+  }
+  if (names.includes("word/document.xml")) return "docx";
+  if (names.includes("ppt/presentation.xml")) return "pptx";
+  if (names.includes("xl/workbook.xml")) return "xlsx";
+  if (names.includes("content.xml")) {
+    const mimetype = readZipEntries(bytes, ["mimetype"]).mimetype ?? "";
+    if (mimetype.trim() === "application/vnd.oasis.opendocument.text") return "odt";
+  }
+  // Any other zip is an archive to expand
+  return "archive";
+}
+
+const ARCHIVE_MIME_TYPES = ["application/zip", "application/x-zip-compressed", "application/x-tar", "application/gzip", "application/x-gzip"];
+
+export function detectType(file: File, bytes: Uint8Array): FileType {
+  const ext = extFromName(file.name);
+  const t = (file.type || "").toLowerCase();
+  if (t.includes("pdf") || ext === "pdf") return "pdf";
+  if (["png", "jpg", "jpeg", "webp", "bmp", "tiff"].includes(ext) || t.startsWith("image/")) return "image";
+  if (t === "text/html" || t === "application/xhtml+xml" || ["html", "htm", "xhtml"].includes(ext)) return "html";
+  if (t === "text/markdown" || t === "text/x-markdown" || ["md", "markdown"].includes(ext)) return "markdown";
+  if (t === "text/csv" || t === "text/tab-separated-values" || ["csv", "tsv"].includes(ext)) return "csv";
+  if (t === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || ext === "docx") return "docx";
+  if (t === "application/vnd.openxmlformats-officedocument.presentationml.presentation" || ext === "pptx") return "pptx";
+  if (t === "application/vnd.oasis.opendocument.text" || ext === "odt") return "odt";
+  if (t === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" || ext === "xlsx") return "xlsx";
+  if (ext === "txt") return "text";
+  if (ARCHIVE_MIME_TYPES.includes(t) || ["zip", "tar", "gz", "tgz"].includes(ext)) return "archive";
+  if (t === "message/rfc822" || t === "application/mbox" || ["eml", "mbox"].includes(ext)) return "email";
+
+  // Fall back to sniffing the content for generic or missing MIME types
+  const head = TEXT_DECODER.decode(bytes.subarray(0, 5));
+  if (head === "%PDF-") return "pdf";
+  if (head.startsWith("PK\u0003\u0004")) return detectZipType(bytes);
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return "archive";
+  if (TEXT_DECODER.decode(bytes.subarray(257, 262)) === "ustar") return "archive";
+  if (!looksLikeText(bytes)) return "other";
+  const text = decodeText(bytes.subarray(0, 65536));
+  if (looksLikeEmail(text)) return "email";
+  if (looksLikeHtml(text)) return "html";
+  if (detectCsvDelimiter(text)) return "csv";
+  if (looksLikeMarkdown(text)) return "markdown";
+  return "text";
+}
+
+// Pixel size from a PNG or JPEG header; null for other formats or truncated files
+export function imageDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // PNG: signature, then the IHDR chunk carries width and height
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  // JPEG: walk the segments up to the first start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+// Splits a single CSV record honouring double-quoted fields
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let record = "";
+  let quotes = 0;
+  for (const line of text.split("\n")) {
+    record = record ? `${record}\n${line}` : line;
+    quotes += (line.match(/"/g) || []).length;
+    // A record continues onto the next line while a quoted field is still open
+    if (quotes % 2 === 1) continue;
+    if (record.trim().length > 0) rows.push(parseCsvLine(record, delimiter).map((c) => c.trim()));
+    record = "";
+    quotes = 0;
+  }
+  if (record.trim().length > 0) rows.push(parseCsvLine(record, delimiter).map((c) => c.trim()));
+  return rows;
+}
+
+// Inflates only the named entries of a zip archive and decodes them as UTF-8
+export function readZipEntries(bytes: Uint8Array, names: string[]): Record<string, string> {
+  const wanted = new Set(names);
+  const entries = unzipSync(bytes, { filter: (entry) => wanted.has(entry.name) });
+  const result: Record<string, string> = {};
+  for (const [name, data] of Object.entries(entries)) {
+    result[name] = TEXT_DECODER.decode(data);
+  }
+  return result;
+}
+
+export function listZipEntries(bytes: Uint8Array): string[] {
+  const names: string[] = [];
+  unzipSync(bytes, { filter: (entry) => { names.push(entry.name); return false; } });
+  return names;
+}
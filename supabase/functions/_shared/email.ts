@@ -0,0 +1,277 @@
+// Used by process-document and extract.ts: parses RFC 5322 / MIME email (.eml)
+// and splits mailboxes (.mbox) into messages. A message's headers are stored in
+// files.metadata.email, its body is indexed, and each attachment becomes a child
+// file of the email (parent_id) that is processed like any upload.
+
+// Messages kept from one mailbox; the rest are skipped
+export const MAX_MAILBOX_MESSAGES = 1000;
+
+export interface EmailHeaders {
+  subject: string | null;
+  from: string | null;
+  to: string[];
+  cc: string[];
+  // ISO 8601 in UTC, so dates compare as strings; null when missing or unparseable
+  date: string | null;
+  message_id: string | null;
+  in_reply_to: string | null;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface ParsedEmail {
+  headers: EmailHeaders;
+  // Plain-text body; null when the message only has an HTML body
+  text: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+// Mail is 8-bit data in whatever charsets the parts declare, so it is parsed as a
+// "binary string" (one char per byte) and each part is decoded once its charset is known
+function toBinaryString(bytes: Uint8Array): string {
+  let result = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return result;
+}
+
+function fromBinaryString(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch (_e) {
+    // Unknown charset label
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(value: string): Uint8Array {
+  const binary = value
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return fromBinaryString(binary);
+}
+
+function decodeBase64(value: string): Uint8Array {
+  let cleaned = value.replace(/[^A-Za-z0-9+/]/g, "");
+  // Padding is often missing from encoded words; a single leftover character carries no full byte
+  if (cleaned.length % 4 === 1) cleaned = cleaned.slice(0, -1);
+  try {
+    return fromBinaryString(atob(cleaned + "=".repeat((4 - cleaned.length % 4) % 4)));
+  } catch (_e) {
+    return new Uint8Array();
+  }
+}
+
+function decodeBody(body: string, transferEncoding: string): Uint8Array {
+  const encoding = transferEncoding.trim().toLowerCase();
+  if (encoding === "base64") return decodeBase64(body);
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(body);
+  return fromBinaryString(body);
+}
+
+// RFC 2047 encoded words: =?utf-8?B?...?= and =?iso-8859-1?Q?...?=
+function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_m, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === "B"
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+type Headers = Map<string, string[]>;
+
+function splitHeaders(raw: string): { headers: Headers; body: string } {
+  // A part without headers starts with the blank line
+  const match = raw.match(/^\r?\n|\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : "";
+  const headers: Headers = new Map();
+  // Continuation lines start with whitespace
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+  return { headers, body };
+}
+
+const header = (headers: Headers, name: string) => headers.get(name)?.[0] ?? null;
+
+// "text/plain; charset=utf-8; name="a.pdf"" -> value and lower-cased parameters (RFC 2231 name*= included)
+function parseStructured(value: string | null): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = (value ?? "").split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq < 0) continue;
+    let name = param.slice(0, eq).trim().toLowerCase();
+    let paramValue = param.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+    if (name.endsWith("*")) {
+      name = name.slice(0, -1);
+      const extended = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      if (extended) {
+        const binary = extended[2].replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+        paramValue = decodeCharset(fromBinaryString(binary), extended[1]);
+      }
+    }
+    params[name] = decodeWords(paramValue);
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+function addressList(headers: Headers, name: string): string[] {
+  return (headers.get(name) ?? [])
+    .flatMap((value) => decodeWords(value).split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/))
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+function parseDate(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value.replace(/\s*\([^)]*\)\s*$/, ""));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "text/plain": "txt",
+  "text/html": "html",
+  "text/csv": "csv",
+  "message/rfc822": "eml",
+};
+
+// Attachments are stored side by side, so repeated names ("image001.png") get a counter
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf(".");
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = dot > 0 ? `${name.slice(0, dot)} (${n})${name.slice(dot)}` : `${name} (${n})`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+interface Collected {
+  text: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+  names: Set<string>;
+}
+
+function walkPart(raw: string, collected: Collected, depth: number) {
+  const { headers, body } = splitHeaders(raw);
+  const contentType = parseStructured(header(headers, "content-type") ?? "text/plain");
+  const disposition = parseStructured(header(headers, "content-disposition"));
+  const filename = disposition.params.filename || contentType.params.name || null;
+
+  // Multipart nesting beyond this is malformed or hostile
+  if (contentType.value.startsWith("multipart/") && contentType.params.boundary && depth < 20) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const sections = body.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:--)?[ \\t]*\\r?\\n?`));
+    // sections[0] is the preamble; after the closing delimiter comes the epilogue (missing when truncated)
+    const closed = body.includes(`${delimiter}--`);
+    const parts = sections.slice(1, closed ? -1 : undefined).filter((section) => section.trim().length > 0);
+    if (contentType.value === "multipart/alternative") {
+      // Alternatives of the same content; keep the plain one when there is one
+      const plain = parts.find((part) => parseStructured(header(splitHeaders(part).headers, "content-type") ?? "text/plain").value === "text/plain");
+      for (const part of plain ? [plain] : parts) walkPart(part, collected, depth + 1);
+    } else {
+      for (const part of parts) walkPart(part, collected, depth + 1);
+    }
+    return;
+  }
+
+  const content = decodeBody(body, header(headers, "content-transfer-encoding") ?? "7bit");
+  const isAttachment = disposition.value === "attachment" || filename !== null || contentType.value === "message/rfc822";
+  if (!isAttachment && contentType.value === "text/plain") {
+    collected.text.push(decodeCharset(content, contentType.params.charset));
+  } else if (!isAttachment && contentType.value === "text/html") {
+    collected.html.push(decodeCharset(content, contentType.params.charset));
+  } else if (isAttachment && content.length > 0) {
+    const forwardedSubject = contentType.value === "message/rfc822"
+      ? header(splitHeaders(toBinaryString(content)).headers, "subject")
+      : null;
+    const fallback = `${forwardedSubject ? decodeWords(forwardedSubject) : "attachment"}.${MIME_EXTENSIONS[contentType.value] ?? "bin"}`;
+    const name = (filename ?? fallback).split(/[\\/]/).pop()!.trim() || fallback;
+    collected.attachments.push({ filename: uniqueName(name, collected.names), contentType: contentType.value, content });
+  }
+}
+
+export function parseEmail(bytes: Uint8Array): ParsedEmail {
+  const raw = toBinaryString(bytes).replace(/^From [^\n]*\n/, "");
+  const { headers } = splitHeaders(raw);
+  const collected: Collected = { text: [], html: [], attachments: [], names: new Set() };
+  walkPart(raw, collected, 0);
+
+  const subject = header(headers, "subject");
+  const from = header(headers, "from");
+  return {
+    headers: {
+      subject: subject ? decodeWords(subject) : null,
+      from: from ? decodeWords(from) : null,
+      to: addressList(headers, "to"),
+      cc: addressList(headers, "cc"),
+      date: parseDate(header(headers, "date")),
+      message_id: header(headers, "message-id"),
+      in_reply_to: header(headers, "in-reply-to"),
+    },
+    text: collected.text.length > 0 ? collected.text.join("\n\n") : null,
+    html: collected.html.length > 0 ? collected.html.join("\n") : null,
+    attachments: collected.attachments,
+  };
+}
+
+// mbox: messages separated by "From " lines; body lines that start with "From " are escaped as ">From "
+export function splitMailbox(bytes: Uint8Array): Uint8Array[] {
+  const raw = toBinaryString(bytes);
+  if (!raw.startsWith("From ")) return [bytes];
+  return raw
+    .split(/\r?\n(?=From [^\r\n]*\r?\n)/)
+    .map((message) => message.replace(/^From [^\n]*\n/, "").replace(/^>(>*From )/gm, "$1"))
+    .filter((message) => message.trim().length > 0)
+    .map(fromBinaryString);
+}
+
+// One .eml entry per message, named after its subject ("Invoice March.eml")
+export function mailboxEntries(messages: Uint8Array[]): {
+  entries: { path: string; read(): Uint8Array }[];
+  skipped: { path: string; reason: string }[];
+} {
+  const names = new Set<string>();
+  const entries = messages.slice(0, MAX_MAILBOX_MESSAGES).map((message) => {
+    const subject = header(splitHeaders(toBinaryString(message.subarray(0, 65536))).headers, "subject");
+    const title = (subject ? decodeWords(subject) : "").replace(/[\\/\p{Cc}]+/gu, " ").trim().slice(0, 100) || "message";
+    return { path: uniqueName(`${title}.eml`, names), read: () => message };
+  });
+  const skipped = messages.length > MAX_MAILBOX_MESSAGES
+    ? [{ path: `${messages.length - MAX_MAILBOX_MESSAGES} message(s)`, reason: `More than ${MAX_MAILBOX_MESSAGES} messages` }]
+    : [];
+  return { entries, skipped };
+}
+
+// Cheap check used by type detection: starts with a mbox separator or a block of mail headers
+export function looksLikeEmail(text: string): boolean {
+  if (/^From \S+/.test(text) && /^(From|Subject|Date):/m.test(text.slice(0, 4096))) return true;
+  const head = text.slice(0, 4096).split(/\r?\n\r?\n/)[0];
+  const names = new Set((head.match(/^[A-Za-z-]+(?=:)/gm) ?? []).map((name) => name.toLowerCase()));
+  return names.has("from") && (names.has("subject") || names.has("date")) &&
+    (names.has("message-id") || names.has("received") || names.has("mime-version") || names.has("to"));
+}
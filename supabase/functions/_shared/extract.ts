@@ -0,0 +1,664 @@
+// Shared text extraction for process-document: PDFs (pdf.js text layer, with
+// OCR for scanned pages), images (Tesseract), plain text, Markdown, HTML,
+// Office documents (DOCX, PPTX, ODT), spreadsheets (XLSX, CSV) and email.
+// Embedded metadata (the PDF info dictionary, image EXIF, email headers) is
+// returned alongside the text for files.metadata.
+// Extractors throw on failure so process-document can record and retry the job.
+
+// PDF text extraction
+// Using pdfjs-dist ESM build via esm.sh
+// Docs: https://github.com/mozilla/pdf.js/
+// Note: In edge runtime, worker is not used.
+import * as pdfjsLib from "https://esm.sh/pdfjs-dist@4.3.136/legacy/build/pdf.mjs";
+
+// Configure PDF.js for Deno environment
+pdfjsLib.GlobalWorkerOptions.workerSrc = "https://esm.sh/pdfjs-dist@4.3.136/legacy/build/pdf.worker.mjs";
+
+// Canvas for rasterising scanned PDF pages before OCR (CanvasKit/WASM, no native deps)
+import { createCanvas } from "https://deno.land/x/canvas@v1.4.1/mod.ts";
+
+// Image OCR using Tesseract.js via esm.sh
+// This can be heavy; for production consider external OCR providers.
+import Tesseract from "https://esm.sh/tesseract.js@5.0.0";
+
+import {
+  type FileType,
+  decodeText,
+  detectCsvDelimiter,
+  imageDimensions,
+  listZipEntries,
+  parseCsv,
+  readZipEntries,
+} from "./detect.ts";
+import { type EmailHeaders, type ParsedEmail, parseEmail, splitMailbox } from "./email.ts";
+import { detectLanguage, ocrLanguagesForScript } from "./language.ts";
+import { type PdfInfo, pdfInfo, readExif } from "./metadata.ts";
+import { type PreprocessedImage, type PreprocessOptions, preprocessImage, preprocessingEnabled } from "./preprocess.ts";
+
+// Pages with fewer non-whitespace characters than this in their text layer are OCR'd
+const MIN_TEXT_LAYER_CHARS = 20;
+// Render scale for OCR (72 dpi * 2 = 144 dpi); higher is more accurate but slower
+const OCR_RENDER_SCALE = 2;
+
+export type PageTextSource = "text_layer" | "ocr";
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+  source: PageTextSource;
+}
+
+// One recognised word; bbox is [x0, y0, x1, y1] in pixels of the OCR'd image
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: [number, number, number, number];
+}
+
+// Word geometry for an image or an OCR'd PDF page (images are page 1)
+export interface OcrPage {
+  pageNumber: number;
+  // Size of the image the boxes refer to; PDF pages are rendered at OCR_RENDER_SCALE
+  width: number | null;
+  height: number | null;
+  // Mean word confidence, 0-100
+  confidence: number;
+  words: OcrWord[];
+}
+
+interface OcrOutput {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+// pdf.js needs a canvas factory outside the browser for page rendering
+class DenoCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  }
+
+  reset(canvasAndContext: { canvas: { width: number; height: number } }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: { width: number; height: number } | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+function describeError(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// Rasterises a page to PNG so it can go through the same OCR as uploaded images
+async function renderPdfPage(page: pdfjsLib.PDFPageProxy): Promise<{ png: Uint8Array; width: number; height: number }> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+  const factory = new DenoCanvasFactory();
+  const canvasAndContext = factory.create(width, height);
+  try {
+    await page.render({ canvasContext: canvasAndContext.context, viewport }).promise;
+    return { png: canvasAndContext.canvas.toBuffer("image/png"), width, height };
+  } finally {
+    factory.destroy(canvasAndContext);
+  }
+}
+
+async function extractPdfText(bytes: Uint8Array, ocr: OcrLanguages): Promise<{ text: string; pages: PdfPageText[]; ocrPages: OcrPage[]; info: PdfInfo }> {
+  try {
+    const loadingTask = pdfjsLib.getDocument({
+      data: bytes,
+      useSystemFonts: true,
+      isEvalSupported: false,
+      CanvasFactory: DenoCanvasFactory,
+    });
+    const pdf = await loadingTask.promise;
+    const pages: PdfPageText[] = [];
+    const ocrPages: OcrPage[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map((it: any) => (typeof it.str === "string" ? it.str : ""))
+        .join(" ");
+
+      let pageResult: PdfPageText = { pageNumber: i, text: pageText, source: "text_layer" };
+      // Scanned pages have no (or only a stray) text layer; OCR the rendered page instead
+      if (pageText.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS) {
+        try {
+          const rendered = await renderPdfPage(page);
+          const output = await extractImageText(rendered.png, ocr);
+          if (output.text.length > pageText.trim().length) {
+            pageResult = { pageNumber: i, text: output.text, source: "ocr" };
+            ocrPages.push({ pageNumber: i, width: rendered.width, height: rendered.height, confidence: output.confidence, words: output.words });
+          }
+        } catch (e) {
+          throw new Error(`PDF page ${i} OCR failed: ${describeError(e)}`);
+        }
+      }
+      pages.push(pageResult);
+      page.cleanup();
+    }
+    // The info dictionary is optional and often malformed; the text matters more
+    const metadata = await pdf.getMetadata().catch(() => null);
+    const info = pdfInfo(metadata?.info as Record<string, unknown> | undefined, pdf.numPages);
+    return { text: pages.map((p) => p.text).join("\n").trim(), pages, ocrPages, info };
+  } catch (e) {
+    throw new Error(`PDF extraction failed: ${describeError(e)}`);
+  }
+}
+
+// OCR languages requested for a document; when none were given, the first OCR'd
+// image decides them by script detection and later pages reuse that choice
+interface OcrLanguages {
+  languages: string[];
+}
+
+// Orientation and script detection (osd traineddata, legacy engine)
+async function detectOrientationAndScript(blob: Blob): Promise<{ script: string | null; orientation: number | null }> {
+  try {
+    const res = await Tesseract.detect(blob);
+    return { script: res?.data?.script ?? null, orientation: res?.data?.orientation_degrees ?? null };
+  } catch (e) {
+    console.warn("Orientation/script detection failed, assuming upright Latin", e);
+    return { script: null, orientation: null };
+  }
+}
+
+// The parts of Tesseract's recognize() output we read word geometry from
+interface TesseractWord {
+  text?: string;
+  confidence?: number;
+  bbox?: { x0: number; y0: number; x1: number; y1: number };
+}
+
+interface TesseractPage {
+  words?: TesseractWord[];
+  blocks?: { paragraphs?: { lines?: { words?: TesseractWord[] }[] }[] }[] | null;
+}
+
+// Tesseract reports words per block/paragraph/line; flatten them to one list
+function ocrWords(data: TesseractPage | undefined): OcrWord[] {
+  const words = Array.isArray(data?.words)
+    ? data.words
+    : (data?.blocks ?? []).flatMap((b) =>
+      (b.paragraphs ?? []).flatMap((p) => (p.lines ?? []).flatMap((l) => l.words ?? []))
+    );
+  const boxed: OcrWord[] = [];
+  for (const w of words) {
+    if (!w.text?.trim() || !w.bbox) continue;
+    boxed.push({
+      text: w.text.trim(),
+      confidence: Math.round((w.confidence ?? 0) * 10) / 10,
+      bbox: [w.bbox.x0, w.bbox.y0, w.bbox.x1, w.bbox.y1],
+    });
+  }
+  return boxed;
+}
+
+function meanConfidence(words: OcrWord[]): number {
+  if (words.length === 0) return 0;
+  return Math.round((words.reduce((sum, w) => sum + w.confidence, 0) / words.length) * 10) / 10;
+}
+
+// Word-weighted mean confidence over all OCR'd pages, or null when nothing was OCR'd
+export function ocrQualityScore(pages: OcrPage[]): number | null {
+  if (pages.length === 0) return null;
+  const words = pages.flatMap((page) => page.words);
+  return meanConfidence(words);
+}
+
+async function extractImageText(bytes: Uint8Array, ocr: OcrLanguages): Promise<OcrOutput> {
+  try {
+    // Tesseract accepts blobs or URLs; create a Blob from bytes
+    const blob = new Blob([bytes]);
+    if (ocr.languages.length === 0) {
+      ocr.languages = ocrLanguagesForScript((await detectOrientationAndScript(blob)).script);
+    }
+    const res = await Tesseract.recognize(blob, ocr.languages.join("+"), {
+      // Hint: you can supply custom core/worker/lang paths if needed
+      // corePath: "https://cdn.jsdelivr.net/npm/tesseract.js-core@5/dist/tesseract-core.wasm.js",
+      // workerPath: "https://cdn.jsdelivr.net/npm/tesseract.js@5/dist/worker.min.js",
+      // langPath: "https://tessdata.projectnaptha.com/4.0.0"
+    });
+    const words = ocrWords(res?.data as TesseractPage | undefined);
+    return { text: (res?.data?.text || "").trim(), confidence: meanConfidence(words), words };
+  } catch (e) {
+    throw new Error(`Image OCR failed: ${describeError(e)}`);
+  }
+}
+
+function extractPlainText(bytes: Uint8Array): string {
+  return decodeText(bytes).replace(/[ \t]+\n/g, "\n").trim();
+}
+
+function extractMarkdownText(bytes: Uint8Array): string {
+  return decodeText(bytes)
+    .replace(/^```.*$/gm, "")                       // code fence markers (keep the code)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")          // images -> alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")           // links -> link text
+    .replace(/^\s*\[[^\]]+\]:\s+\S+.*$/gm, "")          // reference link definitions
+    .replace(/<[^>]+>/g, "")                         // inline HTML
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")               // headings
+    .replace(/^\s{0,3}>\s?/gm, "")                    // blockquotes
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, "")            // list markers
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "")             // horizontal rules
+    .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, "") // table separator rows
+    .replace(/\|/g, " ")
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/^ | $/gm, "")
+    .replace(/(\*\*|~~|\*|`)(\S|\S[^\n]*?\S)\1/g, "$2")   // emphasis and inline code
+    .replace(/(^|[\s(])(__?)(\S|\S[^\n]*?\S)\2(?=[\s).,;:!?]|$)/gm, "$1$3")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  copy: "\u00A9", reg: "\u00AE", hellip: "\u2026", mdash: "\u2014", ndash: "\u2013",
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function extractHtmlText(bytes: Uint8Array): string {
+  const html = decodeText(bytes)
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|template|svg|iframe)\b[\s\S]*?<\/\1\s*>/gi, " ")
+    .replace(/<head\b[\s\S]*?<\/head\s*>/gi, (head) => {
+      // Keep the document title, drop the rest of <head>
+      const title = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+      return title ? `${title[1]}\n` : " ";
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|header|footer|li|tr|h[1-6]|blockquote|pre|table|ul|ol)\s*>/gi, "\n")
+    .replace(/<\/t[dh]\s*>/gi, " ")
+    .replace(/<[^>]*>/g, "");
+  return decodeHtmlEntities(html)
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// The headers lead the indexed text so subject, sender and recipients are searchable
+// like the body. Attachments are child files and get indexed on their own.
+function extractEmailText(bytes: Uint8Array, parsed?: ParsedEmail): { text: string; headers: EmailHeaders | null } {
+  const messages = parsed ? [parsed] : splitMailbox(bytes).map(parseEmail);
+  const blocks: string[] = [];
+  let headers: EmailHeaders | null = null;
+  for (const [index, email] of messages.entries()) {
+    headers = email.headers;
+    if (messages.length > 1) blocks.push(boundary(`Message ${index + 1}`));
+    if (email.headers.subject) blocks.push(`Subject: ${email.headers.subject}`);
+    if (email.headers.from) blocks.push(`From: ${email.headers.from}`);
+    if (email.headers.to.length > 0) blocks.push(`To: ${email.headers.to.join(", ")}`);
+    if (email.headers.cc.length > 0) blocks.push(`Cc: ${email.headers.cc.join(", ")}`);
+    if (email.headers.date) blocks.push(`Date: ${email.headers.date}`);
+    blocks.push("");
+    const body = email.text ?? (email.html ? extractHtmlText(new TextEncoder().encode(email.html)) : "");
+    blocks.push(body.replace(/\r\n?/g, "\n").replace(/[ \t]+\n/g, "\n").trim());
+    if (email.attachments.length > 0) blocks.push("", `Attachments: ${email.attachments.map((a) => a.filename).join(", ")}`);
+    blocks.push("");
+  }
+  // Headers are only file metadata when the file is a single message
+  return { text: tidyLines(blocks), headers: messages.length === 1 ? headers : null };
+}
+
+// Slide and section boundaries are kept in the indexed text as marker lines
+function boundary(label: string): string {
+  return `--- ${label} ---`;
+}
+
+function xmlAttr(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeHtmlEntities(match[1]) : null;
+}
+
+function tidyLines(lines: string[]): string {
+  return lines
+    .join("\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Text of one WordprocessingML / DrawingML paragraph (<w:t>/<a:t> runs, tabs and breaks)
+function ooxmlParagraphText(xml: string, ns: "w" | "a"): string {
+  const token = new RegExp(`<${ns}:t(?:\\s[^>]*)?>([^<]*)</${ns}:t>|<${ns}:(tab|br|cr)\\b[^>]*/>`, "g");
+  let text = "";
+  for (const m of xml.matchAll(token)) {
+    if (m[1] !== undefined) text += decodeHtmlEntities(m[1]);
+    else text += m[2] === "tab" ? "\t" : "\n";
+  }
+  return text;
+}
+
+function docxBodyText(xml: string): string {
+  const lines: string[] = [];
+  let section = 1;
+  for (const m of xml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+    const body = m[1] ?? "";
+    const style = body.match(/<w:pStyle\s+w:val="([^"]*)"/)?.[1] ?? "";
+    const text = ooxmlParagraphText(body, "w");
+    // Headings start a new block so document structure survives in the index
+    if (/^(Heading|Title)/i.test(style) && text.trim()) lines.push("");
+    lines.push(text);
+    // A paragraph carrying <w:sectPr> closes a section; the body-level sectPr closes the last one
+    if (/<w:pPr\b[\s\S]*<w:sectPr\b/.test(body)) {
+      section++;
+      lines.push("", boundary(`Section ${section}`));
+    }
+  }
+  return tidyLines(lines);
+}
+
+function extractDocxText(bytes: Uint8Array): string {
+  try {
+    const parts = ["word/document.xml", "word/footnotes.xml", "word/endnotes.xml"];
+    const entries = readZipEntries(bytes, parts);
+    if (!entries["word/document.xml"]) return "";
+    const texts = [docxBodyText(entries["word/document.xml"])];
+    for (const [part, label] of [["word/footnotes.xml", "Footnotes"], ["word/endnotes.xml", "Endnotes"]]) {
+      const notes = entries[part] ? docxBodyText(entries[part]) : "";
+      if (notes) texts.push("", boundary(label), notes);
+    }
+    return tidyLines(texts);
+  } catch (e) {
+    throw new Error(`DOCX extraction failed: ${describeError(e)}`);
+  }
+}
+
+function drawingMlText(xml: string): string {
+  const lines: string[] = [];
+  for (const m of xml.matchAll(/<a:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/a:p>)/g)) {
+    lines.push(ooxmlParagraphText(m[1] ?? "", "a"));
+  }
+  return tidyLines(lines);
+}
+
+// Notes slides also carry slide-image and slide-number placeholders; keep only the body text
+function speakerNotesText(xml: string): string {
+  return Array.from(xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g))
+    .filter((m) => /<p:ph\b[^>]*type="body"/.test(m[0]))
+    .map((m) => drawingMlText(m[0]))
+    .join("\n")
+    .trim();
+}
+
+// Maps relationship ids to targets resolved against the part's directory
+function readRelationships(xml: string | undefined, baseDir: string): Map<string, { type: string; target: string }> {
+  const rels = new Map<string, { type: string; target: string }>();
+  if (!xml) return rels;
+  for (const m of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttr(m[0], "Id");
+    const target = xmlAttr(m[0], "Target");
+    if (!id || !target) continue;
+    // Targets are relative to the part's directory unless they start at the package root
+    const parts = (target.startsWith("/") ? target : `${baseDir}/${target}`).split("/");
+    const resolved: string[] = [];
+    for (const part of parts) {
+      if (part === "..") resolved.pop();
+      else if (part && part !== ".") resolved.push(part);
+    }
+    rels.set(id, { type: xmlAttr(m[0], "Type") ?? "", target: resolved.join("/") });
+  }
+  return rels;
+}
+
+function extractPptxText(bytes: Uint8Array): string {
+  try {
+    const names = listZipEntries(bytes);
+    const meta = readZipEntries(bytes, ["ppt/presentation.xml", "ppt/_rels/presentation.xml.rels"]);
+    const presentationRels = readRelationships(meta["ppt/_rels/presentation.xml.rels"], "ppt");
+
+    // Slide order comes from sldIdLst; fall back to the numeric file order
+    let slidePaths = Array.from((meta["ppt/presentation.xml"] ?? "").matchAll(/<p:sldId\b[^>]*>/g))
+      .map((m) => presentationRels.get(xmlAttr(m[0], "r:id") ?? "")?.target)
+      .filter((p): p is string => !!p && names.includes(p));
+    if (slidePaths.length === 0) {
+      slidePaths = names
+        .filter((n) => /^ppt\/slides\/slide\d+\.xml$/.test(n))
+        .sort((a, b) => parseInt(a.replace(/\D/g, "")) - parseInt(b.replace(/\D/g, "")));
+    }
+
+    const relPaths = slidePaths.map((p) => p.replace(/([^/]+)$/, "_rels/$1.rels"));
+    const slideParts = readZipEntries(bytes, [...slidePaths, ...relPaths]);
+    const notesPaths = new Map<string, string>();
+    slidePaths.forEach((p, i) => {
+      const rels = readRelationships(slideParts[relPaths[i]], "ppt/slides");
+      for (const rel of rels.values()) {
+        if (rel.type.endsWith("/notesSlide")) notesPaths.set(p, rel.target);
+      }
+    });
+    const notesParts = readZipEntries(bytes, Array.from(notesPaths.values()));
+
+    const blocks: string[] = [];
+    slidePaths.forEach((p, i) => {
+      blocks.push(boundary(`Slide ${i + 1}`));
+      const text = drawingMlText(slideParts[p] ?? "");
+      if (text) blocks.push(text);
+      const notesPath = notesPaths.get(p);
+      const notes = notesPath ? speakerNotesText(notesParts[notesPath] ?? "") : "";
+      if (notes) blocks.push(`Notes: ${notes}`);
+      blocks.push("");
+    });
+    return tidyLines(blocks);
+  } catch (e) {
+    throw new Error(`PPTX extraction failed: ${describeError(e)}`);
+  }
+}
+
+function extractOdtText(bytes: Uint8Array): string {
+  try {
+    const xml = readZipEntries(bytes, ["content.xml"])["content.xml"];
+    if (!xml) return "";
+    const body = xml.match(/<office:body\b[\s\S]*<\/office:body>/)?.[0] ?? xml;
+    const text = body
+      .replace(/<text:s\b([^>]*)\/>/g, (_m, attrs: string) => " ".repeat(parseInt(xmlAttr(attrs, "text:c") ?? "1") || 1))
+      .replace(/<text:tab\b[^>]*\/>/g, "\t")
+      .replace(/<text:line-break\b[^>]*\/>/g, "\n")
+      .replace(/<text:section\b[^>]*>/g, (tag) => `\n\n${boundary(`Section ${xmlAttr(tag, "text:name") ?? ""}`.trim())}\n`)
+      .replace(/<text:h\b[^>]*>/g, "\n\n")
+      .replace(/<\/text:(p|h)>|<text:p\b[^>]*\/>/g, "\n")
+      .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, "")
+      .replace(/<[^>]+>/g, "");
+    return tidyLines([decodeHtmlEntities(text)]);
+  } catch (e) {
+    throw new Error(`ODT extraction failed: ${describeError(e)}`);
+  }
+}
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// The first non-empty row becomes the header; the rest are data rows
+function toSheet(name: string, rows: string[][]): SheetData {
+  const nonEmpty = rows.filter((r) => r.some((c) => c.length > 0));
+  const [headers = [], ...data] = nonEmpty;
+  return { name, headers, rows: data };
+}
+
+function readCsvSheets(bytes: Uint8Array, filename: string): SheetData[] {
+  const text = decodeText(bytes);
+  const delimiter = detectCsvDelimiter(text) ?? ",";
+  const name = filename.replace(/\.[^/.]+$/, "") || "Sheet1";
+  return [toSheet(name, parseCsv(text, delimiter))];
+}
+
+// "BC12" -> 54 (zero-based column index)
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function xlsxCellText(xml: string): string {
+  // Phonetic runs (<rPh>) duplicate the base text for East Asian workbooks
+  return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g))
+    .map((m) => decodeHtmlEntities(m[1]))
+    .join("");
+}
+
+function xlsxSheetRows(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = xmlAttr(attrs, "r");
+      const type = xmlAttr(attrs, "t");
+      const raw = body.match(/<v>([^<]*)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s") value = sharedStrings[parseInt(raw ?? "")] ?? "";
+      else if (type === "inlineStr") value = xlsxCellText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? "");
+      else if (type === "b") value = raw === "1" ? "TRUE" : raw === "0" ? "FALSE" : "";
+      else if (raw !== undefined) value = decodeHtmlEntities(raw);
+      const col = ref ? columnIndex(ref) : row.length;
+      while (row.length < col) row.push("");
+      row[col] = value.trim();
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+function readXlsxSheets(bytes: Uint8Array): SheetData[] {
+  try {
+    const meta = readZipEntries(bytes, ["xl/workbook.xml", "xl/_rels/workbook.xml.rels", "xl/sharedStrings.xml"]);
+    const rels = readRelationships(meta["xl/_rels/workbook.xml.rels"], "xl");
+    const sharedStrings = Array.from((meta["xl/sharedStrings.xml"] ?? "").matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g))
+      .map((m) => xlsxCellText(m[1]));
+    const sheetRefs = Array.from((meta["xl/workbook.xml"] ?? "").matchAll(/<sheet\b[^>]*>/g))
+      .map((m) => ({ name: xmlAttr(m[0], "name") ?? "", path: rels.get(xmlAttr(m[0], "r:id") ?? "")?.target }))
+      .filter((ref): ref is { name: string; path: string } => !!ref.path);
+    const parts = readZipEntries(bytes, sheetRefs.map((ref) => ref.path));
+    return sheetRefs.map((ref, i) => toSheet(ref.name || `Sheet${i + 1}`, xlsxSheetRows(parts[ref.path] ?? "", sharedStrings)));
+  } catch (e) {
+    throw new Error(`XLSX extraction failed: ${describeError(e)}`);
+  }
+}
+
+// Every cell is indexed; workbooks with several sheets get a boundary line per sheet
+function sheetsToText(sheets: SheetData[]): string {
+  const blocks: string[] = [];
+  for (const sheet of sheets) {
+    if (sheets.length > 1) blocks.push(boundary(`Sheet ${sheet.name}`));
+    for (const row of [sheet.headers, ...sheet.rows]) {
+      const line = row.filter((c) => c.length > 0).join(" ");
+      if (line) blocks.push(line);
+    }
+    blocks.push("");
+  }
+  return tidyLines(blocks);
+}
+
+export interface ExtractionResult {
+  text: string;
+  sheets: SheetData[];
+  pages: PdfPageText[];
+  // ISO 639-1 code detected from the extracted text, null when undetermined
+  language: string | null;
+  // Tesseract languages the OCR ran with; empty when nothing was OCR'd
+  ocrLanguages: string[];
+  // Word boxes and confidence for every OCR'd image or page
+  ocrPages: OcrPage[];
+  // Cleaned-up image the OCR actually ran on (images only), null when preprocessing was off
+  preprocessed: PreprocessedImage | null;
+  // Stored in files.metadata: { email }, { pdf } or { exif } (see email.ts and metadata.ts); null when there is none
+  metadata: Record<string, unknown> | null;
+}
+
+export interface ExtractionOptions {
+  // Tesseract codes ("eng", "deu", ...); empty or missing means auto-detect
+  ocrLanguages?: string[];
+  // Preprocessing applied to image uploads before OCR; missing means none
+  preprocess?: PreprocessOptions;
+  // A single email the caller has already parsed (process-document does, for its attachments)
+  email?: ParsedEmail;
+}
+
+export async function extractDocument(bytes: Uint8Array, fileType: FileType, filename: string, options: ExtractionOptions = {}): Promise<ExtractionResult> {
+  const result: ExtractionResult = { text: "", sheets: [], pages: [], language: null, ocrLanguages: [], ocrPages: [], preprocessed: null, metadata: null };
+  const ocr: OcrLanguages = { languages: [...(options.ocrLanguages ?? [])] };
+  if (fileType === "pdf") {
+    const pdf = await extractPdfText(bytes, ocr);
+    ({ text: result.text, pages: result.pages, ocrPages: result.ocrPages } = pdf);
+    result.metadata = { pdf: pdf.info };
+    if (result.ocrPages.length > 0) result.ocrLanguages = ocr.languages;
+  } else if (fileType === "image") {
+    // EXIF comes from the upload as is; the preprocessed copy has none
+    const exif = readExif(bytes);
+    if (exif) result.metadata = { exif };
+    if (options.preprocess && preprocessingEnabled(options.preprocess)) {
+      try {
+        result.preprocessed = await preprocessImage(bytes, options.preprocess, async (png) => {
+          const detected = await detectOrientationAndScript(new Blob([png]));
+          // Reuse the script result so OCR does not detect it a second time
+          if (ocr.languages.length === 0) ocr.languages = ocrLanguagesForScript(detected.script);
+          // Tesseract reports how far the text is rotated; turning it back the rest of the way uprights it
+          return detected.orientation ? (360 - detected.orientation) % 360 : null;
+        });
+      } catch (e) {
+        // Formats the canvas cannot decode still go to Tesseract as uploaded
+        console.warn(`Image preprocessing skipped: ${describeError(e)}`);
+      }
+    }
+    const ocrInput = result.preprocessed?.png ?? bytes;
+    const output = await extractImageText(ocrInput, ocr);
+    const size = result.preprocessed
+      ? { width: result.preprocessed.width, height: result.preprocessed.height }
+      : imageDimensions(bytes);
+    result.text = output.text;
+    result.ocrLanguages = ocr.languages;
+    result.ocrPages = [{
+      pageNumber: 1,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      confidence: output.confidence,
+      words: output.words,
+    }];
+  } else if (fileType === "text") {
+    result.text = extractPlainText(bytes);
+  } else if (fileType === "markdown") {
+    result.text = extractMarkdownText(bytes);
+  } else if (fileType === "html") {
+    result.text = extractHtmlText(bytes);
+  } else if (fileType === "csv" || fileType === "xlsx") {
+    result.sheets = fileType === "csv" ? readCsvSheets(bytes, filename) : readXlsxSheets(bytes);
+    result.text = sheetsToText(result.sheets);
+  } else if (fileType === "docx") {
+    result.text = extractDocxText(bytes);
+  } else if (fileType === "pptx") {
+    result.text = extractPptxText(bytes);
+  } else if (fileType === "odt") {
+    result.text = extractOdtText(bytes);
+  } else if (fileType === "email") {
+    const email = extractEmailText(bytes, options.email);
+    result.text = email.text;
+    if (email.headers) result.metadata = { email: email.headers };
+  }
+  result.language = detectLanguage(result.text);
+  return result;
+}
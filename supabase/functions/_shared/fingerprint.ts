@@ -0,0 +1,82 @@
+// Shared by process-document and duplicate-clusters: MinHash fingerprints of a
+// document's indexed text for near-duplicate detection. Two signatures agree in
+// roughly the same share of positions as the documents' shingle sets overlap
+// (Jaccard similarity), so re-scans and re-exports with small differences score high.
+
+// Signature length; the similarity estimate's error is about 1/sqrt(MINHASH_SIZE)
+export const MINHASH_SIZE = 128;
+// Locality-sensitive hashing: documents sharing any band become candidate pairs
+export const LSH_BANDS = 32;
+const ROWS_PER_BAND = MINHASH_SIZE / LSH_BANDS;
+// Words per shingle
+const SHINGLE_SIZE = 3;
+// Below this many words a fingerprint matches too much to be useful
+export const MIN_FINGERPRINT_WORDS = 20;
+
+export interface Fingerprint {
+  minhash: number[];
+  shingleCount: number;
+}
+
+// FNV-1a over UTF-16 code units
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer; xor-ing in a per-position seed gives MINHASH_SIZE independent hash functions
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(i + 1, 0x9e3779b9));
+
+// Returns null for text too short to fingerprint reliably
+export function computeFingerprint(text: string): Fingerprint | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length < MIN_FINGERPRINT_WORDS) return null;
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+
+  const minhash = SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const shingle of shingles) {
+      const h = mix(shingle, seed);
+      if (h < min) min = h;
+    }
+    // Stored as Postgres integer, so fold into the signed 32-bit range
+    return min | 0;
+  });
+
+  return { minhash, shingleCount: shingles.size };
+}
+
+// Estimated Jaccard similarity of the two documents, 0-1
+export function estimateSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / length;
+}
+
+// Bucket keys for candidate lookup; near-duplicates very likely share at least one
+export function lshBands(minhash: number[]): string[] {
+  const bands: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    bands.push(`${band}:${minhash.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(",")}`);
+  }
+  return bands;
+}
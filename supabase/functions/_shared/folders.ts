@@ -0,0 +1,88 @@
+// Shared by folders, files, documents-upload and upload-sessions: documents are
+// filed into nested folders (folders.parent_id, files.folder_id). A folder dropped
+// with an upload (relative_path) is recreated under the folder it was dropped into.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const MAX_FOLDER_NAME_LENGTH = 255;
+
+export interface Folder {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+export function parseFolderName(value: unknown): { name: string | null; error?: string } {
+  if (typeof value !== "string" || !value.trim()) return { name: null, error: "name must be a non-empty string" };
+  const name = value.trim();
+  if (name.includes("/") || name.includes("\\")) return { name: null, error: "name must not contain slashes" };
+  if (name === "." || name === "..") return { name: null, error: `"${name}" is not a folder name` };
+  if (/\p{Cc}/u.test(name)) return { name: null, error: "name must not contain control characters" };
+  if (name.length > MAX_FOLDER_NAME_LENGTH) return { name: null, error: `name is longer than ${MAX_FOLDER_NAME_LENGTH} characters` };
+  return { name };
+}
+
+export async function findFolder(admin: SupabaseClient, folderId: number): Promise<Folder | null> {
+  const { data, error } = await admin
+    .from("folders")
+    .select("id, name, parent_id")
+    .eq("id", folderId)
+    .maybeSingle();
+  if (error) throw new Error(`Folder lookup failed: ${error.message}`);
+  return data as Folder | null;
+}
+
+// The sibling with this name (case-insensitive), or null
+export async function findSibling(admin: SupabaseClient, parentId: number | null, name: string): Promise<Folder | null> {
+  let query = admin
+    .from("folders")
+    .select("id, name, parent_id")
+    .ilike("name", name.replace(/[%_\\]/g, "\\$&"));
+  query = parentId === null ? query.is("parent_id", null) : query.eq("parent_id", parentId);
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) throw new Error(`Folder lookup failed: ${error.message}`);
+  return data as Folder | null;
+}
+
+// Finds or creates the folder; a folder upload creates the same folders from several
+// requests at once, so losing the race to the unique index just means it exists now
+export async function ensureFolder(admin: SupabaseClient, parentId: number | null, name: string): Promise<number> {
+  const existing = await findSibling(admin, parentId, name);
+  if (existing) return existing.id;
+
+  const { data, error } = await admin
+    .from("folders")
+    .insert({ name, parent_id: parentId })
+    .select("id")
+    .single();
+  if (!error) return data.id as number;
+  if (error.code === "23505") {
+    const created = await findSibling(admin, parentId, name);
+    if (created) return created.id;
+  }
+  throw new Error(`Folder create failed: ${error.message}`);
+}
+
+// The folder a file lands in: folderId, or the folders of its relative_path below it
+// ("Invoices/2024/march.pdf" goes into Invoices/2024, created if needed)
+export async function folderForPath(admin: SupabaseClient, folderId: number | null, relativePath: string | null): Promise<number | null> {
+  let current = folderId;
+  for (const name of (relativePath ?? "").split("/").slice(0, -1)) {
+    const parsed = parseFolderName(name);
+    if (!parsed.name) continue;
+    current = await ensureFolder(admin, current, parsed.name);
+  }
+  return current;
+}
+
+// The folder and every folder below it, at any depth
+export async function folderWithDescendants(admin: SupabaseClient, folderId: number): Promise<number[]> {
+  const all = [folderId];
+  for (let parents = [folderId]; parents.length > 0;) {
+    const { data, error } = await admin.from("folders").select("id").in("parent_id", parents);
+    if (error) throw new Error(`Folder lookup failed: ${error.message}`);
+    parents = (data || []).map((row) => row.id as number).filter((id) => !all.includes(id));
+    all.push(...parents);
+  }
+  return all;
+}
@@ -0,0 +1,129 @@
+// Shared by documents-upload, upload-sessions and process-document: the storage
+// key for a new upload, its folder-relative path, and the files row +
+// processing_jobs row that hand it to process-document. process-document uses
+// the same path for the entries it unpacks from an archive. A new version of a
+// document becomes its current version (see versions.ts).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extFromName, type FileType } from "./detect.ts";
+import type { PreprocessOptions } from "./preprocess.ts";
+import { startProcessing } from "./queue.ts";
+import { makeCurrent } from "./versions.ts";
+
+export interface NewFile {
+  userId: string | null;
+  filename: string;
+  fileType: FileType;
+  size: number;
+  storagePath: string;
+  ocrLanguages: string[];
+  preprocess: PreprocessOptions;
+  contentHash: string;
+  version: { versionOf: number; version: number } | null;
+  relativePath: string | null;
+  folderId: number | null;
+  // Set for a file unpacked from an archive: the archive's id and how deeply it is nested
+  parent: { id: number; depth: number } | null;
+}
+
+const MAX_RELATIVE_PATH_LENGTH = 1024;
+
+// Normalises the path a file had inside a dropped folder ("Invoices/2024/a.pdf").
+// Backslashes become slashes and empty or "." segments are dropped; ".." and
+// control characters are refused so a path can never point outside its folder.
+export function parseRelativePath(value: string | null | undefined): { path: string | null; error?: string } {
+  if (!value || !value.trim()) return { path: null };
+  const segments = value.replace(/\\/g, "/").split("/").map((segment) => segment.trim()).filter((segment) => segment && segment !== ".");
+  if (segments.some((segment) => segment === "..")) return { path: null, error: "relative_path must not contain '..'" };
+  if (segments.some((segment) => /\p{Cc}/u.test(segment))) return { path: null, error: "relative_path must not contain control characters" };
+  const path = segments.join("/");
+  if (path.length > MAX_RELATIVE_PATH_LENGTH) return { path: null, error: `relative_path is longer than ${MAX_RELATIVE_PATH_LENGTH} characters` };
+  return { path: path || null };
+}
+
+// Storage path: userId/yyyy-mm/<uuid>__<name>.<ext>
+export function storageKey(userId: string | null, filename: string, fileType: FileType): string {
+  const now = new Date();
+  const y = now.getUTCFullYear();
+  const m = String(now.getUTCMonth() + 1).padStart(2, "0");
+  const ext = extFromName(filename) || (fileType === "pdf" ? "pdf" : "bin");
+  const uuid = crypto.randomUUID();
+  const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, "_");
+  return `${userId ?? "anon"}/${y}-${m}/${uuid}__${safeName}.${ext}`;
+}
+
+export async function ensureDocumentsBucket(admin: SupabaseClient) {
+  try {
+    await admin.storage.createBucket("documents", { public: false });
+  } catch (_e) {
+    // Ignore if already exists (409)
+  }
+}
+
+// Inserts the files row as 'pending', queues its job and starts the worker; with
+// start: false the job waits for a worker that is already draining the queue.
+// Errors carry a message that can be returned to the client as is.
+export async function createFileAndQueue(
+  admin: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  file: NewFile,
+  { start = true }: { start?: boolean } = {},
+): Promise<{ fileId: number; jobId: number }> {
+  const { data: insertedFiles, error: insertFileErr } = await admin
+    .from("files")
+    .insert({
+      user_id: file.userId,
+      filename: file.filename,
+      file_type: file.fileType,
+      size: file.size,
+      storage_path: file.storagePath,
+      status: "pending",
+      ocr_languages: file.ocrLanguages.length > 0 ? file.ocrLanguages : null,
+      preprocess_options: file.fileType === "image" ? file.preprocess : null,
+      content_hash: file.contentHash,
+      version_of: file.version?.versionOf ?? null,
+      version: file.version?.version ?? 1,
+      relative_path: file.relativePath,
+      folder_id: file.folderId,
+      parent_id: file.parent?.id ?? null,
+      archive_depth: file.parent?.depth ?? 0,
+    })
+    .select("id")
+    .limit(1);
+
+  if (insertFileErr || !insertedFiles || insertedFiles.length === 0) {
+    console.error("DB insert error", insertFileErr);
+    throw new Error("Failed to insert file metadata");
+  }
+
+  const fileId = insertedFiles[0].id as number;
+
+  if (file.version) {
+    try {
+      await makeCurrent(admin, file.version.versionOf, fileId);
+    } catch (e) {
+      // The upload is kept; the version can still be made current from its history
+      console.error(`Marking file ${fileId} as the current version failed`, e);
+    }
+  }
+
+  // Queue extraction and tagging; the upload itself returns straight away
+  const { data: job, error: jobErr } = await admin
+    .from("processing_jobs")
+    .insert({ file_id: fileId })
+    .select("id")
+    .single();
+
+  if (jobErr || !job) {
+    console.error("processing_jobs insert error", jobErr);
+    await admin
+      .from("files")
+      .update({ status: "error", error_message: "Failed to queue document for processing" })
+      .eq("id", fileId);
+    throw new Error("Failed to queue document for processing");
+  }
+
+  if (start) startProcessing(supabaseUrl, serviceRoleKey, job.id);
+  return { fileId, jobId: job.id };
+}
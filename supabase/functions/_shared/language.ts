@@ -0,0 +1,102 @@
+// Shared by documents-upload, process-document and auto-tag-file: the OCR
+// languages we accept, and script / language detection for extracted text.
+// Language codes are ISO 639-1 ("en", "de", ...), which is what files.language
+// stores; public.text_search_config() maps them to a Postgres text-search config.
+
+// Tesseract traineddata code for each language we OCR
+export const OCR_LANGUAGES: Record<string, string> = {
+  en: "eng",
+  de: "deu",
+  fr: "fra",
+  es: "spa",
+  it: "ita",
+  nl: "nld",
+  pt: "por",
+  ru: "rus",
+  el: "ell",
+  ar: "ara",
+};
+
+// Used when an upload gives no OCR languages and script detection finds Latin (or fails)
+export const DEFAULT_OCR_LANGUAGES = ["eng", "deu", "fra"];
+
+// Tesseract OSD script names mapped to the traineddata to OCR them with
+const SCRIPT_OCR_LANGUAGES: Record<string, string[]> = {
+  Latin: DEFAULT_OCR_LANGUAGES,
+  Cyrillic: ["rus"],
+  Greek: ["ell"],
+  Arabic: ["ara"],
+};
+
+// Accepts Tesseract codes ("deu") or ISO codes ("de"), separated by commas, spaces or "+"
+export function parseOcrLanguages(value: string | null | undefined): { languages: string[]; unknown: string[] } {
+  const known = new Set(Object.values(OCR_LANGUAGES));
+  const languages: string[] = [];
+  const unknown: string[] = [];
+  for (const raw of (value ?? "").split(/[\s,+]+/)) {
+    const code = raw.trim().toLowerCase();
+    if (!code) continue;
+    const tesseractCode = OCR_LANGUAGES[code] ?? code;
+    if (!known.has(tesseractCode)) unknown.push(raw);
+    else if (!languages.includes(tesseractCode)) languages.push(tesseractCode);
+  }
+  return { languages, unknown };
+}
+
+export function ocrLanguagesForScript(script: string | null | undefined): string[] {
+  return (script && SCRIPT_OCR_LANGUAGES[script]) || DEFAULT_OCR_LANGUAGES;
+}
+
+// Common function words per language; enough to tell apart Latin-script languages
+export const STOP_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "is", "that", "for", "it", "with", "as", "was", "on", "are", "be", "this", "by", "or", "from", "at", "an", "have", "not", "which", "you", "we", "they", "their", "has", "were"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "ein", "eine", "zu", "den", "mit", "sich", "des", "auf", "für", "im", "dem", "von", "auch", "es", "wir", "sie", "ich", "oder", "bei", "wird", "werden", "sind", "aus", "nach"],
+  fr: ["le", "la", "les", "et", "des", "est", "un", "une", "du", "que", "qui", "dans", "pour", "pas", "sur", "au", "avec", "ce", "il", "elle", "nous", "vous", "sont", "par", "plus", "aux", "ou", "mais", "leur", "cette"],
+  es: ["el", "la", "los", "las", "y", "de", "que", "en", "un", "una", "es", "por", "con", "para", "no", "se", "del", "al", "lo", "como", "más", "pero", "sus", "le", "ya", "o", "este", "sí", "porque", "esta"],
+  it: ["il", "lo", "la", "gli", "le", "e", "di", "che", "un", "una", "è", "per", "non", "con", "del", "della", "sono", "si", "da", "nel", "alla", "anche", "come", "ma", "più", "questo", "questa", "dei", "delle", "ha"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "niet", "op", "te", "zijn", "voor", "met", "die", "er", "aan", "ook", "als", "bij", "door", "wordt", "naar", "maar", "om", "hij", "zij", "wij", "deze", "dit", "worden"],
+  pt: ["o", "a", "os", "as", "e", "de", "que", "em", "um", "uma", "é", "para", "com", "não", "se", "do", "da", "dos", "das", "no", "na", "por", "mais", "mas", "como", "ao", "foi", "ser", "seu", "sua"],
+};
+
+// Scripts with a single language we support, recognised by Unicode block
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/\p{Script=Cyrillic}/gu, "ru"],
+  [/\p{Script=Greek}/gu, "el"],
+  [/\p{Script=Arabic}/gu, "ar"],
+];
+
+// Below this many words a stop-word vote is too noisy to trust
+const MIN_WORDS_FOR_DETECTION = 20;
+
+// Returns an ISO 639-1 code, or null when the text is too short or ambiguous
+export function detectLanguage(text: string): string | null {
+  const sample = text.slice(0, 20000);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return null;
+
+  for (const [pattern, language] of SCRIPT_LANGUAGES) {
+    if ((sample.match(pattern) || []).length / letters > 0.5) return language;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < MIN_WORDS_FOR_DETECTION) return null;
+
+  let best: string | null = null;
+  let bestHits = 0;
+  let secondHits = 0;
+  for (const [language, stopWords] of Object.entries(STOP_WORDS)) {
+    const set = new Set(stopWords);
+    const hits = words.filter((word) => set.has(word)).length;
+    if (hits > bestHits) {
+      secondHits = bestHits;
+      bestHits = hits;
+      best = language;
+    } else if (hits > secondHits) {
+      secondHits = hits;
+    }
+  }
+
+  // Require a clear winner: a minimum share of stop words and a margin over the runner-up
+  if (bestHits < words.length * 0.05 || bestHits < secondHits * 1.2) return null;
+  return best;
+}
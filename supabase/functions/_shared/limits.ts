@@ -0,0 +1,170 @@
+// Shared by documents-upload, upload-sessions and config: which files may be
+// uploaded. The browser checks names and sizes against the same rules (published
+// by GET /config/limits); the server also sniffs the leading bytes so a renamed
+// executable or a mislabelled file is refused whatever its extension says.
+
+import { detectType, extFromName, looksLikeText, type FileType } from "./detect.ts";
+
+const MB = 1024 * 1024;
+
+export interface TypeLimit {
+  type: Exclude<FileType, "other">;
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  maxBytes: number;
+}
+
+// process-document downloads the whole file into memory and scans, hashes and extracts
+// from that buffer inside an Edge Function, so no type may go above this
+export const MAX_PROCESSING_BYTES = 100 * MB;
+
+// Formats that grow while they are extracted (Office XML is unzipped, images are decoded
+// for OCR, text and email are decoded into strings) get half of that
+export const TYPE_LIMITS: TypeLimit[] = [
+  { type: "pdf", label: "PDF", extensions: ["pdf"], mimeTypes: ["application/pdf"], maxBytes: MAX_PROCESSING_BYTES },
+  { type: "image", label: "Images", extensions: ["jpg", "jpeg", "png", "webp", "bmp", "tiff"], mimeTypes: ["image/jpeg", "image/jpg", "image/png", "image/webp", "image/bmp", "image/tiff"], maxBytes: 50 * MB },
+  { type: "text", label: "Text", extensions: ["txt"], mimeTypes: ["text/plain"], maxBytes: 50 * MB },
+  { type: "markdown", label: "Markdown", extensions: ["md", "markdown"], mimeTypes: ["text/markdown", "text/x-markdown"], maxBytes: 50 * MB },
+  { type: "html", label: "HTML", extensions: ["html", "htm", "xhtml"], mimeTypes: ["text/html", "application/xhtml+xml"], maxBytes: 50 * MB },
+  { type: "csv", label: "CSV", extensions: ["csv", "tsv"], mimeTypes: ["text/csv", "text/tab-separated-values"], maxBytes: 50 * MB },
+  { type: "xlsx", label: "XLSX", extensions: ["xlsx"], mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"], maxBytes: 50 * MB },
+  { type: "docx", label: "DOCX", extensions: ["docx"], mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"], maxBytes: 50 * MB },
+  { type: "pptx", label: "PPTX", extensions: ["pptx"], mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"], maxBytes: 50 * MB },
+  { type: "odt", label: "ODT", extensions: ["odt"], mimeTypes: ["application/vnd.oasis.opendocument.text"], maxBytes: 50 * MB },
+  // A mailbox is split into one file per message while processing (see email.ts)
+  { type: "email", label: "Email", extensions: ["eml", "mbox"], mimeTypes: ["message/rfc822", "application/mbox"], maxBytes: 50 * MB },
+  // Expanded into one file per entry while processing (see archive.ts)
+  { type: "archive", label: "Archives", extensions: ["zip", "tar", "gz", "tgz"], mimeTypes: ["application/zip", "application/x-zip-compressed", "application/x-tar", "application/gzip", "application/x-gzip"], maxBytes: MAX_PROCESSING_BYTES },
+];
+
+export const MAX_UPLOAD_SIZE = Math.max(...TYPE_LIMITS.map((limit) => limit.maxBytes));
+
+// Executables, scripts, installers and macro-enabled Office files; refused by name before anything else
+export const DENIED_EXTENSIONS = [
+  "exe", "dll", "com", "scr", "pif", "cpl", "sys", "msi", "msp", "msix", "appx",
+  "bat", "cmd", "ps1", "psm1", "vbs", "vbe", "js", "jse", "wsf", "wsh", "hta", "lnk", "reg",
+  "jar", "class", "apk", "app", "dmg", "pkg", "deb", "rpm", "sh", "bin", "elf", "so", "dylib",
+  "docm", "dotm", "xlsm", "xltm", "xlam", "pptm", "potm", "ppsm",
+];
+
+export type RejectionCode = "denied_extension" | "empty_file" | "executable_content" | "unsupported_type" | "content_mismatch" | "too_large";
+
+export interface Rejection {
+  status: 400 | 413 | 415;
+  code: RejectionCode;
+  error: string;
+}
+
+type Magic = "pdf" | "png" | "jpeg" | "gif" | "webp" | "bmp" | "tiff" | "zip" | "gzip" | "tar" | "ole" | "executable";
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+// Identifies the container format from its leading bytes; null when there is no known signature
+export function sniffMagic(head: Uint8Array): Magic | null {
+  // Windows PE ("MZ", whose header is full of NUL bytes, unlike text that happens to start with "MZ"),
+  // ELF and Mach-O (both byte orders, 32 and 64 bit)
+  if (startsWith(head, [0x4d, 0x5a]) && !looksLikeText(head)) return "executable";
+  if (startsWith(head, [0x7f, 0x45, 0x4c, 0x46])) return "executable";
+  if ([[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe]].some((sig) => startsWith(head, sig))) {
+    return "executable";
+  }
+  // PDF readers accept the header anywhere in the first kilobyte
+  if (new TextDecoder("latin1").decode(head.subarray(0, 1024)).includes("%PDF-")) return "pdf";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(head, [0x47, 0x49, 0x46, 0x38])) return "gif";
+  if (startsWith(head, [0x52, 0x49, 0x46, 0x46]) && startsWith(head, [0x57, 0x45, 0x42, 0x50], 8)) return "webp";
+  // "BM" followed, after the file size, by four reserved zero bytes
+  if (startsWith(head, [0x42, 0x4d]) && startsWith(head, [0, 0, 0, 0], 6)) return "bmp";
+  if (startsWith(head, [0x49, 0x49, 0x2a, 0x00]) || startsWith(head, [0x4d, 0x4d, 0x00, 0x2a])) return "tiff";
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return "zip";
+  if (startsWith(head, [0x1f, 0x8b])) return "gzip";
+  // "ustar" magic in the first tar header block
+  if (startsWith(head, [0x75, 0x73, 0x74, 0x61, 0x72], 257)) return "tar";
+  // Legacy Office / MSI compound file
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return "ole";
+  return null;
+}
+
+// What the leading bytes of each binary type have to look like; text types only have to be text
+const EXPECTED_MAGIC: Partial<Record<FileType, Magic[]>> = {
+  pdf: ["pdf"],
+  image: ["png", "jpeg", "gif", "webp", "bmp", "tiff"],
+  xlsx: ["zip"],
+  docx: ["zip"],
+  pptx: ["zip"],
+  odt: ["zip"],
+  archive: ["zip", "gzip", "tar"],
+};
+
+export const typeLimit = (type: FileType) => TYPE_LIMITS.find((limit) => limit.type === type) ?? null;
+
+const formatBytes = (bytes: number) => bytes >= 1024 * MB ? `${bytes / (1024 * MB)}GB` : `${Math.round(bytes / MB)}MB`;
+
+function sizeRejection(type: FileType | null, size: number): Rejection | null {
+  const limit = type ? typeLimit(type) : null;
+  const maxBytes = limit?.maxBytes ?? MAX_UPLOAD_SIZE;
+  if (size <= maxBytes) return null;
+  return {
+    status: 413,
+    code: "too_large",
+    error: `${limit ? `${limit.label} files are` : "Files are"} limited to ${formatBytes(maxBytes)}; this one is ${formatBytes(size)}`,
+  };
+}
+
+// The checks that need only what the client declares: name, MIME type and size.
+// upload-sessions runs these before accepting any bytes.
+export function checkDeclaredUpload(filename: string, contentType: string | null, size: number): Rejection | null {
+  const ext = extFromName(filename);
+  if (DENIED_EXTENSIONS.includes(ext)) {
+    return { status: 415, code: "denied_extension", error: `.${ext} files are not accepted` };
+  }
+  const declared = TYPE_LIMITS.find((limit) =>
+    limit.extensions.includes(ext) || (contentType && limit.mimeTypes.includes(contentType.toLowerCase()))
+  );
+  return sizeRejection(declared?.type ?? null, size);
+}
+
+// Full validation once the leading bytes are available (the whole file for documents-upload,
+// the first chunk for upload-sessions). Returns the detected type or why the file is refused.
+export function validateUpload(
+  filename: string,
+  contentType: string | null,
+  size: number,
+  head: Uint8Array,
+): { fileType: FileType; rejection: null } | { fileType: null; rejection: Rejection } {
+  const declared = checkDeclaredUpload(filename, contentType, size);
+  if (declared) return { fileType: null, rejection: declared };
+  if (size === 0 || head.length === 0) {
+    return { fileType: null, rejection: { status: 400, code: "empty_file", error: "File is empty" } };
+  }
+
+  const magic = sniffMagic(head);
+  if (magic === "executable") {
+    return { fileType: null, rejection: { status: 415, code: "executable_content", error: "File content is an executable program" } };
+  }
+
+  const fileType = detectType(new File([], filename, { type: contentType ?? "" }), head);
+  if (fileType === "other") {
+    return { fileType: null, rejection: { status: 415, code: "unsupported_type", error: "Unsupported file type" } };
+  }
+
+  const expected = EXPECTED_MAGIC[fileType];
+  const matches = expected ? magic !== null && expected.includes(magic) : looksLikeText(head);
+  if (!matches) {
+    const ext = extFromName(filename);
+    return {
+      fileType: null,
+      rejection: {
+        status: 415,
+        code: "content_mismatch",
+        error: `File content does not match its ${ext ? `.${ext} extension` : "declared type"} (expected ${typeLimit(fileType)?.label ?? fileType})`,
+      },
+    };
+  }
+
+  const tooLarge = sizeRejection(fileType, size);
+  return tooLarge ? { fileType: null, rejection: tooLarge } : { fileType, rejection: null };
+}
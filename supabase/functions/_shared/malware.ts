@@ -0,0 +1,165 @@
+// Shared by process-document and quarantine: malware scanning and the quarantine
+// prefix in the documents bucket. Every upload is scanned before extraction; a
+// flagged file is moved under quarantine/ and marked 'quarantined', which keeps it
+// out of files, search and downloads until an admin releases it.
+//
+// The scanner is chosen with the MALWARE_SCANNER secret:
+//   "clamav": a clamd daemon at CLAMAV_HOST:CLAMAV_PORT (default port 3310)
+//   "eicar":  flags only the EICAR test string; for local development and tests
+// Without MALWARE_SCANNER, clamav is used when CLAMAV_HOST is set, otherwise eicar.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const QUARANTINE_PREFIX = "quarantine/";
+
+export interface ScanResult {
+  clean: boolean;
+  // Name of the detected malware, e.g. "Eicar-Test-Signature"
+  signature: string | null;
+  scanner: string;
+}
+
+export interface Scanner {
+  name: string;
+  scan(bytes: Uint8Array): Promise<ScanResult>;
+}
+
+// The industry-standard anti-virus test file; harmless, but every scanner reports it
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+export const eicarScanner: Scanner = {
+  name: "eicar",
+  scan(bytes) {
+    const text = new TextDecoder("latin1").decode(bytes);
+    const found = text.includes(EICAR);
+    return Promise.resolve({ clean: !found, signature: found ? "Eicar-Test-Signature" : null, scanner: "eicar" });
+  },
+};
+
+// clamd reads INSTREAM data in length-prefixed chunks; it refuses streams above its StreamMaxLength
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+const CLAMD_TIMEOUT_MS = 60_000;
+
+async function writeAll(conn: Deno.Conn, data: Uint8Array) {
+  let written = 0;
+  while (written < data.length) {
+    written += await conn.write(data.subarray(written));
+  }
+}
+
+// Replies are NUL-terminated because the command was sent with the "z" prefix
+async function readReply(conn: Deno.Conn): Promise<string> {
+  const decoder = new TextDecoder();
+  const buffer = new Uint8Array(1024);
+  let reply = "";
+  for (;;) {
+    const read = await conn.read(buffer);
+    if (read === null) return reply;
+    reply += decoder.decode(buffer.subarray(0, read));
+    if (reply.includes("\0")) return reply.slice(0, reply.indexOf("\0"));
+  }
+}
+
+export function clamdScanner(hostname: string, port: number): Scanner {
+  return {
+    name: "clamav",
+    async scan(bytes) {
+      const conn = await Deno.connect({ hostname, port });
+      // Closing the connection makes a pending read or write throw
+      const timer = setTimeout(() => conn.close(), CLAMD_TIMEOUT_MS);
+      try {
+        await writeAll(conn, new TextEncoder().encode("zINSTREAM\0"));
+        for (let offset = 0; offset < bytes.length; offset += CLAMD_CHUNK_SIZE) {
+          const chunk = bytes.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+          const length = new Uint8Array(4);
+          new DataView(length.buffer).setUint32(0, chunk.length);
+          await writeAll(conn, length);
+          await writeAll(conn, chunk);
+        }
+        await writeAll(conn, new Uint8Array(4));
+
+        // "stream: OK", "stream: <signature> FOUND" or "<reason> ERROR"
+        const reply = (await readReply(conn)).trim();
+        if (reply.endsWith(" OK")) return { clean: true, signature: null, scanner: "clamav" };
+        const found = reply.match(/^stream: (.+) FOUND$/);
+        if (found) return { clean: false, signature: found[1], scanner: "clamav" };
+        throw new Error(`clamd: ${reply || "no reply"}`);
+      } finally {
+        clearTimeout(timer);
+        try {
+          conn.close();
+        } catch (_e) {
+          // Already closed by the timeout
+        }
+      }
+    },
+  };
+}
+
+export function scannerFromEnv(): Scanner {
+  const configured = (Deno.env.get("MALWARE_SCANNER") ?? "").trim().toLowerCase();
+  const clamavHost = Deno.env.get("CLAMAV_HOST");
+  if (configured === "clamav" || (!configured && clamavHost)) {
+    if (!clamavHost) throw new Error("MALWARE_SCANNER is clamav but CLAMAV_HOST is not set");
+    return clamdScanner(clamavHost, parseInt(Deno.env.get("CLAMAV_PORT") ?? "3310"));
+  }
+  if (configured && configured !== "eicar") throw new Error(`Unknown MALWARE_SCANNER: ${configured}`);
+  if (!configured) console.warn("No malware scanner configured; only the EICAR test string is detected");
+  return eicarScanner;
+}
+
+// Moves the object under the quarantine prefix and marks the file; extraction never runs on it
+export async function quarantineFile(
+  admin: SupabaseClient,
+  file: { id: number; storage_path: string },
+  result: ScanResult,
+): Promise<string> {
+  const quarantinePath = `${QUARANTINE_PREFIX}${file.storage_path}`;
+  const { error: moveErr } = await admin.storage.from("documents").move(file.storage_path, quarantinePath);
+  if (moveErr) throw new Error(`Quarantine move failed: ${moveErr.message}`);
+
+  const now = new Date().toISOString();
+  const { error } = await admin
+    .from("files")
+    .update({
+      status: "quarantined",
+      storage_path: quarantinePath,
+      malware_signature: result.signature,
+      scanner: result.scanner,
+      scanned_at: now,
+      quarantined_at: now,
+      error_message: `Quarantined: ${result.signature ?? "malware"} detected by ${result.scanner}`,
+    })
+    .eq("id", file.id);
+  if (error) throw new Error(`files update failed: ${error.message}`);
+  return quarantinePath;
+}
+
+// Moves the object back out of quarantine; the caller re-queues the file for processing
+export async function releaseFile(
+  admin: SupabaseClient,
+  file: { id: number; storage_path: string },
+  releasedBy: string | null,
+): Promise<string> {
+  const originalPath = file.storage_path.startsWith(QUARANTINE_PREFIX)
+    ? file.storage_path.slice(QUARANTINE_PREFIX.length)
+    : file.storage_path;
+  if (originalPath !== file.storage_path) {
+    const { error: moveErr } = await admin.storage.from("documents").move(file.storage_path, originalPath);
+    if (moveErr) throw new Error(`Release move failed: ${moveErr.message}`);
+  }
+
+  const { error } = await admin
+    .from("files")
+    .update({
+      status: "pending",
+      storage_path: originalPath,
+      quarantined_at: null,
+      quarantine_released_at: new Date().toISOString(),
+      quarantine_released_by: releasedBy,
+      error_message: null,
+    })
+    .eq("id", file.id);
+  if (error) throw new Error(`files update failed: ${error.message}`);
+  return originalPath;
+}
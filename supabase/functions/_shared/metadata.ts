@@ -0,0 +1,249 @@
+// Used by extract.ts: metadata embedded in the file itself, stored in
+// files.metadata next to the email headers (see email.ts):
+//   { "pdf":  { title, author, subject, keywords, creator, producer, created_at, modified_at, page_count } }
+//   { "exif": { camera, camera_make, camera_model, lens, software, captured_at, orientation,
+//               width, height, exposure_time, f_number, iso, gps: { latitude, longitude, altitude } } }
+// Dates are ISO 8601 strings so they compare and filter as text. Missing fields are left out.
+// files and search filter on it with meta= params (see parseMetaFilters).
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  created_at?: string;
+  modified_at?: string;
+  page_count: number;
+}
+
+export interface ExifInfo {
+  camera?: string;
+  camera_make?: string;
+  camera_model?: string;
+  lens?: string;
+  software?: string;
+  // With the recorded UTC offset when the camera stored one, otherwise camera-local time
+  captured_at?: string;
+  // EXIF orientation 1-8; 1 is upright
+  orientation?: number;
+  width?: number;
+  height?: number;
+  exposure_time?: number;
+  f_number?: number;
+  iso?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+// "D:20240305101500+01'00'" -> "2024-03-05T10:15:00+01:00"; fields after the year are optional
+export function parsePdfDate(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const m = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+  if (!m) return undefined;
+  const [, y, mo = "01", d = "01", h = "00", mi = "00", s = "00", zone] = m;
+  const offset = !zone || zone === "Z" ? "Z" : `${zone.slice(0, 3)}:${zone.slice(3).replace(/'/g, "").padEnd(2, "0")}`;
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+const infoString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.replace(/\p{Cc}/gu, " ").trim() : undefined;
+
+// From pdf.js getMetadata().info
+export function pdfInfo(info: Record<string, unknown> | null | undefined, pageCount: number): PdfInfo {
+  return {
+    title: infoString(info?.Title),
+    author: infoString(info?.Author),
+    subject: infoString(info?.Subject),
+    keywords: infoString(info?.Keywords),
+    creator: infoString(info?.Creator),
+    producer: infoString(info?.Producer),
+    created_at: parsePdfDate(info?.CreationDate),
+    modified_at: parsePdfDate(info?.ModDate),
+    page_count: pageCount,
+  };
+}
+
+// IFDs are capped so a corrupt or hostile file cannot make the reader loop
+const MAX_IFD_ENTRIES = 512;
+// Size in bytes of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  if (tiff + offset + 2 > view.byteLength) return tags;
+  const count = Math.min(view.getUint16(tiff + offset, little), MAX_IFD_ENTRIES);
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size || n === 0 || n > 65536) continue;
+    const start = size * n <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+    if (start + size * n > view.byteLength) continue;
+
+    if (type === 2) {
+      const chars = new Uint8Array(view.buffer, view.byteOffset + start, n);
+      const end = chars.indexOf(0);
+      tags.set(tag, new TextDecoder().decode(end >= 0 ? chars.subarray(0, end) : chars).trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < Math.min(n, 16); j++) {
+      const at = start + j * size;
+      if (type === 1 || type === 7) values.push(view.getUint8(at));
+      else if (type === 3) values.push(view.getUint16(at, little));
+      else if (type === 4) values.push(view.getUint32(at, little));
+      else if (type === 9) values.push(view.getInt32(at, little));
+      else if (type === 5) values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+      else if (type === 10) values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1));
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  return tags;
+}
+
+const num = (value: TagValue | undefined) => typeof value === "number" ? value : Array.isArray(value) ? value[0] : undefined;
+const str = (value: TagValue | undefined) => typeof value === "string" && value ? value : undefined;
+
+function gpsCoordinate(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  if (!Number.isFinite(degrees)) return undefined;
+  return Math.round((ref === "S" || ref === "W" ? -degrees : degrees) * 1e6) / 1e6;
+}
+
+// "2024:03:05 10:15:00" plus an optional "+01:00"
+function exifDate(value: TagValue | undefined, offset: TagValue | undefined): string | undefined {
+  const m = str(value)?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m || m[1] === "0000") return undefined;
+  const local = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}`;
+  const zone = str(offset);
+  if (!zone || !/^[+-]\d{2}:\d{2}$/.test(zone)) return local;
+  const date = new Date(`${local}${zone}`);
+  return isNaN(date.getTime()) ? local : date.toISOString();
+}
+
+function parseTiff(bytes: Uint8Array): ExifInfo | null {
+  if (bytes.length < 8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (view.getUint16(2, little) !== 42) return null;
+
+  const ifd0 = readIfd(view, 0, view.getUint32(4, little), little);
+  const exifPointer = num(ifd0.get(0x8769));
+  const gpsPointer = num(ifd0.get(0x8825));
+  const exif = exifPointer ? readIfd(view, 0, exifPointer, little) : new Map<number, TagValue>();
+  const gps = gpsPointer ? readIfd(view, 0, gpsPointer, little) : new Map<number, TagValue>();
+
+  const make = str(ifd0.get(0x010f));
+  const model = str(ifd0.get(0x0110));
+  const latitude = gpsCoordinate(gps.get(2), gps.get(1));
+  const longitude = gpsCoordinate(gps.get(4), gps.get(3));
+  const altitude = num(gps.get(6));
+
+  const info: ExifInfo = {
+    // Many models already start with the make ("Canon EOS R5")
+    camera: model ? (make && !model.startsWith(make) ? `${make} ${model}` : model) : make,
+    camera_make: make,
+    camera_model: model,
+    lens: str(exif.get(0xa434)),
+    software: str(ifd0.get(0x0131)),
+    captured_at: exifDate(exif.get(0x9003) ?? ifd0.get(0x0132), exif.get(0x9011) ?? exif.get(0x9010)),
+    orientation: num(ifd0.get(0x0112)),
+    width: num(exif.get(0xa002)),
+    height: num(exif.get(0xa003)),
+    exposure_time: num(exif.get(0x829a)),
+    f_number: num(exif.get(0x829d)),
+    iso: num(exif.get(0x8827)),
+    gps: latitude !== undefined && longitude !== undefined
+      ? { latitude, longitude, altitude: altitude !== undefined && Number.isFinite(altitude) ? (gps.get(5) === 1 ? -altitude : altitude) : undefined }
+      : undefined,
+  };
+  return Object.values(info).some((value) => value !== undefined) ? info : null;
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Finds the EXIF block (a little TIFF file) in a JPEG APP1 segment, a PNG eXIf chunk,
+// a WebP EXIF chunk, or a TIFF image itself; null when the image carries none
+export function readExif(bytes: Uint8Array): ExifInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      for (let offset = 2; offset + 4 <= bytes.length;) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        // Start of scan: the metadata segments are all before it
+        if (marker === 0xda) return null;
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === "Exif\0\0") {
+          return parseTiff(bytes.subarray(offset + 10, offset + 2 + length));
+        }
+        offset += 2 + length;
+      }
+      return null;
+    }
+    if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === "PNG") {
+      for (let offset = 8; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = ascii(bytes, offset + 4, 4);
+        if (type === "eXIf") return parseTiff(bytes.subarray(offset + 8, offset + 8 + length));
+        if (type === "IDAT" || type === "IEND") return null;
+        offset += 12 + length;
+      }
+      return null;
+    }
+    if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+      for (let offset = 12; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset + 4, true);
+        if (ascii(bytes, offset, 4) === "EXIF") {
+          const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+          return parseTiff(ascii(chunk, 0, 6) === "Exif\0\0" ? chunk.subarray(6) : chunk);
+        }
+        offset += 8 + length + (length % 2);
+      }
+      return null;
+    }
+    return parseTiff(bytes);
+  } catch (_e) {
+    // Truncated or corrupt metadata is not worth failing the upload over
+    return null;
+  }
+}
+
+// "<section>.<field>[.<field>]" followed by ":" (contains), ">=" or "<=" and a value
+const META_FILTER = /^([a-z_]+(?:\.[a-z_]+){1,2})(:|>=|<=)(.+)$/;
+
+// PostgREST [column, operator, value] filters for meta= params such as pdf.author:smith
+// or exif.captured_at>=2024-01-01. A date on its own after <= covers the whole day.
+export function parseMetaFilters(values: string[]): { filters: [string, string, string][]; error?: string } {
+  const filters: [string, string, string][] = [];
+  for (const value of values.map((value) => value.trim()).filter(Boolean)) {
+    const match = value.match(META_FILTER);
+    if (!match) {
+      return { filters: [], error: `meta must look like pdf.author:smith or exif.captured_at>=2024-01-01, got "${value}"` };
+    }
+    const [, path, operator, operand] = match;
+    const keys = path.split(".");
+    const column = `metadata->${keys.slice(0, -1).map((key) => `${key}->`).join("")}>${keys[keys.length - 1]}`;
+    if (operator === ":") {
+      filters.push([column, "ilike", `%${operand.trim()}%`]);
+    } else if (operator === ">=") {
+      filters.push([column, "gte", operand.trim()]);
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(operand.trim())) {
+      filters.push([column, "lt", new Date(Date.parse(operand.trim()) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)]);
+    } else {
+      filters.push([column, "lte", operand.trim()]);
+    }
+  }
+  return { filters };
+}
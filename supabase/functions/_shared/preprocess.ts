@@ -0,0 +1,339 @@
+// Image preprocessing before OCR (used by ../_shared/extract.ts for image uploads):
+// EXIF / detected orientation correction, deskew, denoise, contrast normalisation
+// and binarisation. Works on an 8-bit grayscale buffer; the canvas is only used
+// to decode the upload and to encode the result as PNG.
+
+import { createCanvas, loadImage } from "https://deno.land/x/canvas@v1.4.1/mod.ts";
+
+export interface PreprocessOptions {
+  rotate: boolean;
+  deskew: boolean;
+  denoise: boolean;
+  contrast: boolean;
+  binarize: boolean;
+}
+
+export const PREPROCESS_STEPS: (keyof PreprocessOptions)[] = ["rotate", "deskew", "denoise", "contrast", "binarize"];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  rotate: true,
+  deskew: true,
+  denoise: true,
+  contrast: true,
+  binarize: true,
+};
+
+// What was actually done to the image, stored with the file for comparison
+export interface PreprocessSteps {
+  // Clockwise rotation applied to upright the page (EXIF plus detected orientation)
+  rotation: number;
+  // Skew correction in degrees; 0 when deskew was off or found nothing to fix
+  deskewAngle: number;
+  denoised: boolean;
+  contrastStretched: boolean;
+  binarized: boolean;
+  // Otsu threshold used for binarisation (values at or below it became black)
+  threshold: number | null;
+}
+
+export interface PreprocessedImage {
+  png: Uint8Array;
+  width: number;
+  height: number;
+  steps: PreprocessSteps;
+}
+
+// Accepts "none", "all" / "auto" / empty (defaults) or a comma list such as "rotate,deskew"
+export function parsePreprocessOptions(value: string | null | undefined): { options: PreprocessOptions; unknown: string[] } {
+  const raw = (value ?? "").trim().toLowerCase();
+  if (!raw || raw === "all" || raw === "auto") return { options: { ...DEFAULT_PREPROCESS_OPTIONS }, unknown: [] };
+
+  const options: PreprocessOptions = { rotate: false, deskew: false, denoise: false, contrast: false, binarize: false };
+  if (raw === "none") return { options, unknown: [] };
+
+  const unknown: string[] = [];
+  for (const step of raw.split(/[\s,]+/).filter(Boolean)) {
+    if ((PREPROCESS_STEPS as string[]).includes(step)) options[step as keyof PreprocessOptions] = true;
+    else unknown.push(step);
+  }
+  return { options, unknown };
+}
+
+export function preprocessingEnabled(options: PreprocessOptions): boolean {
+  return PREPROCESS_STEPS.some((step) => options[step]);
+}
+
+// Larger photos are scaled down first; Tesseract gains nothing beyond ~300 dpi A4
+const MAX_DIMENSION = 2500;
+// Skew search range and resolution, in degrees
+const MAX_SKEW_DEGREES = 15;
+const SKEW_STEP_DEGREES = 0.25;
+// Width the skew estimate works at; projection profiles need far fewer pixels
+const SKEW_SAMPLE_WIDTH = 800;
+
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// EXIF Orientation tag (0x0112) from a JPEG APP1 segment; 1 when absent
+function exifOrientation(bytes: Uint8Array): number {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > bytes.length) break;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+    if (marker === 0xda) break; // start of scan: no more metadata
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+const EXIF_ROTATION: Record<number, number> = { 3: 180, 6: 90, 8: 270 };
+
+async function decodeGray(bytes: Uint8Array): Promise<GrayImage> {
+  const image = await loadImage(bytes);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width(), image.height()));
+  const width = Math.max(1, Math.round(image.width() * scale));
+  const height = Math.max(1, Math.round(image.height() * scale));
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+    // ITU-R BT.601 luma
+    data[p] = (rgba[i] * 299 + rgba[i + 1] * 587 + rgba[i + 2] * 114) / 1000;
+  }
+  return { width, height, data };
+}
+
+export function encodePng(image: GrayImage): Uint8Array {
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext("2d");
+  const imageData = ctx.getImageData(0, 0, image.width, image.height);
+  for (let p = 0, i = 0; p < image.data.length; p++, i += 4) {
+    imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = image.data[p];
+    imageData.data[i + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toBuffer("image/png");
+}
+
+// Clockwise rotation by a multiple of 90 degrees
+function rotateQuarter(image: GrayImage, degrees: number): GrayImage {
+  const turns = ((Math.round(degrees / 90) % 4) + 4) % 4;
+  if (turns === 0) return image;
+  const { width, height, data } = image;
+  const outWidth = turns === 2 ? width : height;
+  const outHeight = turns === 2 ? height : width;
+  const out = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let nx: number, ny: number;
+      if (turns === 1) { nx = height - 1 - y; ny = x; }
+      else if (turns === 2) { nx = width - 1 - x; ny = height - 1 - y; }
+      else { nx = y; ny = width - 1 - x; }
+      out[ny * outWidth + nx] = data[y * width + x];
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+// Rotates by a small angle about the centre, filling uncovered corners with white
+function rotateSmall(image: GrayImage, degrees: number): GrayImage {
+  const { width, height, data } = image;
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const cx = width / 2;
+  const cy = height / 2;
+  const out = new Uint8ClampedArray(width * height).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Inverse mapping: where in the source does this output pixel come from
+      const sx = Math.round(cos * (x - cx) + sin * (y - cy) + cx);
+      const sy = Math.round(-sin * (x - cx) + cos * (y - cy) + cy);
+      if (sx >= 0 && sx < width && sy >= 0 && sy < height) out[y * width + x] = data[sy * width + sx];
+    }
+  }
+  return { width, height, data: out };
+}
+
+// Pixels at or below the returned level are ink
+function otsuThreshold(data: Uint8ClampedArray): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of data) histogram[value]++;
+  const total = data.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 127;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
+
+// Projection-profile skew estimate: text lines give the sharpest row histogram
+// when the page is level, so pick the angle that maximises its sum of squares
+function estimateSkew(image: GrayImage): number {
+  const step = Math.max(1, Math.floor(image.width / SKEW_SAMPLE_WIDTH));
+  const threshold = otsuThreshold(image.data);
+  const points: number[] = [];
+  for (let y = 0; y < image.height; y += step) {
+    for (let x = 0; x < image.width; x += step) {
+      if (image.data[y * image.width + x] <= threshold) points.push(x, y);
+    }
+  }
+  if (points.length < 200) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(image.width, image.height));
+  const bins = new Float64Array(Math.ceil((2 * diagonal) / step) + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const rad = (angle * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    bins.fill(0);
+    for (let i = 0; i < points.length; i += 2) {
+      const row = Math.floor((points[i + 1] * cos - points[i] * sin + diagonal) / step);
+      bins[row]++;
+    }
+    let score = 0;
+    for (const count of bins) score += count * count;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+// 3x3 median filter: removes salt-and-pepper speckle without blurring strokes much
+function medianFilter(image: GrayImage): GrayImage {
+  const { width, height, data } = image;
+  const out = new Uint8ClampedArray(data);
+  const window = new Uint8Array(9);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let k = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) window[k++] = data[(y + dy) * width + x + dx];
+      }
+      window.sort();
+      out[y * width + x] = window[4];
+    }
+  }
+  return { width, height, data: out };
+}
+
+// Stretches the 1st-99th percentile range to full black-to-white
+function stretchContrast(image: GrayImage): GrayImage {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of image.data) histogram[value]++;
+  const clip = image.data.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+  if (high <= low) return image;
+
+  const out = new Uint8ClampedArray(image.data.length);
+  const range = high - low;
+  for (let p = 0; p < out.length; p++) out[p] = ((image.data[p] - low) * 255) / range;
+  return { width: image.width, height: image.height, data: out };
+}
+
+function binarize(image: GrayImage, threshold: number): GrayImage {
+  const out = new Uint8ClampedArray(image.data.length);
+  for (let p = 0; p < out.length; p++) out[p] = image.data[p] <= threshold ? 0 : 255;
+  return { width: image.width, height: image.height, data: out };
+}
+
+// detectOrientation receives a PNG of the EXIF-corrected image and returns the
+// clockwise rotation that makes the text upright (0, 90, 180 or 270), or null
+export async function preprocessImage(
+  bytes: Uint8Array,
+  options: PreprocessOptions,
+  detectOrientation: (png: Uint8Array) => Promise<number | null>,
+): Promise<PreprocessedImage> {
+  let image = await decodeGray(bytes);
+  const steps: PreprocessSteps = {
+    rotation: 0,
+    deskewAngle: 0,
+    denoised: false,
+    contrastStretched: false,
+    binarized: false,
+    threshold: null,
+  };
+
+  if (options.rotate) {
+    steps.rotation = EXIF_ROTATION[exifOrientation(bytes)] ?? 0;
+    image = rotateQuarter(image, steps.rotation);
+    const detected = await detectOrientation(encodePng(image));
+    if (detected) {
+      image = rotateQuarter(image, detected);
+      steps.rotation = (steps.rotation + detected) % 360;
+    }
+  }
+
+  if (options.deskew) {
+    const angle = estimateSkew(image);
+    if (angle !== 0) {
+      // Lines tilted by +angle are levelled by rotating the opposite way
+      image = rotateSmall(image, -angle);
+      steps.deskewAngle = angle;
+    }
+  }
+
+  if (options.denoise) {
+    image = medianFilter(image);
+    steps.denoised = true;
+  }
+
+  if (options.contrast) {
+    image = stretchContrast(image);
+    steps.contrastStretched = true;
+  }
+
+  if (options.binarize) {
+    steps.threshold = otsuThreshold(image.data);
+    image = binarize(image, steps.threshold);
+    steps.binarized = true;
+  }
+
+  return { png: encodePng(image), width: image.width, height: image.height, steps };
+}
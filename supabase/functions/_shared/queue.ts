@@ -0,0 +1,21 @@
+// Shared by the functions that put work on the processing_jobs queue
+// (documents-upload, upload-sessions, processing-dead-letters, quarantine): starts
+// the process-document worker.
+
+// Supabase Edge Runtime keeps background work alive after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Kicks the worker for a job (or, without one, for the oldest queued jobs) without
+// waiting for it to finish
+export function startProcessing(supabaseUrl: string, serviceRoleKey: string, jobId?: number) {
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/process-document`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(jobId === undefined ? {} : { job_id: jobId }),
+    }).catch((e) => console.error(`Failed to start processing${jobId === undefined ? "" : ` job ${jobId}`}`, e)),
+  );
+}
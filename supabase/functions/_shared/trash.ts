@@ -0,0 +1,103 @@
+// Shared by files and trash: deleting a file moves it to the trash (files.deleted_at)
+// together with its other versions and the entries unpacked from them; the trash
+// function restores it or removes it for good, and its scheduled purge empties the
+// trash once files have been there longer than TRASH_RETENTION_DAYS.
+// duplicate-clusters removes merged duplicates with purgeFiles as well.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Days a file stays in the trash; set with the TRASH_RETENTION_DAYS secret
+export function retentionDays(): number {
+  const days = parseInt(Deno.env.get("TRASH_RETENTION_DAYS") || "");
+  return isNaN(days) || days < 1 ? DEFAULT_RETENTION_DAYS : days;
+}
+
+// When a file trashed at deletedAt is purged
+export function purgeAfter(deletedAt: string, days = retentionDays()): string {
+  return new Date(new Date(deletedAt).getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export interface TrashedFile {
+  id: number;
+  filename: string;
+  storage_path: string;
+  preprocessed_path: string | null;
+  deleted_at: string | null;
+  version_of: number | null;
+}
+
+const TRASHED_COLUMNS = "id, filename, storage_path, preprocessed_path, deleted_at, version_of";
+
+// The files and every other version of the documents they belong to
+export async function withVersions(admin: SupabaseClient, files: TrashedFile[]): Promise<TrashedFile[]> {
+  const roots = [...new Set(files.map((file) => file.version_of ?? file.id))];
+  const { data: versions, error } = await admin
+    .from("files")
+    .select(TRASHED_COLUMNS)
+    .or(`id.in.(${roots.join(",")}),version_of.in.(${roots.join(",")})`);
+  if (error) throw new Error(`Version lookup failed: ${error.message}`);
+  const all = new Map(files.map((file) => [file.id, file]));
+  ((versions || []) as TrashedFile[]).forEach((version) => {
+    if (!all.has(version.id)) all.set(version.id, version);
+  });
+  return [...all.values()];
+}
+
+// The files and every entry unpacked from them, at any depth
+export async function withDescendants(admin: SupabaseClient, files: TrashedFile[]): Promise<TrashedFile[]> {
+  const all = new Map(files.map((file) => [file.id, file]));
+  for (let parents = [...all.keys()]; parents.length > 0;) {
+    const { data: children, error } = await admin
+      .from("files")
+      .select(TRASHED_COLUMNS)
+      .in("parent_id", parents);
+    if (error) throw new Error(`Child lookup failed: ${error.message}`);
+    // A purge batch can hold an archive and its entries side by side
+    const found = ((children || []) as TrashedFile[]).filter((child) => !all.has(child.id));
+    found.forEach((child) => all.set(child.id, child));
+    parents = found.map((child) => child.id);
+  }
+  return [...all.values()];
+}
+
+// Moves the file, its versions and their entries to the trash; entries trashed earlier keep their own time
+export async function trashFile(admin: SupabaseClient, file: TrashedFile): Promise<string> {
+  const deletedAt = new Date().toISOString();
+  const ids = (await withDescendants(admin, await withVersions(admin, [file]))).filter((row) => !row.deleted_at).map((row) => row.id);
+  const { error } = await admin.from("files").update({ deleted_at: deletedAt }).in("id", ids);
+  if (error) throw new Error(`Trash update failed: ${error.message}`);
+  return deletedAt;
+}
+
+// Takes the file and the versions and entries trashed with it (same deleted_at) back out of the trash
+export async function restoreFile(admin: SupabaseClient, file: TrashedFile): Promise<number[]> {
+  const ids = (await withDescendants(admin, await withVersions(admin, [file]))).filter((row) => row.deleted_at === file.deleted_at).map((row) => row.id);
+  const { error } = await admin.from("files").update({ deleted_at: null }).in("id", ids);
+  if (error) throw new Error(`Restore failed: ${error.message}`);
+  return ids;
+}
+
+// Removes the files, their versions and entries, extracted content, tags and stored
+// objects for good. Pages, sheets, fingerprints and jobs cascade from the rows.
+export async function purgeFiles(admin: SupabaseClient, files: TrashedFile[]): Promise<number[]> {
+  const rows = await withDescendants(admin, await withVersions(admin, files));
+  const ids = rows.map((row) => row.id);
+
+  // Content and tags are removed explicitly rather than trusting their foreign keys to cascade
+  const { error: contentErr } = await admin.from("file_content").delete().in("file_id", ids);
+  if (contentErr) throw new Error(`Content delete failed: ${contentErr.message}`);
+  const { error: tagErr } = await admin.from("file_tags").delete().in("file_id", ids);
+  if (tagErr) throw new Error(`Tag delete failed: ${tagErr.message}`);
+  const { error: deleteErr } = await admin.from("files").delete().in("id", ids);
+  if (deleteErr) throw new Error(`File delete failed: ${deleteErr.message}`);
+
+  // Rows go first: an object left behind is only wasted space, a row without its object is broken
+  const paths = rows.flatMap((row) => [row.storage_path, row.preprocessed_path].filter(Boolean) as string[]);
+  if (paths.length > 0) {
+    const { error: storageErr } = await admin.storage.from("documents").remove(paths);
+    if (storageErr) console.error(`Storage cleanup failed for files ${ids.join(", ")}:`, storageErr);
+  }
+  return ids;
+}
@@ -0,0 +1,46 @@
+// Shared by ingest, documents-upload, upload-sessions and file-versions: a
+// document's versions are one chain of files rows. The first upload is the root;
+// later versions point at it with version_of and count up in version. Each keeps
+// its own storage object, extracted text and tags. is_current marks the version
+// that is listed and searched; restoring an earlier version moves the mark.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ExistingFile } from "./dedup.ts";
+
+// The file an upload names as the document it is a new version of; null when it
+// does not exist, is in the trash or quarantine, or was unpacked from an archive
+export async function findVersionTarget(admin: SupabaseClient, fileId: number): Promise<ExistingFile | null> {
+  const { data, error } = await admin
+    .from("files")
+    .select("id, filename, file_type, size, status, storage_path, version_of, folder_id")
+    .eq("id", fileId)
+    .is("deleted_at", null)
+    .is("parent_id", null)
+    .neq("status", "quarantined")
+    .maybeSingle();
+  if (error) throw new Error(`Version lookup failed: ${error.message}`);
+  return data as ExistingFile | null;
+}
+
+// Ids of every version of the document, the root first
+export async function versionIds(admin: SupabaseClient, root: number): Promise<number[]> {
+  const { data, error } = await admin
+    .from("files")
+    .select("id")
+    .or(`id.eq.${root},version_of.eq.${root}`)
+    .order("version", { ascending: true });
+  if (error) throw new Error(`Version lookup failed: ${error.message}`);
+  return (data || []).map((row) => row.id as number);
+}
+
+// Makes fileId the version the document shows; the others stay in its history
+export async function makeCurrent(admin: SupabaseClient, root: number, fileId: number) {
+  const { error: clearErr } = await admin
+    .from("files")
+    .update({ is_current: false })
+    .or(`id.eq.${root},version_of.eq.${root}`)
+    .neq("id", fileId);
+  if (clearErr) throw new Error(`Version update failed: ${clearErr.message}`);
+  const { error: setErr } = await admin.from("files").update({ is_current: true }).eq("id", fileId);
+  if (setErr) throw new Error(`Version update failed: ${setErr.message}`);
+}
@@ -2,11 +2,14 @@
 // Analyzes file text content and automatically assigns relevant tags
 // 
 // Usage: POST /functions/v1/auto-tag-file
-// Body: { file_id: number, file_text: string }
+// Body: { file_id: number, file_text?: string, language?: string }
+//   file_text: defaults to the file's extracted text (file_content), e.g. to re-tag a processed file
+//   language: ISO 639-1 code; defaults to files.language (set when the file was processed)
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { STOP_WORDS } from "../_shared/language.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,12 +18,12 @@ const corsHeaders = {
 };
 
 // Advanced keyword extraction using RAKE-like algorithm (free alternative to OpenAI)
-function extractKeywordsAndTags(text: string): string[] {
+function extractKeywordsAndTags(text: string, language: string | null): string[] {
   if (!text || text.trim().length === 0) return [];
   
-  // Clean and normalize text
+  // Clean and normalize text (Unicode-aware so accented and umlaut words survive)
   const cleanText = text.toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
     .replace(/\s+/g, ' ')
     .trim();
   
@@ -28,6 +31,8 @@ function extractKeywordsAndTags(text: string): string[] {
   const stopWords = new Set([
     'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'can', 'shall', 'must', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'her', 'its', 'our', 'their'
   ]);
+  // Also drop the function words of the document's own language
+  for (const word of (language && STOP_WORDS[language]) || []) stopWords.add(word);
   
   // Extract words and filter
   const words = cleanText.split(' ')
@@ -227,11 +232,11 @@ serve(async (req: Request) => {
     }
 
     // Parse request body
-    const { file_id, file_text } = await req.json();
+    const { file_id, file_text, language } = await req.json();
     
-    if (!file_id || !file_text) {
+    if (!file_id) {
       return new Response(
-        JSON.stringify({ error: 'file_id and file_text are required' }), 
+        JSON.stringify({ error: 'file_id is required' }), 
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -239,15 +244,46 @@ serve(async (req: Request) => {
       );
     }
 
-    console.log(`Auto-tagging file ${file_id} with ${file_text.length} characters of text`);
-
     // Use admin client for database operations
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { 
       global: { fetch } 
     });
 
+    // Fall back to the text saved when the file was processed
+    let text: string | null = typeof file_text === 'string' && file_text ? file_text : null;
+    if (!text) {
+      const { data: contentRow } = await supabase
+        .from('file_content')
+        .select('indexed_text')
+        .eq('file_id', file_id)
+        .maybeSingle();
+      text = contentRow?.indexed_text ?? null;
+    }
+    if (!text) {
+      return new Response(
+        JSON.stringify({ error: 'File has no extracted text to tag' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    console.log(`Auto-tagging file ${file_id} with ${text.length} characters of text`);
+
+    // Fall back to the language detected when the file was processed
+    let documentLanguage: string | null = typeof language === 'string' ? language : null;
+    if (!documentLanguage) {
+      const { data: fileRow } = await supabase
+        .from('files')
+        .select('language')
+        .eq('id', file_id)
+        .maybeSingle();
+      documentLanguage = fileRow?.language ?? null;
+    }
+
     // Extract tags using free keyword extraction algorithm
-    const identifiedTags = extractKeywordsAndTags(file_text);
+    const identifiedTags = extractKeywordsAndTags(text, documentLanguage);
     
     console.log(`Identified tags: ${identifiedTags.join(', ')}`);
     
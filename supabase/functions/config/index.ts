@@ -0,0 +1,50 @@
+// Supabase Edge Function: config
+// Publishes the upload rules from _shared/limits.ts so the browser validates
+// files against the same source of truth as documents-upload and upload-sessions
+//
+// Usage:
+//   GET /functions/v1/config/limits
+//       -> { max_upload_size, types: [{ type, label, extensions, mime_types, max_bytes }], denied_extensions }
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { DENIED_EXTENSIONS, MAX_UPLOAD_SIZE, TYPE_LIMITS } from "../_shared/limits.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+};
+
+// The rules only change with a deploy
+const CACHE_MAX_AGE_SECONDS = 300;
+
+serve((req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  const path = new URL(req.url).pathname.replace(/\/+$/, "");
+  if (!path.endsWith("/limits")) {
+    return new Response(JSON.stringify({ error: "Not found", available: ["/config/limits"] }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      max_upload_size: MAX_UPLOAD_SIZE,
+      types: TYPE_LIMITS.map((limit) => ({
+        type: limit.type,
+        label: limit.label,
+        extensions: limit.extensions,
+        mime_types: limit.mimeTypes,
+        max_bytes: limit.maxBytes,
+      })),
+      denied_extensions: DENIED_EXTENSIONS,
+    }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": `public, max-age=${CACHE_MAX_AGE_SECONDS}` } },
+  );
+});
@@ -1,12 +1,13 @@
-// Supabase Edge Function: documents-upload (v1.1)
-// Handles multipart file uploads, stores in Storage, inserts DB metadata,
-// extracts text from PDFs (pdf.js) and images (OCR via Tesseract), and
-// saves extracted text into file_content linked by file_id.
+// Supabase Edge Function: documents-upload (v2.0)
+// Handles multipart file uploads, stores in Storage, inserts DB metadata with
+// status 'pending' and queues a processing_jobs row. Text extraction and
+// auto-tagging run asynchronously in the process-document function, which
+// moves the file through 'processing' to 'completed' or 'error'.
 //
 // Requirements (Supabase dashboard):
 // - Storage bucket: documents (private)
-// - Tables: files(id, user_id, filename, file_type, size, upload_date default now(), storage_path)
-//           file_content(id, file_id UNIQUE, indexed_text)
+// - Tables: files(id, user_id, filename, file_type, size, upload_date default now(), storage_path, status)
+//           processing_jobs(id, file_id, status, attempts, max_attempts, next_run_at, last_error)
 // - Function secrets set:
 //   SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY
 //
@@ -18,22 +19,41 @@
 // Invoke URL:
 //   https://<project-ref>.functions.supabase.co/documents-upload
 //   Accepts multipart/form-data with a single field named "file" and optional "user_id".
+//   Optional "ocr_languages": Tesseract codes such as "deu,fra" (or ISO codes "de,fr").
+//   Without it the script and language are detected while processing.
+//   Optional "preprocess" (images only): "none", "all" (default) or a comma list of
+//   rotate, deskew, denoise, contrast, binarize.
+//   Optional "on_duplicate": what to do when the same bytes were uploaded before
+//   (matched by SHA-256): "skip" (default), "link" or "version". The response's
+//   "outcome" is "created", "skipped", "linked" or "versioned".
+//   Optional "version_of": the id of a document this upload is a new version of.
+//   It becomes that document's current version whatever its content (on_duplicate
+//   does not apply); earlier versions stay in its history (see file-versions).
+//   Optional "relative_path": where the file sat inside a dropped folder, e.g.
+//   "Invoices/2024/march.pdf"; stored on the files row as relative_path.
+//   Optional "folder_id": the folder to file the upload into (see the folders
+//   function). The folders of relative_path are created below it, so the example
+//   above lands in <folder>/Invoices/2024. A new version stays in its document's folder.
+//   The whole file is read into memory; large files go through upload-sessions
+//   (resumable, chunked) instead.
+//   Files are checked against the rules in _shared/limits.ts (GET /config/limits):
+//   denied extensions, executable content, content that does not match the
+//   extension and per-type size limits are refused with 413/415 and a "code".
+//   ZIP, TAR and gzip archives are stored as one "archive" file; process-document
+//   then unpacks every entry into a file of its own (parent_id = the archive).
+//   EML and MBOX files are "email": the headers go into files.metadata, and each
+//   attachment (or each message of a mailbox) becomes a child file.
 
 import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
-// PDF text extraction
-// Using pdfjs-dist ESM build via esm.sh
-// Docs: https://github.com/mozilla/pdf.js/
-// Note: In edge runtime, worker is not used.
-import * as pdfjsLib from "https://esm.sh/pdfjs-dist@4.3.136/legacy/build/pdf.mjs";
-
-// Configure PDF.js for Deno environment
-pdfjsLib.GlobalWorkerOptions.workerSrc = "https://esm.sh/pdfjs-dist@4.3.136/legacy/build/pdf.worker.mjs";
-
-// Image OCR using Tesseract.js via esm.sh
-// This can be heavy; for production consider external OCR providers.
-import Tesseract from "https://esm.sh/tesseract.js@5.0.0";
+import { DUPLICATE_ACTIONS, findDuplicate, nextVersion, parseDuplicateAction, resolveDuplicate, sha256Hex } from "../_shared/dedup.ts";
+import { findFolder, folderForPath } from "../_shared/folders.ts";
+import { createFileAndQueue, ensureDocumentsBucket, parseRelativePath, storageKey } from "../_shared/ingest.ts";
+import { OCR_LANGUAGES, parseOcrLanguages } from "../_shared/language.ts";
+import { validateUpload } from "../_shared/limits.ts";
+import { PREPROCESS_STEPS, parsePreprocessOptions } from "../_shared/preprocess.ts";
+import { findVersionTarget } from "../_shared/versions.ts";
 
 const ALLOWED_ORIGINS = ["*"]; // Adjust for your domain for security
 
@@ -46,56 +66,6 @@ function corsHeaders(origin: string | null) {
   } as Record<string, string>;
 }
 
-function extFromName(name: string) {
-  const dot = name.lastIndexOf(".");
-  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : "";
-}
-
-function detectType(file: File) {
-  const ext = extFromName(file.name);
-  const t = (file.type || "").toLowerCase();
-  if (t.includes("pdf") || ext === "pdf") return "pdf";
-  if (["png", "jpg", "jpeg", "webp", "bmp", "tiff"].includes(ext) || t.startsWith("image/")) return "image";
-  return "other";
-}
-
-async function extractPdfText(bytes: Uint8Array): Promise<string> {
-  try {
-    const loadingTask = pdfjsLib.getDocument({ data: bytes, useSystemFonts: true, isEvalSupported: false });
-    const pdf = await loadingTask.promise;
-    const texts: string[] = [];
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const content = await page.getTextContent();
-      const pageText = content.items
-        .map((it: any) => (typeof it.str === "string" ? it.str : ""))
-        .join(" ");
-      texts.push(pageText);
-    }
-    return texts.join("\n").trim();
-  } catch (e) {
-    console.error("PDF extraction failed", e);
-    return "";
-  }
-}
-
-async function extractImageText(bytes: Uint8Array): Promise<string> {
-  try {
-    // Tesseract accepts blobs or URLs; create a Blob from bytes
-    const blob = new Blob([bytes]);
-    const res = await Tesseract.recognize(blob, "eng", {
-      // Hint: you can supply custom core/worker/lang paths if needed
-      // corePath: "https://cdn.jsdelivr.net/npm/tesseract.js-core@5/dist/tesseract-core.wasm.js",
-      // workerPath: "https://cdn.jsdelivr.net/npm/tesseract.js@5/dist/worker.min.js",
-      // langPath: "https://tessdata.projectnaptha.com/4.0.0"
-    });
-    return (res?.data?.text || "").trim();
-  } catch (e) {
-    console.error("Image OCR failed", e);
-    return "";
-  }
-}
-
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders(req.headers.get("origin")) });
@@ -135,115 +105,137 @@ serve(async (req: Request) => {
     const formData = await req.formData();
     const file = formData.get("file");
     const userId = (formData.get("user_id") as string) || null;
+    const ocrLanguages = parseOcrLanguages(formData.get("ocr_languages") as string | null);
+    const preprocess = parsePreprocessOptions(formData.get("preprocess") as string | null);
+    const onDuplicate = parseDuplicateAction(formData.get("on_duplicate") as string | null);
+    const relativePath = parseRelativePath(formData.get("relative_path") as string | null);
+    const versionOf = (formData.get("version_of") as string | null)?.trim() || null;
+    const folderId = (formData.get("folder_id") as string | null)?.trim() || null;
 
     if (!(file instanceof File)) {
       return new Response(JSON.stringify({ error: "Missing file field" }), { status: 400, headers: { ...headers, "Content-Type": "application/json" } });
     }
 
-    const fileBytes = new Uint8Array(await file.arrayBuffer());
-    const fileType = detectType(file);
-
-    // Ensure bucket exists
-    try {
-      await admin.storage.createBucket("documents", { public: false });
-    } catch (_e) {
-      // Ignore if already exists (409)
+    if (ocrLanguages.unknown.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `Unsupported OCR language(s): ${ocrLanguages.unknown.join(", ")}`,
+          supported: Object.values(OCR_LANGUAGES),
+        }),
+        { status: 400, headers: { ...headers, "Content-Type": "application/json" } },
+      );
     }
 
-    // Storage path: userId/yyyy-mm/<uuid>.<ext>
-    const now = new Date();
-    const y = now.getUTCFullYear();
-    const m = String(now.getUTCMonth() + 1).padStart(2, "0");
-    const ext = extFromName(file.name) || (fileType === "pdf" ? "pdf" : "bin");
-    const uuid = crypto.randomUUID();
-    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
-    const key = `${userId ?? "anon"}/${y}-${m}/${uuid}__${safeName}.${ext}`;
+    if (preprocess.unknown.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: `Unknown preprocessing step(s): ${preprocess.unknown.join(", ")}`,
+          supported: PREPROCESS_STEPS,
+        }),
+        { status: 400, headers: { ...headers, "Content-Type": "application/json" } },
+      );
+    }
 
-    const { error: uploadError } = await admin.storage
-      .from("documents")
-      .upload(key, fileBytes, { contentType: file.type || "application/octet-stream", upsert: false });
-    if (uploadError) {
-      console.error("Upload error", uploadError);
-      return new Response(JSON.stringify({ error: "Upload failed" }), { status: 500, headers: { ...headers, "Content-Type": "application/json" } });
+    if (!onDuplicate) {
+      return new Response(
+        JSON.stringify({ error: `Unknown on_duplicate value: ${formData.get("on_duplicate")}`, supported: DUPLICATE_ACTIONS }),
+        { status: 400, headers: { ...headers, "Content-Type": "application/json" } },
+      );
     }
 
-    // Insert metadata row
-    const { data: insertedFiles, error: insertFileErr } = await admin
-      .from("files")
-      .insert({
-        user_id: userId,
-        filename: file.name,
-        file_type: fileType,
-        size: file.size,
-        storage_path: key,
-      })
-      .select("id")
-      .limit(1);
+    if (relativePath.error) {
+      return new Response(JSON.stringify({ error: relativePath.error }), { status: 400, headers: { ...headers, "Content-Type": "application/json" } });
+    }
 
-    if (insertFileErr || !insertedFiles || insertedFiles.length === 0) {
-      console.error("DB insert error", insertFileErr);
-      return new Response(JSON.stringify({ error: "Failed to insert file metadata" }), { status: 500, headers: { ...headers, "Content-Type": "application/json" } });
+    if (versionOf && !/^\d+$/.test(versionOf)) {
+      return new Response(JSON.stringify({ error: "version_of must be a file id" }), { status: 400, headers: { ...headers, "Content-Type": "application/json" } });
+    }
+    const versionTarget = versionOf ? await findVersionTarget(admin, parseInt(versionOf)) : null;
+    if (versionOf && !versionTarget) {
+      return new Response(JSON.stringify({ error: `File ${versionOf} does not exist or cannot take new versions` }), { status: 404, headers: { ...headers, "Content-Type": "application/json" } });
     }
 
-    const fileId = insertedFiles[0].id as number;
+    if (folderId && !/^\d+$/.test(folderId)) {
+      return new Response(JSON.stringify({ error: "folder_id must be a folder id" }), { status: 400, headers: { ...headers, "Content-Type": "application/json" } });
+    }
+    if (folderId && !(await findFolder(admin, parseInt(folderId)))) {
+      return new Response(JSON.stringify({ error: `Folder ${folderId} not found` }), { status: 404, headers: { ...headers, "Content-Type": "application/json" } });
+    }
 
-    // Extract text for PDF or image
-    let extractedText = "";
-    if (fileType === "pdf") {
-      extractedText = await extractPdfText(fileBytes);
-    } else if (fileType === "image") {
-      extractedText = await extractImageText(fileBytes);
+    const fileBytes = new Uint8Array(await file.arrayBuffer());
+    const validation = validateUpload(file.name, file.type || null, file.size, fileBytes);
+    if (validation.rejection) {
+      const { status, code, error } = validation.rejection;
+      console.warn(`Rejected upload ${file.name}: ${code}`);
+      return new Response(JSON.stringify({ error, code }), { status, headers: { ...headers, "Content-Type": "application/json" } });
     }
+    const fileType = validation.fileType;
+    const contentHash = await sha256Hex(fileBytes);
 
-    // Fallback to filename (without extension) when no text extracted
-    const filenameNoExt = file.name.replace(/\.[^/.]+$/, "");
-    const textForIndex = (extractedText && extractedText.trim().length > 0) ? extractedText : filenameNoExt;
+    const existing = versionTarget ? null : await findDuplicate(admin, contentHash);
 
-    // Always insert into file_content so search works and tagging can run
-    try {
-      const { error: fcErr } = await admin
-        .from("file_content")
-        .insert({ file_id: fileId, indexed_text: textForIndex });
-      if (fcErr) {
-        console.error("file_content insert failed", fcErr);
+    if (existing && onDuplicate !== "version") {
+      try {
+        const body = await resolveDuplicate(admin, existing, onDuplicate, { filename: file.name, userId, contentHash });
+        return new Response(JSON.stringify(body), { status: 200, headers: { ...headers, "Content-Type": "application/json" } });
+      } catch (e) {
+        return new Response(JSON.stringify({ error: (e as Error).message }), { status: 500, headers: { ...headers, "Content-Type": "application/json" } });
       }
-    } catch (e) {
-      console.error("file_content insert exception", e);
     }
 
-    // Auto-tag the file using whatever text we have
+    const previous = versionTarget ?? existing;
+    const version = previous ? await nextVersion(admin, previous) : null;
+
+    await ensureDocumentsBucket(admin);
+
+    const key = storageKey(userId, file.name, fileType);
+
+    const { error: uploadError } = await admin.storage
+      .from("documents")
+      .upload(key, fileBytes, { contentType: file.type || "application/octet-stream", upsert: false });
+    if (uploadError) {
+      console.error("Upload error", uploadError);
+      return new Response(JSON.stringify({ error: "Upload failed" }), { status: 500, headers: { ...headers, "Content-Type": "application/json" } });
+    }
+
+    let queued: { fileId: number; jobId: number };
+    let folder: number | null;
     try {
-      console.log(`Starting auto-tagging for file ${fileId}`);
-      const tagResponse = await fetch(`${SUPABASE_URL}/functions/v1/auto-tag-file`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          file_id: fileId,
-          file_text: textForIndex
-        }),
+      folder = previous ? previous.folder_id : await folderForPath(admin, folderId ? parseInt(folderId) : null, relativePath.path);
+      queued = await createFileAndQueue(admin, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+        userId,
+        filename: file.name,
+        fileType,
+        size: file.size,
+        storagePath: key,
+        ocrLanguages: ocrLanguages.languages,
+        preprocess: preprocess.options,
+        contentHash,
+        version,
+        relativePath: relativePath.path,
+        folderId: folder,
+        parent: null,
       });
-      
-      if (tagResponse.ok) {
-        const tagResult = await tagResponse.json();
-        console.log(`Auto-tagging completed for file ${fileId}:`, tagResult);
-      } else {
-        console.error(`Auto-tagging failed for file ${fileId}:`, tagResponse.status);
-      }
-    } catch (tagError) {
-      console.error(`Auto-tagging error for file ${fileId}:`, tagError);
-      // Don't fail the upload if tagging fails
+    } catch (e) {
+      return new Response(JSON.stringify({ error: (e as Error).message }), { status: 500, headers: { ...headers, "Content-Type": "application/json" } });
     }
 
-
     return new Response(
       JSON.stringify({
         success: true,
-        file_id: fileId,
+        outcome: version ? "versioned" : "created",
+        duplicate_of: existing?.id ?? null,
+        version_of: version?.versionOf ?? null,
+        file_id: queued.fileId,
         storage_path: key,
-        extracted: extractedText ? true : false,
+        job_id: queued.jobId,
+        status: "pending",
+        ocr_languages: ocrLanguages.languages,
+        preprocess_options: fileType === "image" ? preprocess.options : null,
+        content_hash: contentHash,
+        version: version?.version ?? 1,
+        relative_path: relativePath.path,
+        folder_id: folder,
         bytes: file.size,
         file_type: fileType,
       }),
@@ -0,0 +1,290 @@
+// Supabase Edge Function: duplicate-clusters
+// Groups near-duplicate documents by their MinHash fingerprints (see
+// ../_shared/fingerprint.ts) and applies a reviewer's decision on a cluster
+//
+// Usage:
+//   GET  /functions/v1/duplicate-clusters?threshold=0.8
+//        -> clusters of files whose estimated text similarity is at least threshold (0.5-1)
+//   POST /functions/v1/duplicate-clusters
+//        Body: { action: "dismiss", file_ids: number[] }
+//        -> the files are no longer reported as duplicates of each other
+//        Body: { action: "merge", keep_id: number, merge_ids: number[] }
+//        -> merged files become aliases of keep_id: their names and tags move over,
+//           then their rows, extracted text and stored bytes are deleted, along with
+//           any entries unpacked from them. Trashed or quarantined files, and files
+//           with other versions, cannot be merged (409).
+// Versions of the same file (files.version_of) are never reported as duplicates.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { estimateSimilarity, lshBands } from "../_shared/fingerprint.ts";
+import { purgeFiles, type TrashedFile, withVersions } from "../_shared/trash.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const DEFAULT_THRESHOLD = 0.8;
+const MIN_THRESHOLD = 0.5;
+// Upper bound on fingerprints compared per request
+const MAX_FINGERPRINTS = 5000;
+
+interface FileSummary {
+  id: number;
+  filename: string;
+  file_type: string;
+  size: number;
+  upload_date: string;
+  status: string;
+  version_of: number | null;
+}
+
+const pairKey = (a: number, b: number) => a < b ? `${a}:${b}` : `${b}:${a}`;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const requestedThreshold = parseFloat(url.searchParams.get("threshold") || String(DEFAULT_THRESHOLD));
+      const threshold = Math.min(Math.max(isNaN(requestedThreshold) ? DEFAULT_THRESHOLD : requestedThreshold, MIN_THRESHOLD), 1);
+
+      const { data: fingerprints, error: fingerprintErr } = await admin
+        .from("file_fingerprints")
+        .select("file_id, minhash, files(id, filename, file_type, size, upload_date, status, version_of)")
+        // Trashed files come back without their files row and are skipped below
+        .is("files.deleted_at", null)
+        .order("file_id", { ascending: true })
+        .limit(MAX_FINGERPRINTS);
+
+      if (fingerprintErr) {
+        console.error("Fingerprint fetch error:", fingerprintErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch fingerprints", details: fingerprintErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const { data: dismissals, error: dismissalErr } = await admin
+        .from("duplicate_dismissals")
+        .select("file_id_a, file_id_b");
+
+      if (dismissalErr) {
+        console.error("Dismissal fetch error:", dismissalErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch dismissed pairs", details: dismissalErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const dismissed = new Set((dismissals || []).map((d) => pairKey(d.file_id_a, d.file_id_b)));
+      const signatures = new Map<number, number[]>();
+      const files = new Map<number, FileSummary>();
+      for (const row of fingerprints || []) {
+        const file = (Array.isArray(row.files) ? row.files[0] : row.files) as FileSummary | null;
+        if (!file) continue;
+        signatures.set(row.file_id, row.minhash as number[]);
+        files.set(row.file_id, file);
+      }
+
+      // Candidate pairs share at least one LSH band; only those are compared
+      const buckets = new Map<string, number[]>();
+      for (const [fileId, minhash] of signatures) {
+        for (const band of lshBands(minhash)) {
+          const bucket = buckets.get(band);
+          if (bucket) bucket.push(fileId);
+          else buckets.set(band, [fileId]);
+        }
+      }
+
+      const chainOf = (fileId: number) => files.get(fileId)!.version_of ?? fileId;
+      const pairs = new Map<string, { file_id_a: number; file_id_b: number; similarity: number }>();
+      for (const bucket of buckets.values()) {
+        for (let i = 0; i < bucket.length; i++) {
+          for (let j = i + 1; j < bucket.length; j++) {
+            const [a, b] = bucket[i] < bucket[j] ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+            const key = pairKey(a, b);
+            if (pairs.has(key) || dismissed.has(key) || chainOf(a) === chainOf(b)) continue;
+            const similarity = estimateSimilarity(signatures.get(a)!, signatures.get(b)!);
+            if (similarity >= threshold) pairs.set(key, { file_id_a: a, file_id_b: b, similarity });
+          }
+        }
+      }
+
+      // Union-find: files connected through matching pairs form one cluster
+      const parent = new Map<number, number>();
+      const find = (id: number): number => {
+        const p = parent.get(id) ?? id;
+        if (p === id) return id;
+        const root = find(p);
+        parent.set(id, root);
+        return root;
+      };
+      for (const pair of pairs.values()) {
+        const rootA = find(pair.file_id_a);
+        const rootB = find(pair.file_id_b);
+        if (rootA !== rootB) parent.set(Math.max(rootA, rootB), Math.min(rootA, rootB));
+      }
+
+      const clusters = new Map<number, { file_ids: Set<number>; pairs: { file_id_a: number; file_id_b: number; similarity: number }[] }>();
+      for (const pair of pairs.values()) {
+        const root = find(pair.file_id_a);
+        const cluster = clusters.get(root) ?? { file_ids: new Set<number>(), pairs: [] };
+        cluster.file_ids.add(pair.file_id_a).add(pair.file_id_b);
+        cluster.pairs.push(pair);
+        clusters.set(root, cluster);
+      }
+
+      const result = [...clusters.entries()]
+        .map(([root, cluster]) => ({
+          cluster_id: root,
+          similarity: Math.max(...cluster.pairs.map((pair) => pair.similarity)),
+          files: [...cluster.file_ids].sort((a, b) => a - b).map((id) => files.get(id)!),
+          pairs: cluster.pairs.sort((a, b) => b.similarity - a.similarity),
+        }))
+        .sort((a, b) => b.similarity - a.similarity);
+
+      return new Response(
+        JSON.stringify({ success: true, threshold, clusters: result, count: result.length }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const ids = (value: unknown): number[] =>
+      Array.isArray(value) ? [...new Set(value.filter((id): id is number => typeof id === "number"))] : [];
+
+    if (body?.action === "dismiss") {
+      const fileIds = ids(body.file_ids).sort((a, b) => a - b);
+      if (fileIds.length < 2) {
+        return new Response(JSON.stringify({ error: 'Body must include at least two "file_ids"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const rows = fileIds.flatMap((a, i) => fileIds.slice(i + 1).map((b) => ({ file_id_a: a, file_id_b: b })));
+      const { error: dismissErr } = await admin
+        .from("duplicate_dismissals")
+        .upsert(rows, { onConflict: "file_id_a,file_id_b", ignoreDuplicates: true });
+
+      if (dismissErr) {
+        console.error("Dismiss error:", dismissErr);
+        return new Response(JSON.stringify({ error: "Failed to dismiss duplicates", details: dismissErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, dismissed: rows.length }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    if (body?.action !== "merge") {
+      return new Response(JSON.stringify({ error: 'Body "action" must be "dismiss" or "merge"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const keepId = typeof body.keep_id === "number" ? body.keep_id : null;
+    const mergeIds = ids(body.merge_ids).filter((id) => id !== keepId);
+    if (keepId === null || mergeIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Body must include "keep_id" and "merge_ids"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: mergeFiles, error: mergeFetchErr } = await admin
+      .from("files")
+      .select("id, filename, user_id, status, storage_path, preprocessed_path, deleted_at, version_of")
+      .in("id", [keepId, ...mergeIds]);
+
+    if (mergeFetchErr) {
+      console.error("Merge fetch error:", mergeFetchErr);
+      return new Response(JSON.stringify({ error: "Failed to fetch files", details: mergeFetchErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (!(mergeFiles || []).some((file) => file.id === keepId)) {
+      return new Response(JSON.stringify({ error: `File ${keepId} not found` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const unavailable = (mergeFiles || []).find((file) => file.deleted_at || file.status === "quarantined");
+    if (unavailable) {
+      return new Response(JSON.stringify({ error: `${unavailable.filename} is ${unavailable.deleted_at ? "in the trash" : "quarantined"}` }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const merging = (mergeFiles || []).filter((file) => file.id !== keepId) as (TrashedFile & { user_id: string | null })[];
+    const mergingIds = merging.map((file) => file.id);
+    if (mergingIds.length === 0) {
+      return new Response(JSON.stringify({ error: "None of merge_ids were found" }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    // Deleting one version would orphan the rest of its history; such a file is deleted
+    // (trashed) as a whole document instead
+    try {
+      const versioned = (await withVersions(admin, merging)).find((row) => !mergingIds.includes(row.id));
+      if (versioned) {
+        const file = merging.find((row) => (row.version_of ?? row.id) === (versioned.version_of ?? versioned.id))!;
+        return new Response(JSON.stringify({ error: `${file.filename} has other versions and cannot be merged` }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+    } catch (e) {
+      console.error("Merge version check error:", e);
+      return new Response(JSON.stringify({ error: "Failed to fetch files", details: e instanceof Error ? e.message : String(e) }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    try {
+      // Names: the merged files and anything already linked to them become aliases of the kept file
+      const { error: aliasMoveErr } = await admin
+        .from("file_aliases")
+        .update({ file_id: keepId })
+        .in("file_id", mergingIds);
+      if (aliasMoveErr) throw new Error(`Alias move failed: ${aliasMoveErr.message}`);
+
+      const { error: aliasErr } = await admin
+        .from("file_aliases")
+        .insert(merging.map((file) => ({ file_id: keepId, filename: file.filename, user_id: file.user_id })));
+      if (aliasErr) throw new Error(`Alias insert failed: ${aliasErr.message}`);
+
+      // Tags: the kept file gets the union
+      const { data: tagRows, error: tagErr } = await admin
+        .from("file_tags")
+        .select("file_id, tag_id")
+        .in("file_id", [keepId, ...mergingIds]);
+      if (tagErr) throw new Error(`Tag fetch failed: ${tagErr.message}`);
+
+      const keptTags = new Set((tagRows || []).filter((row) => row.file_id === keepId).map((row) => row.tag_id));
+      const newTags = [...new Set((tagRows || []).filter((row) => row.file_id !== keepId).map((row) => row.tag_id))]
+        .filter((tagId) => !keptTags.has(tagId));
+      if (newTags.length > 0) {
+        const { error: tagInsertErr } = await admin
+          .from("file_tags")
+          .insert(newTags.map((tagId) => ({ file_id: keepId, tag_id: tagId })));
+        if (tagInsertErr) throw new Error(`Tag insert failed: ${tagInsertErr.message}`);
+      }
+
+      // Removed the way the trash purges: with their unpacked entries and all stored objects
+      await purgeFiles(admin, merging);
+    } catch (e) {
+      console.error("Merge error:", e);
+      return new Response(JSON.stringify({ error: "Failed to merge duplicates", details: e instanceof Error ? e.message : String(e) }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    console.log(`Merged files ${mergingIds.join(", ")} into ${keepId}`);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        keep_id: keepId,
+        merged: mergingIds,
+        skipped: mergeIds.filter((id) => !mergingIds.includes(id)),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
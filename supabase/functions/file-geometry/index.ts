@@ -0,0 +1,189 @@
+// Supabase Edge Function: file-geometry
+// Returns OCR word boxes and confidence for an image or the OCR'd pages of a PDF,
+// plus the file's overall OCR quality score
+//
+// Usage: GET /functions/v1/file-geometry?file_id=123&page=2&q=invoice+total
+//   page: one-based page number (omit for every OCR'd page; images are page 1)
+//   q:    optional search terms; each page then lists the matching words in "matches"
+// Box coordinates are pixels of the OCR'd image; scale by width/height to overlay them.
+// For preprocessed images that is the cleaned-up copy ("image": "preprocessed"), which
+// may be rotated or downscaled relative to the original.
+// Files in the trash are not found (404); quarantined files are refused (403) until an
+// admin releases them.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+// Files (and words) scoring below this are flagged as unreliable
+const LOW_CONFIDENCE_THRESHOLD = 60;
+
+interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: [number, number, number, number];
+}
+
+// Lowercase and strip surrounding punctuation so "Total:" matches "total"
+const normalizeWord = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({ error: "Supabase environment not configured" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Parse URL parameters
+    const url = new URL(req.url);
+    const fileId = parseInt(url.searchParams.get('file_id') || '');
+    const pageParam = url.searchParams.get('page');
+    const pageNumber = pageParam ? parseInt(pageParam) : null;
+    const terms = (url.searchParams.get('q') || '').split(/\s+/).map(normalizeWord).filter(Boolean);
+
+    if (isNaN(fileId) || (pageNumber !== null && (isNaN(pageNumber) || pageNumber < 1))) {
+      return new Response(
+        JSON.stringify({ error: 'Query parameter "file_id" is required and "page" must be a positive number' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { fetch },
+    });
+
+    console.log(`Fetching OCR geometry for file ${fileId}: page=${pageNumber ?? 'all'}`);
+
+    const { data: file, error: fileError } = await supabase
+      .from('files')
+      .select('id, status, ocr_confidence, preprocessed_path')
+      .eq('id', fileId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (fileError || !file) {
+      return new Response(
+        JSON.stringify({ error: 'File not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (file.status === 'quarantined') {
+      return new Response(
+        JSON.stringify({ error: 'File is quarantined' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    let query = supabase
+      .from('file_ocr_pages')
+      .select('page_number, width, height, confidence, word_count, words')
+      .eq('file_id', fileId)
+      .order('page_number', { ascending: true });
+    if (pageNumber !== null) query = query.eq('page_number', pageNumber);
+
+    const { data: pages, error: pagesError } = await query;
+
+    if (pagesError) {
+      console.error('Geometry fetch error:', pagesError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch OCR geometry', details: pagesError.message }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (pageNumber !== null && (!pages || pages.length === 0)) {
+      return new Response(
+        JSON.stringify({ error: `No OCR geometry for page ${pageNumber}` }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const score = file.ocr_confidence === null ? null : Number(file.ocr_confidence);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        file_id: fileId,
+        image: file.preprocessed_path ? 'preprocessed' : 'original',
+        quality: {
+          score,
+          reliable: score === null ? null : score >= LOW_CONFIDENCE_THRESHOLD,
+          threshold: LOW_CONFIDENCE_THRESHOLD,
+        },
+        pages: (pages || []).map(page => {
+          const words = (Array.isArray(page.words) ? page.words : []) as OcrWord[];
+          return {
+            page_number: page.page_number,
+            width: page.width,
+            height: page.height,
+            confidence: Number(page.confidence),
+            word_count: page.word_count,
+            low_confidence_words: words.filter(w => w.confidence < LOW_CONFIDENCE_THRESHOLD).length,
+            words,
+            ...(terms.length > 0
+              ? { matches: words.filter(w => terms.some(term => normalizeWord(w.text).includes(term))) }
+              : {}),
+          };
+        }),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,151 @@
+// Supabase Edge Function: file-images
+// Returns short-lived links to an uploaded image and its preprocessed copy so the
+// two can be compared, plus the preprocessing steps that were applied
+//
+// Usage: GET /functions/v1/file-images?file_id=123
+// "preprocessed" is null when the file was not preprocessed (or has not been processed yet).
+// Files in the trash are not found (404); quarantined files get no links (403) until
+// an admin releases them.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+// Seconds the signed image URLs stay valid
+const SIGNED_URL_TTL = 600;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({ error: "Supabase environment not configured" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const url = new URL(req.url);
+    const fileId = parseInt(url.searchParams.get('file_id') || '');
+
+    if (isNaN(fileId)) {
+      return new Response(
+        JSON.stringify({ error: 'Query parameter "file_id" is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { fetch },
+    });
+
+    const { data: file, error: fileError } = await supabase
+      .from('files')
+      .select('id, file_type, status, storage_path, preprocessed_path, preprocess_options, preprocessing_steps')
+      .eq('id', fileId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (fileError || !file) {
+      return new Response(
+        JSON.stringify({ error: 'File not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (file.status === 'quarantined') {
+      return new Response(
+        JSON.stringify({ error: 'File is quarantined' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (file.file_type !== 'image' || !file.storage_path) {
+      return new Response(
+        JSON.stringify({ error: 'File is not an image' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const paths = [file.storage_path, ...(file.preprocessed_path ? [file.preprocessed_path] : [])];
+    const { data: signed, error: signError } = await supabase.storage
+      .from('documents')
+      .createSignedUrls(paths, SIGNED_URL_TTL);
+
+    if (signError || !signed) {
+      console.error('Signed URL error:', signError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to create image links', details: signError?.message }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const urlFor = (path: string) => signed.find(entry => entry.path === path)?.signedUrl ?? null;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        file_id: fileId,
+        expires_in: SIGNED_URL_TTL,
+        original: { url: urlFor(file.storage_path) },
+        preprocessed: file.preprocessed_path
+          ? { url: urlFor(file.preprocessed_path), steps: file.preprocessing_steps }
+          : null,
+        options: file.preprocess_options,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
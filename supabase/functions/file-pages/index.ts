@@ -0,0 +1,160 @@
+// Supabase Edge Function: file-pages
+// Returns the stored text of a single document page
+//
+// Usage: GET /functions/v1/file-pages?file_id=123&page=4
+//   page: one-based page number (defaults to 1)
+// Files in the trash are not found (404); quarantined files are refused (403) until an
+// admin releases them.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({ error: "Supabase environment not configured" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Parse URL parameters
+    const url = new URL(req.url);
+    const fileId = parseInt(url.searchParams.get('file_id') || '');
+    const pageNumber = parseInt(url.searchParams.get('page') || '1');
+
+    if (isNaN(fileId) || isNaN(pageNumber) || pageNumber < 1) {
+      return new Response(
+        JSON.stringify({ error: 'Query parameters "file_id" and a positive "page" are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { fetch },
+    });
+
+    console.log(`Fetching page ${pageNumber} of file ${fileId}`);
+
+    const { data: file, error: fileError } = await supabase
+      .from('files')
+      .select('id, status')
+      .eq('id', fileId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (fileError || !file) {
+      return new Response(
+        JSON.stringify({ error: 'File not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (file.status === 'quarantined') {
+      return new Response(
+        JSON.stringify({ error: 'File is quarantined' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { data: page, error: pageError } = await supabase
+      .from('file_pages')
+      .select('page_number, page_text, text_source')
+      .eq('file_id', fileId)
+      .eq('page_number', pageNumber)
+      .maybeSingle();
+
+    if (pageError) {
+      console.error('Page fetch error:', pageError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch page', details: pageError.message }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { count, error: countError } = await supabase
+      .from('file_pages')
+      .select('*', { count: 'exact', head: true })
+      .eq('file_id', fileId);
+
+    if (countError) {
+      console.error('Page count error:', countError);
+    }
+
+    if (!page) {
+      return new Response(
+        JSON.stringify({ error: `Page ${pageNumber} not found`, page_count: count || 0 }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        file_id: fileId,
+        page_count: count || 0,
+        page: {
+          page_number: page.page_number,
+          text: page.page_text,
+          text_source: page.text_source,
+        },
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,177 @@
+// Supabase Edge Function: file-preview
+// Returns the first rows of a spreadsheet sheet (XLSX/CSV) as JSON
+//
+// Usage: GET /functions/v1/file-preview?file_id=123&sheet=Invoices&rows=20
+//   sheet: sheet name or zero-based index (defaults to the first sheet)
+//   rows:  number of data rows to return (default 20, max 100)
+// Files in the trash are not found (404); quarantined files are refused (403) until an
+// admin releases them.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+// process-document keeps this many rows per sheet in file_sheets.preview_rows
+const MAX_PREVIEW_ROWS = 100;
+const DEFAULT_PREVIEW_ROWS = 20;
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(
+        JSON.stringify({ error: "Supabase environment not configured" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Parse URL parameters
+    const url = new URL(req.url);
+    const fileId = parseInt(url.searchParams.get('file_id') || '');
+    const sheetParam = url.searchParams.get('sheet');
+    const requestedRows = parseInt(url.searchParams.get('rows') || String(DEFAULT_PREVIEW_ROWS));
+    const rowLimit = Math.min(Math.max(isNaN(requestedRows) ? DEFAULT_PREVIEW_ROWS : requestedRows, 1), MAX_PREVIEW_ROWS);
+
+    if (isNaN(fileId)) {
+      return new Response(
+        JSON.stringify({ error: 'Query parameter "file_id" is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { fetch },
+    });
+
+    console.log(`Previewing file ${fileId}: sheet=${sheetParam ?? 'first'}, rows=${rowLimit}`);
+
+    const { data: file, error: fileError } = await supabase
+      .from('files')
+      .select('id, status')
+      .eq('id', fileId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (fileError || !file) {
+      return new Response(
+        JSON.stringify({ error: 'File not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (file.status === 'quarantined') {
+      return new Response(
+        JSON.stringify({ error: 'File is quarantined' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { data: sheets, error: sheetsError } = await supabase
+      .from('file_sheets')
+      .select('sheet_index, name, headers, row_count, preview_rows')
+      .eq('file_id', fileId)
+      .order('sheet_index', { ascending: true });
+
+    if (sheetsError) {
+      console.error('Sheet fetch error:', sheetsError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to fetch sheet preview', details: sheetsError.message }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (!sheets || sheets.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No spreadsheet data found for this file' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Match the sheet by name first, then by index
+    const sheet = !sheetParam
+      ? sheets[0]
+      : sheets.find(s => s.name === sheetParam) ?? sheets.find(s => String(s.sheet_index) === sheetParam);
+
+    if (!sheet) {
+      return new Response(
+        JSON.stringify({ error: `Sheet "${sheetParam}" not found` }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const rows = (Array.isArray(sheet.preview_rows) ? sheet.preview_rows : []).slice(0, rowLimit);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        file_id: fileId,
+        sheets: sheets.map(s => ({ index: s.sheet_index, name: s.name, headers: s.headers, row_count: s.row_count })),
+        sheet: {
+          index: sheet.sheet_index,
+          name: sheet.name,
+          headers: sheet.headers,
+          row_count: sheet.row_count,
+        },
+        rows,
+        truncated: rows.length < sheet.row_count,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
\ No newline at end of file
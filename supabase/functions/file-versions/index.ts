@@ -0,0 +1,141 @@
+// Supabase Edge Function: file-versions
+// Lists the versions of a document, returns the text of one, and restores an earlier one
+//
+// Usage:
+//   GET  /functions/v1/file-versions?file_id=42
+//        -> every version of the document file 42 belongs to, oldest first, with the
+//           current one marked (is_current)
+//   GET  /functions/v1/file-versions?file_id=42&text=true
+//        -> the extracted text of file 42, cut at MAX_TEXT_LENGTH (truncated: true)
+//   POST /functions/v1/file-versions
+//        Body: { action: "restore", file_id: number }
+//        -> file 42 becomes the current version again; later versions stay in the history
+//
+// New versions are uploaded through documents-upload or upload-sessions with version_of.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { makeCurrent } from "../_shared/versions.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+// Characters of extracted text returned for viewing or comparing a version
+const MAX_TEXT_LENGTH = 200_000;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+
+    const url = new URL(req.url);
+    const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+    const rawId = req.method === "GET" ? url.searchParams.get("file_id") : body?.file_id;
+    const fileId = typeof rawId === "number" ? rawId : /^\d+$/.test(String(rawId ?? "")) ? parseInt(rawId) : NaN;
+
+    if (isNaN(fileId)) {
+      return new Response(JSON.stringify({ error: 'A numeric "file_id" is required' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    if (req.method === "POST" && body?.action !== "restore") {
+      return new Response(JSON.stringify({ error: 'Body must include "action": "restore"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: file, error: fileErr } = await admin
+      .from("files")
+      .select("id, filename, status, version, version_of, is_current, parent_id")
+      .eq("id", fileId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (fileErr || !file || file.parent_id !== null) {
+      return new Response(JSON.stringify({ error: `File ${fileId} not found` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const root = file.version_of ?? file.id;
+
+    if (req.method === "POST") {
+      if (file.status === "quarantined") {
+        return new Response(JSON.stringify({ error: "A quarantined version cannot be restored" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+      if (file.is_current) {
+        return new Response(JSON.stringify({ success: true, file_id: file.id, status: "current" }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      await makeCurrent(admin, root, file.id);
+      console.log(`Restored version ${file.version} (file ${file.id}) of ${file.filename}`);
+      return new Response(JSON.stringify({ success: true, file_id: file.id, version: file.version, status: "restored" }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (url.searchParams.get("text") === "true") {
+      const { data: content, error: contentErr } = await admin
+        .from("file_content")
+        .select("indexed_text")
+        .eq("file_id", file.id)
+        .maybeSingle();
+
+      if (contentErr) {
+        console.error("Version text fetch error:", contentErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch the text", details: contentErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const text = content?.indexed_text ?? null;
+      return new Response(
+        JSON.stringify({
+          success: true,
+          file_id: file.id,
+          version: file.version,
+          text: text === null ? null : text.slice(0, MAX_TEXT_LENGTH),
+          truncated: text !== null && text.length > MAX_TEXT_LENGTH,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const { data: versions, error: versionsErr } = await admin
+      .from("files")
+      .select("id, filename, file_type, size, upload_date, status, version, is_current, content_hash, file_content(file_id), file_tags(tags(tag_name))")
+      .or(`id.eq.${root},version_of.eq.${root}`)
+      .is("deleted_at", null)
+      .order("version", { ascending: true });
+
+    if (versionsErr) {
+      console.error("Versions fetch error:", versionsErr);
+      return new Response(JSON.stringify({ error: "Failed to fetch versions", details: versionsErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        file_id: file.id,
+        versions: (versions || []).map(({ file_content, file_tags, ...version }) => ({
+          ...version,
+          has_content: Array.isArray(file_content) ? file_content.length > 0 : !!file_content,
+          tags: Array.isArray(file_tags)
+            ? file_tags.map((ft) => (Array.isArray(ft.tags) ? ft.tags[0] : ft.tags)?.tag_name).filter(Boolean)
+            : [],
+        })),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -1,24 +1,626 @@
 // Supabase Edge Function: files
-// Fetches list of uploaded files with optional filtering and pagination
+// Fetches list of uploaded files with optional filtering and pagination, and
+// reads, renames, deletes and downloads single files
 // 
 // Usage: GET /functions/v1/files?limit=10&offset=0&search=query
+//   GET    /functions/v1/files/:id            -> { file }
+//   PATCH  /functions/v1/files/:id            { filename?, relative_path?, tags?, folder_id? } -> { file }
+//   DELETE /functions/v1/files/:id            moves the file and its unpacked entries to the
+//                                             trash (see the trash function)
+//   GET    /functions/v1/files/:id/download   -> { url, expires_in } (a short-lived signed link)
+//   POST   /functions/v1/files/:id/copy       { folder_id? } -> { file_id, job_id }; the copy is
+//                                             stored and processed like a new upload
+//   GET    /functions/v1/files/:id/history    -> { jobs } every processing job for the file,
+//                                             newest first, with the errors of each attempt
+//   POST   /functions/v1/files/:id/reprocess  -> { job_id } extracts, indexes and tags the file again
+// GET /files/:id also returns the full extracted text (text, cut at MAX_TEXT_LENGTH)
+// A rename must keep the extension: the file type was decided from it at upload
+// folder_id files the document into a folder (null: none); its versions and unpacked
+// entries move with it. A copy goes into the original's folder unless folder_id is given
+// folder=<folder id> lists the documents in that folder; with search, matches anywhere below it
+// Search results carry matching_pages: the page numbers whose own text matches
+// Optional filters on email headers (files.metadata.email): from=<part of the sender>,
+// sent_after=YYYY-MM-DD and sent_before=YYYY-MM-DD (both inclusive); id=<file id> returns that file only
+// Embedded metadata (files.metadata: pdf, exif, email) is filtered with repeatable meta= params:
+//   meta=pdf.author:smith                (contains, case-insensitive)
+//   meta=exif.captured_at>=2024-01-01    (dates; >= and <= are inclusive)
+// Quarantined files (see the quarantine function) and files in the trash are left out
+// Only the current version of a document is listed and searched; all_versions=true
+// includes earlier ones (see the file-versions function). GET /files/:id and id=
+// return the requested version whether or not it is current
+// Files unpacked from an archive are listed under it (children) rather than on
+// their own; search results include them directly, with parent_id set
 
 import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extFromName } from "../_shared/detect.ts";
+import { findFolder, folderWithDescendants } from "../_shared/folders.ts";
+import { createFileAndQueue, parseRelativePath, storageKey } from "../_shared/ingest.ts";
+import { parseMetaFilters } from "../_shared/metadata.ts";
+import { DEFAULT_PREPROCESS_OPTIONS } from "../_shared/preprocess.ts";
+import { startProcessing } from "../_shared/queue.ts";
+import { purgeAfter, trashFile, withDescendants, withVersions } from "../_shared/trash.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
 };
 
+// Seconds a download link stays valid
+const DOWNLOAD_URL_TTL = 60;
+const MAX_FILENAME_LENGTH = 255;
+const MAX_TAG_LENGTH = 50;
+// Characters of extracted text returned by GET /files/:id
+const MAX_TEXT_LENGTH = 200_000;
+
+// Signed link to the stored original; the download option makes the browser save it under its current name
+async function downloadFile(supabase: SupabaseClient, fileId: number): Promise<Response> {
+  const { data: file, error: fileError } = await supabase
+    .from('files')
+    .select('id, filename, status, storage_path')
+    .eq('id', fileId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (fileError || !file) {
+    return new Response(
+      JSON.stringify({ error: 'File not found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (file.status === 'quarantined') {
+    return new Response(
+      JSON.stringify({ error: 'File is quarantined' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from('documents')
+    .createSignedUrl(file.storage_path, DOWNLOAD_URL_TTL, { download: file.filename });
+
+  if (signError || !signed) {
+    console.error('Signed URL error:', signError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to create download link', details: signError?.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      file_id: file.id,
+      filename: file.filename,
+      url: signed.signedUrl,
+      expires_in: DOWNLOAD_URL_TTL,
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+// Checks a PATCH body; returns the columns to update, the new tag list (null leaves tags alone)
+// and the folder to move to (undefined leaves it alone)
+function parseUpdate(
+  body: unknown,
+  current: { filename: string; relative_path: string | null },
+): { error: string } | { changes: Record<string, string | null>; tags: string[] | null; folderId: number | null | undefined } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Body must be a JSON object' };
+  }
+  const input = body as Record<string, unknown>;
+  if (input.filename === undefined && input.relative_path === undefined && input.tags === undefined && input.folder_id === undefined) {
+    return { error: 'Body must include "filename", "relative_path", "tags" or "folder_id"' };
+  }
+  if (input.folder_id !== undefined && input.folder_id !== null && !Number.isInteger(input.folder_id)) {
+    return { error: 'folder_id must be a folder id or null' };
+  }
+
+  const changes: Record<string, string | null> = {};
+  let relativePath = current.relative_path;
+
+  if (input.relative_path !== undefined) {
+    if (input.relative_path !== null && typeof input.relative_path !== 'string') {
+      return { error: 'relative_path must be a string or null' };
+    }
+    const parsed = parseRelativePath(input.relative_path);
+    if (parsed.error) return { error: parsed.error };
+    relativePath = parsed.path;
+    changes.relative_path = relativePath;
+  }
+
+  if (input.filename !== undefined) {
+    const filename = typeof input.filename === 'string' ? input.filename.trim() : '';
+    if (!filename) return { error: 'filename must be a non-empty string' };
+    if (filename.length > MAX_FILENAME_LENGTH) return { error: `filename is longer than ${MAX_FILENAME_LENGTH} characters` };
+    if (/[/\\]|\p{Cc}/u.test(filename)) return { error: 'filename must not contain slashes or control characters' };
+    const ext = extFromName(current.filename);
+    if (extFromName(filename) !== ext) {
+      return { error: ext ? `Renaming cannot change the .${ext} extension` : 'Renaming cannot add an extension' };
+    }
+    changes.filename = filename;
+    // The path ends with the name, so it follows a rename unless it was set in the same request
+    if (input.relative_path === undefined && relativePath) {
+      const segments = relativePath.split('/');
+      if (segments[segments.length - 1] === current.filename) {
+        segments[segments.length - 1] = filename;
+        changes.relative_path = segments.join('/');
+      }
+    }
+  }
+
+  let tags: string[] | null = null;
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags) || input.tags.some((tag: unknown) => typeof tag !== 'string')) {
+      return { error: 'tags must be an array of strings' };
+    }
+    // Stored lower-case, as auto-tag-file does
+    tags = [...new Set<string>(input.tags.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+    const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH);
+    if (tooLong) return { error: `Tag "${tooLong}" is longer than ${MAX_TAG_LENGTH} characters` };
+  }
+
+  return { changes, tags, folderId: input.folder_id as number | null | undefined };
+}
+
+// Replaces the file's tags, creating any that do not exist yet
+async function replaceTags(supabase: SupabaseClient, fileId: number, tags: string[]) {
+  const { data: existing, error: findError } = tags.length > 0
+    ? await supabase.from('tags').select('id, tag_name').in('tag_name', tags)
+    : { data: [], error: null };
+  if (findError) throw new Error(`Tag lookup failed: ${findError.message}`);
+
+  const tagIds = (existing || []).map(tag => tag.id as number);
+  const missing = tags.filter(tag => !(existing || []).some(row => row.tag_name === tag));
+  if (missing.length > 0) {
+    const { data: created, error: createError } = await supabase
+      .from('tags')
+      .insert(missing.map(tag_name => ({ tag_name })))
+      .select('id');
+    if (createError) throw new Error(`Tag insert failed: ${createError.message}`);
+    tagIds.push(...(created || []).map(tag => tag.id as number));
+  }
+
+  const { error: unlinkError } = await supabase.from('file_tags').delete().eq('file_id', fileId);
+  if (unlinkError) throw new Error(`Tag unlink failed: ${unlinkError.message}`);
+  if (tagIds.length > 0) {
+    const { error: linkError } = await supabase
+      .from('file_tags')
+      .insert(tagIds.map(tagId => ({ file_id: fileId, tag_id: tagId })));
+    if (linkError) throw new Error(`Tag link failed: ${linkError.message}`);
+  }
+}
+
+async function updateFile(supabase: SupabaseClient, fileId: number, body: unknown): Promise<Response> {
+  const { data: file, error: fileError } = await supabase
+    .from('files')
+    .select('id, filename, relative_path, status, parent_id, folder_id, version_of, storage_path, preprocessed_path, deleted_at')
+    .eq('id', fileId)
+    .neq('status', 'quarantined')
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (fileError || !file) {
+    return new Response(
+      JSON.stringify({ error: 'File not found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const update = parseUpdate(body, file);
+  if ('error' in update) {
+    return new Response(
+      JSON.stringify({ error: update.error }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (update.folderId !== undefined) {
+    const error = file.parent_id !== null
+      ? { status: 400, message: 'Unpacked entries stay in their archive\'s folder' }
+      : update.folderId !== null && !(await findFolder(supabase, update.folderId))
+        ? { status: 404, message: `Folder ${update.folderId} not found` }
+        : null;
+    if (error) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: error.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+  }
+
+  try {
+    if (Object.keys(update.changes).length > 0) {
+      const { error: updateError } = await supabase.from('files').update(update.changes).eq('id', fileId);
+      if (updateError) throw new Error(`File update failed: ${updateError.message}`);
+    }
+    if (update.tags) {
+      await replaceTags(supabase, fileId, update.tags);
+    }
+    if (update.folderId !== undefined) {
+      // The document moves as a whole, as it is trashed as a whole
+      const ids = (await withDescendants(supabase, await withVersions(supabase, [file]))).map(row => row.id);
+      const { error: moveError } = await supabase.from('files').update({ folder_id: update.folderId }).in('id', ids);
+      if (moveError) throw new Error(`File move failed: ${moveError.message}`);
+    }
+  } catch (e) {
+    console.error(`Updating file ${fileId} failed:`, e);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update file', details: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  console.log(`Updated file ${fileId}: ${[...Object.keys(update.changes), ...(update.tags ? ['tags'] : []), ...(update.folderId !== undefined ? ['folder_id'] : [])].join(', ')}`);
+  return new Response(
+    JSON.stringify({
+      success: true,
+      file: {
+        id: fileId,
+        filename: update.changes.filename ?? file.filename,
+        relative_path: update.changes.relative_path !== undefined ? update.changes.relative_path : file.relative_path,
+        folder_id: update.folderId !== undefined ? update.folderId : file.folder_id,
+        tags: update.tags,
+      },
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+// Copies a document into a folder as a new, separate document. The stored object is
+// copied and the copy is processed like a new upload, so it gets its own text and tags.
+async function copyFile(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  fileId: number,
+  body: unknown,
+): Promise<Response> {
+  const { data: file, error: fileError } = await supabase
+    .from('files')
+    .select('id, user_id, filename, file_type, size, storage_path, status, ocr_languages, preprocess_options, content_hash, relative_path, folder_id')
+    .eq('id', fileId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (fileError || !file) {
+    return new Response(
+      JSON.stringify({ error: 'File not found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const folderId = input.folder_id === undefined ? file.folder_id : input.folder_id;
+  const error = file.status === 'quarantined'
+    ? { status: 403, message: 'File is quarantined' }
+    : folderId !== null && !Number.isInteger(folderId)
+      ? { status: 400, message: 'folder_id must be a folder id or null' }
+      : folderId !== null && !(await findFolder(supabase, folderId as number))
+        ? { status: 404, message: `Folder ${folderId} not found` }
+        : null;
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const key = storageKey(file.user_id, file.filename, file.file_type);
+    const { error: copyError } = await supabase.storage.from('documents').copy(file.storage_path, key);
+    if (copyError) throw new Error(`Storage copy failed: ${copyError.message}`);
+
+    const queued = await createFileAndQueue(supabase, supabaseUrl, serviceRoleKey, {
+      userId: file.user_id,
+      filename: file.filename,
+      fileType: file.file_type,
+      size: file.size,
+      storagePath: key,
+      ocrLanguages: file.ocr_languages ?? [],
+      preprocess: file.preprocess_options ?? DEFAULT_PREPROCESS_OPTIONS,
+      contentHash: file.content_hash,
+      version: null,
+      relativePath: file.relative_path,
+      folderId: folderId as number | null,
+      parent: null,
+    });
+
+    console.log(`Copied file ${file.id} (${file.filename}) to file ${queued.fileId}`);
+    return new Response(
+      JSON.stringify({ success: true, file_id: queued.fileId, job_id: queued.jobId, copy_of: file.id, folder_id: folderId, status: 'pending' }),
+      {
+        status: 201,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (e) {
+    console.error(`Copying file ${fileId} failed:`, e);
+    return new Response(
+      JSON.stringify({ error: 'Failed to copy file', details: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
+
+// The file's processing jobs, newest first; a job keeps one error row per failed attempt
+async function fileHistory(supabase: SupabaseClient, fileId: number): Promise<Response> {
+  const { data: file, error: fileError } = await supabase
+    .from('files')
+    .select('id')
+    .eq('id', fileId)
+    .neq('status', 'quarantined')
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (fileError || !file) {
+    return new Response(
+      JSON.stringify({ error: 'File not found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('processing_jobs')
+    .select('id, status, attempts, max_attempts, failed_step, last_error, created_at, started_at, finished_at, processing_job_errors(attempt, step, error, created_at)')
+    .eq('file_id', fileId)
+    .order('created_at', { ascending: false });
+
+  if (jobsError) {
+    console.error('Processing history fetch error:', jobsError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch processing history', details: jobsError.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      file_id: fileId,
+      jobs: (jobs || []).map(({ processing_job_errors, ...job }) => ({
+        ...job,
+        errors: [...(processing_job_errors || [])]
+          .sort((a, b) => a.attempt - b.attempt || a.created_at.localeCompare(b.created_at)),
+      })),
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+// Queues the file to be processed again from its stored original, e.g. after the
+// extractors improved. The text, pages and tags are replaced; unpacked entries that
+// already exist are kept rather than stored twice.
+async function reprocessFile(supabase: SupabaseClient, supabaseUrl: string, serviceRoleKey: string, fileId: number): Promise<Response> {
+  const { data: file, error: fileError } = await supabase
+    .from('files')
+    .select('id, filename, status')
+    .eq('id', fileId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (fileError || !file) {
+    return new Response(
+      JSON.stringify({ error: 'File not found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const { count: active, error: activeError } = await supabase
+    .from('processing_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('file_id', fileId)
+    .in('status', ['queued', 'running']);
+  if (activeError) console.error('Processing job lookup error:', activeError);
+
+  // A quarantined file is released through the quarantine function, which needs an admin
+  const error = file.status === 'quarantined'
+    ? { status: 403, message: 'File is quarantined' }
+    : active
+      ? { status: 409, message: 'File is already being processed' }
+      : null;
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('processing_jobs')
+    .insert({ file_id: file.id })
+    .select('id')
+    .single();
+
+  if (jobError || !job) {
+    console.error('processing_jobs insert error:', jobError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to queue file for processing', details: jobError?.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  await supabase.from('files').update({ status: 'pending', error_message: null }).eq('id', file.id);
+  console.log(`Re-processing file ${file.id} (${file.filename}) as job ${job.id}`);
+  startProcessing(supabaseUrl, serviceRoleKey, job.id);
+
+  return new Response(
+    JSON.stringify({ success: true, file_id: file.id, job_id: job.id, status: 'pending' }),
+    {
+      status: 202,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+// Moves the file to the trash along with its other versions and the entries unpacked
+// from them; the trash function restores it or deletes it for good. Quarantined files
+// are deleted through the quarantine function, which needs an admin.
+async function deleteFile(supabase: SupabaseClient, fileId: number): Promise<Response> {
+  const { data: file, error: fileError } = await supabase
+    .from('files')
+    .select('id, filename, status, storage_path, preprocessed_path, deleted_at, version_of')
+    .eq('id', fileId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (fileError || !file) {
+    return new Response(
+      JSON.stringify({ error: 'File not found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (file.status === 'quarantined') {
+    return new Response(
+      JSON.stringify({ error: 'File is quarantined; an admin can delete it from quarantine' }),
+      {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const deletedAt = await trashFile(supabase, file);
+    console.log(`Moved file ${file.id} (${file.filename}) to the trash`);
+    return new Response(
+      JSON.stringify({ success: true, file_id: file.id, deleted_at: deletedAt, purge_after: purgeAfter(deletedAt) }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (e) {
+    console.error(`Deleting file ${fileId} failed:`, e);
+    return new Response(
+      JSON.stringify({ error: 'Failed to delete file', details: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
+
+// A files row (with the relations selected by the list query) as the list and search return it
+function formatFile(file: any) {
+  const content = Array.isArray(file.file_content)
+    ? file.file_content[0]?.indexed_text
+    : file.file_content?.indexed_text;
+  const tags = Array.isArray(file.file_tags)
+    ? file.file_tags.map((ft) => ft?.tags?.tag_name).filter(Boolean)
+    : [];
+  const sheets = Array.isArray(file.file_sheets)
+    ? [...file.file_sheets].sort((a, b) => a.sheet_index - b.sheet_index)
+    : [];
+  const pages = Array.isArray(file.file_pages) ? file.file_pages : [];
+  return {
+    id: file.id,
+    filename: file.filename,
+    file_type: file.file_type,
+    size: file.size,
+    upload_date: file.upload_date,
+    storage_path: file.storage_path,
+    user_id: file.user_id,
+    status: file.status,
+    error_message: file.error_message,
+    processed_at: file.processed_at,
+    language: file.language,
+    ocr_languages: file.ocr_languages,
+    ocr_confidence: file.ocr_confidence === null ? null : Number(file.ocr_confidence),
+    preprocessed_path: file.preprocessed_path,
+    preprocessing_steps: file.preprocessing_steps,
+    content_hash: file.content_hash,
+    version: file.version,
+    version_of: file.version_of,
+    is_current: file.is_current,
+    has_versions: !!file.version_of || (Array.isArray(file.versions) && file.versions.length > 0),
+    relative_path: file.relative_path,
+    folder_id: file.folder_id,
+    parent_id: file.parent_id,
+    archive_summary: file.archive_summary,
+    metadata: file.metadata,
+    parent: file.parent,
+    children: Array.isArray(file.children)
+      ? [...file.children].sort((a, b) => String(a.relative_path).localeCompare(String(b.relative_path)))
+      : [],
+    aliases: Array.isArray(file.file_aliases) ? file.file_aliases.map(alias => alias.filename) : [],
+    has_content: !!content,
+    content_preview: content ? String(content).substring(0, 150) + '...' : null,
+    tags,
+    sheets: sheets.map(({ name, headers, row_count }) => ({ name, headers, row_count })),
+    page_count: pages.length || null,
+    ocr_pages: pages.filter(p => p.text_source === 'ocr').map(p => p.page_number).sort((a, b) => a - b),
+  };
+}
+
 serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
-  if (req.method !== 'GET') {
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(req.method)) {
     return new Response(
       JSON.stringify({ error: 'Method not allowed' }), 
       { 
@@ -42,15 +644,111 @@ serve(async (req: Request) => {
       );
     }
 
-    // Parse URL parameters
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      global: { fetch },
+    });
+
+    // Parse URL parameters: /files, /files/:id, or /files/:id/download, copy, history or reprocess
     const url = new URL(req.url);
+    const route = url.pathname.replace(/\/+$/, '').match(/\/files(?:\/(\d+)(?:\/(download|copy|history|reprocess))?)?$/);
+    if (!route) {
+      return new Response(
+        JSON.stringify({ error: 'Not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    const routeId = route[1] ? parseInt(route[1]) : null;
+
+    const allowed = route[2] === 'copy' || route[2] === 'reprocess' ? ['POST'] : routeId === null || route[2] ? ['GET'] : ['GET', 'PATCH', 'DELETE'];
+    if (!allowed.includes(req.method)) {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    if (routeId !== null && route[2] === 'download') return await downloadFile(supabase, routeId);
+    if (routeId !== null && route[2] === 'copy') {
+      return await copyFile(supabase, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, routeId, await req.json().catch(() => null));
+    }
+    if (routeId !== null && route[2] === 'history') return await fileHistory(supabase, routeId);
+    if (routeId !== null && route[2] === 'reprocess') {
+      return await reprocessFile(supabase, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, routeId);
+    }
+    if (routeId !== null && req.method === 'PATCH') return await updateFile(supabase, routeId, await req.json().catch(() => null));
+    if (routeId !== null && req.method === 'DELETE') return await deleteFile(supabase, routeId);
+
     const limit = parseInt(url.searchParams.get('limit') || '50');
     const offset = parseInt(url.searchParams.get('offset') || '0');
-    const searchQuery = url.searchParams.get('search');
+    // GET /files/:id is the list narrowed to that one file
+    const searchQuery = routeId === null ? url.searchParams.get('search') : null;
+    const fileId = routeId !== null ? String(routeId) : url.searchParams.get('id');
+    const sender = url.searchParams.get('from')?.trim();
+    const sentAfter = url.searchParams.get('sent_after');
+    const sentBefore = url.searchParams.get('sent_before');
+    const metaFilters = parseMetaFilters(url.searchParams.getAll('meta'));
+    const currentOnly = !fileId && url.searchParams.get('all_versions') !== 'true';
+    const folder = url.searchParams.get('folder');
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-      global: { fetch },
-    });
+    for (const [name, value] of [['sent_after', sentAfter], ['sent_before', sentBefore]]) {
+      if (value && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+        return new Response(
+          JSON.stringify({ error: `${name} must be a date (YYYY-MM-DD)` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    }
+    if (metaFilters.error) {
+      return new Response(
+        JSON.stringify({ error: metaFilters.error }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    if (fileId && !/^\d+$/.test(fileId)) {
+      return new Response(
+        JSON.stringify({ error: 'id must be a file id' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    if (folder && !/^\d+$/.test(folder)) {
+      return new Response(
+        JSON.stringify({ error: 'folder must be a folder id' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Searching a folder also searches its subfolders
+    const folderIds = folder && routeId === null
+      ? (searchQuery && searchQuery.trim() ? await folderWithDescendants(supabase, parseInt(folder)) : [parseInt(folder)])
+      : null;
+
+    // Email dates are stored as UTC ISO strings, so a date range is a string range
+    const filters: [string, string, string][] = [];
+    if (fileId) filters.push(['id', 'eq', fileId]);
+    if (sender) filters.push(['metadata->email->>from', 'ilike', `%${sender}%`]);
+    if (sentAfter) filters.push(['metadata->email->>date', 'gte', sentAfter]);
+    if (sentBefore) {
+      const dayAfter = new Date(Date.parse(sentBefore) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      filters.push(['metadata->email->>date', 'lt', dayAfter]);
+    }
+    filters.push(...metaFilters.filters);
 
     console.log(`Fetching files: limit=${limit}, offset=${offset}, search=${searchQuery || 'none'}`);
 
@@ -65,6 +763,43 @@ serve(async (req: Request) => {
         upload_date,
         storage_path,
         user_id,
+        status,
+        error_message,
+        processed_at,
+        language,
+        ocr_languages,
+        ocr_confidence,
+        preprocessed_path,
+        preprocessing_steps,
+        content_hash,
+        version,
+        version_of,
+        is_current,
+        relative_path,
+        folder_id,
+        parent_id,
+        archive_summary,
+        metadata,
+        parent:files!parent_id (
+          id,
+          filename,
+          file_type
+        ),
+        children:files!files_parent_id_fkey (
+          id,
+          filename,
+          file_type,
+          size,
+          status,
+          error_message,
+          relative_path
+        ),
+        versions:files!files_version_of_fkey (
+          id
+        ),
+        file_aliases (
+          filename
+        ),
         file_content (
           indexed_text,
           search_vector
@@ -73,8 +808,21 @@ serve(async (req: Request) => {
           tags (
             tag_name
           )
+        ),
+        file_sheets (
+          sheet_index,
+          name,
+          headers,
+          row_count
+        ),
+        file_pages (
+          page_number,
+          text_source
         )
       `)
+      .neq('status', 'quarantined')
+      .is('deleted_at', null)
+      .is('children.deleted_at', null)
       .order('upload_date', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -84,10 +832,9 @@ serve(async (req: Request) => {
       
       try {
         // 1) Match by content using Full-Text Search (websearch), then fallback to ILIKE for partials
+        // search_file_content queries each document with its own language's text-search config
         const { data: contentMatchesWeb, error: contentErrWeb } = await supabase
-          .from('file_content')
-          .select('file_id')
-          .textSearch('search_vector', searchTerm, { type: 'websearch', config: 'english' });
+          .rpc('search_file_content', { p_query: searchTerm });
 
         let contentMatches = contentMatchesWeb || [];
         if (contentErrWeb) {
@@ -106,11 +853,43 @@ serve(async (req: Request) => {
           }
         }
 
-        // 2) Match by filename (ILIKE)
-        const { data: filenameMatches, error: filenameErr } = await supabase
+        // 2) Match individual pages the same way, so each result can say where the hit is
+        const { data: pageMatchesWeb, error: pageErrWeb } = await supabase
+          .rpc('search_file_pages', { p_query: searchTerm });
+
+        let pageMatches = pageMatchesWeb || [];
+        if (pageErrWeb) {
+          console.error('Page websearch error:', pageErrWeb);
+        }
+
+        if (!pageMatches.length) {
+          const { data: pageMatchesIlike, error: pageErrIlike } = await supabase
+            .from('file_pages')
+            .select('file_id, page_number')
+            .ilike('page_text', `%${searchTerm}%`);
+          if (pageErrIlike) {
+            console.error('Page ILIKE error:', pageErrIlike);
+          } else {
+            pageMatches = pageMatchesIlike || [];
+          }
+        }
+
+        const matchingPages = new Map<number, number[]>();
+        for (const match of pageMatches) {
+          const pages = matchingPages.get(match.file_id) || [];
+          pages.push(match.page_number);
+          matchingPages.set(match.file_id, pages);
+        }
+
+        // 3) Match by filename (ILIKE)
+        let filenameQuery = supabase
           .from('files')
           .select('id')
+          .neq('status', 'quarantined')
+          .is('deleted_at', null)
           .ilike('filename', `%${searchTerm}%`);
+        if (currentOnly) filenameQuery = filenameQuery.eq('is_current', true);
+        const { data: filenameMatches, error: filenameErr } = await filenameQuery;
         if (filenameErr) {
           console.error('Filename search error:', filenameErr);
         }
@@ -118,7 +897,37 @@ serve(async (req: Request) => {
         // Combine and de-duplicate IDs
         const contentIds = new Set((contentMatches || []).map((r: any) => r.file_id));
         const filenameIds = new Set((filenameMatches || []).map((r: any) => r.id));
-        const allIds = Array.from(new Set([...contentIds, ...filenameIds])) as number[];
+        let allIds = Array.from(new Set([...contentIds, ...matchingPages.keys(), ...filenameIds])) as number[];
+
+        // Header filters narrow the matches before they are paged, and trashed,
+        // quarantined or superseded content matches drop out so the total is right
+        if (allIds.length > 0) {
+          let filterQuery = supabase
+            .from('files')
+            .select('id')
+            .in('id', allIds)
+            .neq('status', 'quarantined')
+            .is('deleted_at', null);
+          if (currentOnly) filterQuery = filterQuery.eq('is_current', true);
+          if (folderIds) filterQuery = filterQuery.in('folder_id', folderIds);
+          for (const [column, operator, value] of filters) {
+            filterQuery = filterQuery.filter(column, operator, value);
+          }
+          const { data: filteredRows, error: filterErr } = await filterQuery;
+          // Without the filter the matches could include trashed or quarantined files
+          if (filterErr) {
+            console.error('Filter error:', filterErr);
+            return new Response(
+              JSON.stringify({ error: 'Failed to search files', details: filterErr.message }),
+              {
+                status: 500,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              }
+            );
+          }
+          const kept = new Set((filteredRows || []).map(r => r.id));
+          allIds = allIds.filter(id => kept.has(id));
+        }
 
         const totalMatches = allIds.length;
 
@@ -145,7 +954,7 @@ serve(async (req: Request) => {
         // Pagination over matched IDs
         const pageIds = allIds.slice(offset, offset + limit);
 
-        // 3) Fetch page of files with joined content and tags
+        // 4) Fetch page of files with joined content and tags
         const { data: pageFiles, error: pageErr } = await supabase
           .from('files')
           .select(`
@@ -156,6 +965,43 @@ serve(async (req: Request) => {
             upload_date,
             storage_path,
             user_id,
+            status,
+            error_message,
+            processed_at,
+            language,
+            ocr_languages,
+            ocr_confidence,
+            preprocessed_path,
+            preprocessing_steps,
+            content_hash,
+            version,
+            version_of,
+            is_current,
+            relative_path,
+            folder_id,
+            parent_id,
+            archive_summary,
+            metadata,
+            parent:files!parent_id (
+              id,
+              filename,
+              file_type
+            ),
+            children:files!files_parent_id_fkey (
+              id,
+              filename,
+              file_type,
+              size,
+              status,
+              error_message,
+              relative_path
+            ),
+            versions:files!files_version_of_fkey (
+              id
+            ),
+            file_aliases (
+              filename
+            ),
             file_content (
               indexed_text
             ),
@@ -163,9 +1009,22 @@ serve(async (req: Request) => {
               tags (
                 tag_name
               )
+            ),
+            file_sheets (
+              sheet_index,
+              name,
+              headers,
+              row_count
+            ),
+            file_pages (
+              page_number,
+              text_source
             )
           `)
           .in('id', pageIds)
+          .neq('status', 'quarantined')
+          .is('deleted_at', null)
+          .is('children.deleted_at', null)
           .order('upload_date', { ascending: false });
 
         if (pageErr) {
@@ -179,26 +1038,10 @@ serve(async (req: Request) => {
           );
         }
 
-        const formattedFiles = (pageFiles || []).map(file => {
-          const content = Array.isArray(file.file_content)
-            ? file.file_content[0]?.indexed_text
-            : file.file_content?.indexed_text;
-          const tags = Array.isArray(file.file_tags)
-            ? file.file_tags.map((ft: any) => ft?.tags?.tag_name).filter(Boolean)
-            : [];
-          return {
-            id: file.id,
-            filename: file.filename,
-            file_type: file.file_type,
-            size: file.size,
-            upload_date: file.upload_date,
-            storage_path: file.storage_path,
-            user_id: file.user_id,
-            has_content: !!content,
-            content_preview: content ? String(content).substring(0, 150) + '...' : null,
-            tags,
-          };
-        });
+        const formattedFiles = (pageFiles || []).map(file => ({
+          ...formatFile(file),
+          matching_pages: (matchingPages.get(file.id) || []).sort((a, b) => a - b),
+        }));
 
         return new Response(
           JSON.stringify({
@@ -224,6 +1067,16 @@ serve(async (req: Request) => {
       }
     }
 
+    // The unfiltered list shows archive entries and attachments only inside their parent
+    for (const [column, operator, value] of filters) {
+      query = query.filter(column, operator, value);
+    }
+    if ((!searchQuery || !searchQuery.trim()) && filters.length === 0) {
+      query = query.is('parent_id', null);
+    }
+    if (currentOnly) query = query.eq('is_current', true);
+    if (folderIds) query = query.in('folder_id', folderIds);
+
     const { data: files, error: filesError } = await query;
 
     if (filesError) {
@@ -240,12 +1093,21 @@ serve(async (req: Request) => {
     // Get total count for pagination
     let countQuery = supabase
       .from('files')
-      .select('*', { count: 'exact', head: true });
+      .select('*', { count: 'exact', head: true })
+      .neq('status', 'quarantined')
+      .is('deleted_at', null);
 
     if (searchQuery && searchQuery.trim()) {
       const searchTerm = searchQuery.trim();
       countQuery = countQuery.ilike('filename', `%${searchTerm}%`);
+    } else if (filters.length === 0) {
+      countQuery = countQuery.is('parent_id', null);
+    }
+    for (const [column, operator, value] of filters) {
+      countQuery = countQuery.filter(column, operator, value);
     }
+    if (currentOnly) countQuery = countQuery.eq('is_current', true);
+    if (folderIds) countQuery = countQuery.in('folder_id', folderIds);
 
     const { count, error: countError } = await countQuery;
 
@@ -254,26 +1116,38 @@ serve(async (req: Request) => {
     }
 
     // Transform results
-    const formattedFiles = (files || []).map(file => {
+    const formattedFiles = (files || []).map(formatFile);
+
+    if (routeId !== null) {
+      if (formattedFiles.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'File not found' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+      const file = files![0];
       const content = Array.isArray(file.file_content)
         ? file.file_content[0]?.indexed_text
         : file.file_content?.indexed_text;
-      const tags = Array.isArray(file.file_tags)
-        ? file.file_tags.map((ft: any) => ft?.tags?.tag_name).filter(Boolean)
-        : [];
-      return {
-        id: file.id,
-        filename: file.filename,
-        file_type: file.file_type,
-        size: file.size,
-        upload_date: file.upload_date,
-        storage_path: file.storage_path,
-        user_id: file.user_id,
-        has_content: !!content,
-        content_preview: content ? String(content).substring(0, 150) + '...' : null,
-        tags,
-      };
-    });
+      const text = content ? String(content) : null;
+      return new Response(
+        JSON.stringify({
+          success: true,
+          file: {
+            ...formattedFiles[0],
+            text: text === null ? null : text.slice(0, MAX_TEXT_LENGTH),
+            text_truncated: text !== null && text.length > MAX_TEXT_LENGTH,
+          },
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
 
     console.log(`Retrieved ${formattedFiles.length} files (total: ${count || 'unknown'})`);
 
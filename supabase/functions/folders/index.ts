@@ -0,0 +1,152 @@
+// Supabase Edge Function: folders
+// Lists, creates, renames, moves and deletes the folders documents are filed into
+//
+// Usage:
+//   GET    /functions/v1/folders
+//          -> every folder (id, name, parent_id) with the number of documents directly in it;
+//             the client builds the tree from parent_id
+//   POST   /functions/v1/folders        { name, parent_id? } -> { folder }
+//   PATCH  /functions/v1/folders/:id    { name?, parent_id? } -> { folder }
+//          parent_id moves the folder, with everything in it; null makes it top-level
+//   DELETE /functions/v1/folders/:id    only an empty folder can be deleted
+//
+// Documents are filed with PATCH /files/:id { folder_id } or uploaded straight into a
+// folder (folder_id on documents-upload and upload-sessions).
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findFolder, findSibling, folderWithDescendants, parseFolderName } from "../_shared/folders.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+};
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+
+    const url = new URL(req.url);
+    const route = url.pathname.replace(/\/+$/, "").match(/\/folders(?:\/(\d+))?$/);
+    if (!route) {
+      return new Response(JSON.stringify({ error: "Not found" }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    const folderId = route[1] ? parseInt(route[1]) : null;
+
+    const allowed = folderId === null ? ["GET", "POST"] : ["PATCH", "DELETE"];
+    if (!allowed.includes(req.method)) {
+      return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (req.method === "GET") {
+      const { data: folders, error: foldersErr } = await admin
+        .from("folders")
+        .select("id, name, parent_id, created_at, files!files_folder_id_fkey(count)")
+        .is("files.deleted_at", null)
+        .is("files.parent_id", null)
+        .eq("files.is_current", true)
+        .neq("files.status", "quarantined")
+        .order("name", { ascending: true });
+
+      if (foldersErr) {
+        console.error("Folders fetch error:", foldersErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch folders", details: foldersErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          folders: (folders || []).map(({ files, ...folder }) => ({
+            ...folder,
+            file_count: Array.isArray(files) ? (files[0] as { count?: number } | undefined)?.count ?? 0 : 0,
+          })),
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    if (req.method === "DELETE") {
+      const folder = await findFolder(admin, folderId!);
+      if (!folder) {
+        return new Response(JSON.stringify({ error: "Folder not found" }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      // Trashed files do not count; they come back without a folder if restored
+      const [{ count: subfolders }, { count: files }] = await Promise.all([
+        admin.from("folders").select("id", { count: "exact", head: true }).eq("parent_id", folder.id),
+        admin.from("files").select("id", { count: "exact", head: true }).eq("folder_id", folder.id).is("deleted_at", null),
+      ]);
+      if (subfolders || files) {
+        return new Response(JSON.stringify({ error: `${folder.name} is not empty` }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const { error: deleteErr } = await admin.from("folders").delete().eq("id", folder.id);
+      if (deleteErr) {
+        console.error("Folder delete error:", deleteErr);
+        return new Response(JSON.stringify({ error: "Failed to delete folder", details: deleteErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+      console.log(`Deleted folder ${folder.id} (${folder.name})`);
+      return new Response(JSON.stringify({ success: true, folder_id: folder.id }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return new Response(JSON.stringify({ error: "Body must be a JSON object" }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const current = folderId === null ? null : await findFolder(admin, folderId);
+    if (folderId !== null && !current) {
+      return new Response(JSON.stringify({ error: "Folder not found" }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const name = body.name !== undefined || !current ? parseFolderName(body.name) : { name: current.name };
+    if (!name.name) {
+      return new Response(JSON.stringify({ error: name.error }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const parentId = body.parent_id !== undefined ? body.parent_id : current?.parent_id ?? null;
+    if (parentId !== null && !Number.isInteger(parentId)) {
+      return new Response(JSON.stringify({ error: "parent_id must be a folder id or null" }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    if (parentId !== null && !(await findFolder(admin, parentId))) {
+      return new Response(JSON.stringify({ error: `Folder ${parentId} not found` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    if (current && parentId !== null && (await folderWithDescendants(admin, current.id)).includes(parentId)) {
+      return new Response(JSON.stringify({ error: "A folder cannot be moved into itself or one of its subfolders" }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const sibling = await findSibling(admin, parentId, name.name);
+    if (sibling && sibling.id !== current?.id) {
+      return new Response(JSON.stringify({ error: `A folder named ${sibling.name} already exists there` }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: folder, error: saveErr } = current
+      ? await admin.from("folders").update({ name: name.name, parent_id: parentId }).eq("id", current.id).select("id, name, parent_id, created_at").single()
+      : await admin.from("folders").insert({ name: name.name, parent_id: parentId }).select("id, name, parent_id, created_at").single();
+
+    if (saveErr) {
+      // Two requests can still race past the sibling check
+      const status = saveErr.code === "23505" ? 409 : 500;
+      console.error("Folder save error:", saveErr);
+      return new Response(JSON.stringify({ error: status === 409 ? "A folder with that name already exists there" : "Failed to save folder", details: saveErr.message }), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    console.log(`${current ? "Updated" : "Created"} folder ${folder.id} (${folder.name})`);
+    return new Response(JSON.stringify({ success: true, folder }), { status: current ? 200 : 201, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -0,0 +1,542 @@
+// Supabase Edge Function: process-document
+// Worker for the processing_jobs queue. Claims queued jobs, downloads each file
+// from Storage, scans it for malware (see ../_shared/malware.ts), extracts its
+// text (see ../_shared/extract.ts), saves it into file_content / file_sheets /
+// file_pages / file_ocr_pages, fingerprints it for near-duplicate detection
+// (file_fingerprints), runs auto-tag-file and moves the file from 'pending'
+// through 'processing' to 'completed' or 'error'. Files the scanner flags are
+// moved to the quarantine prefix and marked 'quarantined' instead. Archives
+// (ZIP, TAR, gzip) and mailboxes are not extracted themselves: each entry or
+// message is stored as a child file (parent_id) with a job of its own (see
+// ../_shared/archive.ts); only MAX_CHILD_WORKERS workers are started for them, and
+// a worker that reaches MAX_JOBS_PER_RUN hands the rest of the queue to a new one. An email is extracted like any document, with its
+// headers in files.metadata, and its attachments become child files
+// (see ../_shared/email.ts).
+//
+// A failed step is logged to processing_job_errors and the job is re-queued
+// with exponential backoff (30s, 60s, 120s, ... capped at 1h). Once a job has
+// used max_attempts it is moved to 'dead_letter' and the file to 'error';
+// processing-dead-letters lists those jobs and re-runs them.
+//
+// Requirements (Supabase dashboard):
+// - Function secrets set: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, and MALWARE_SCANNER /
+//   CLAMAV_HOST / CLAMAV_PORT for the scanner (see ../_shared/malware.ts)
+// - Only callable with the service role key (documents-upload calls it after each upload)
+//
+// A cron job (see migrations) calls it every minute without a job_id, so retries are
+// picked up once their backoff elapses.
+//
+// Usage: POST /functions/v1/process-document
+// Body: { job_id?: number }   // omit job_id to drain the oldest queued jobs
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ArchiveError, MAX_ARCHIVE_DEPTH, openArchive, type SkippedEntry } from "../_shared/archive.ts";
+import { sha256Hex } from "../_shared/dedup.ts";
+import type { FileType } from "../_shared/detect.ts";
+import { mailboxEntries, type ParsedEmail, parseEmail, splitMailbox } from "../_shared/email.ts";
+import { extractDocument, ocrQualityScore, type ExtractionResult } from "../_shared/extract.ts";
+import { computeFingerprint } from "../_shared/fingerprint.ts";
+import { createFileAndQueue, parseRelativePath, storageKey } from "../_shared/ingest.ts";
+import { validateUpload } from "../_shared/limits.ts";
+import { DEFAULT_PREPROCESS_OPTIONS, type PreprocessOptions } from "../_shared/preprocess.ts";
+import { quarantineFile, scannerFromEnv } from "../_shared/malware.ts";
+import { startProcessing } from "../_shared/queue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Upper bound on jobs handled by one invocation, to stay inside the function time limit
+const MAX_JOBS_PER_RUN = 5;
+// Workers started for the files unpacked from one archive or mailbox; they keep
+// draining the queue until it is empty
+const MAX_CHILD_WORKERS = 2;
+// Number of data rows per sheet kept in file_sheets for the preview endpoint
+const SHEET_PREVIEW_ROWS = 100;
+// Retry delay doubles from the base after every failed attempt, up to the cap
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 3600;
+
+interface ProcessingJob {
+  id: number;
+  file_id: number;
+  attempts: number;
+  max_attempts: number;
+}
+
+type ProcessingStep = "load" | "download" | "scan" | "expand" | "extract" | "save" | "fingerprint" | "auto_tag";
+
+// Carries the name of the step that failed so it can be recorded with the job
+// cause is the error the step threw, for callers that handle some errors themselves
+class StepError extends Error {
+  constructor(readonly step: ProcessingStep, message: string, readonly cause?: unknown) {
+    super(message);
+  }
+}
+
+async function runStep<T>(step: ProcessingStep, fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
+    throw new StepError(step, e instanceof Error ? e.message : String(e), e);
+  }
+}
+
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_SECONDS);
+}
+
+async function claimJob(admin: SupabaseClient, jobId: number | null): Promise<ProcessingJob | null> {
+  const { data, error } = await admin.rpc("claim_processing_job", { p_job_id: jobId });
+  if (error) throw new Error(`Failed to claim job: ${error.message}`);
+  return Array.isArray(data) && data.length > 0 ? data[0] as ProcessingJob : null;
+}
+
+// Replaces any earlier extraction output so re-running a job is idempotent
+async function saveExtraction(admin: SupabaseClient, fileId: number, result: ExtractionResult, textForIndex: string) {
+  const { error: fcErr } = await admin
+    .from("file_content")
+    .upsert({ file_id: fileId, indexed_text: textForIndex }, { onConflict: "file_id" });
+  if (fcErr) throw new Error(`file_content save failed: ${fcErr.message}`);
+
+  await admin.from("file_sheets").delete().eq("file_id", fileId);
+  if (result.sheets.length > 0) {
+    const { error: sheetsErr } = await admin
+      .from("file_sheets")
+      .insert(result.sheets.map((sheet, index) => ({
+        file_id: fileId,
+        sheet_index: index,
+        name: sheet.name,
+        headers: sheet.headers,
+        row_count: sheet.rows.length,
+        preview_rows: sheet.rows.slice(0, SHEET_PREVIEW_ROWS),
+      })));
+    if (sheetsErr) throw new Error(`file_sheets save failed: ${sheetsErr.message}`);
+  }
+
+  await admin.from("file_pages").delete().eq("file_id", fileId);
+  if (result.pages.length > 0) {
+    const { error: pagesErr } = await admin
+      .from("file_pages")
+      .insert(result.pages.map((page) => ({
+        file_id: fileId,
+        page_number: page.pageNumber,
+        text_source: page.source,
+        page_text: page.text.trim(),
+      })));
+    if (pagesErr) throw new Error(`file_pages save failed: ${pagesErr.message}`);
+  }
+
+  await admin.from("file_ocr_pages").delete().eq("file_id", fileId);
+  if (result.ocrPages.length > 0) {
+    const { error: ocrErr } = await admin
+      .from("file_ocr_pages")
+      .insert(result.ocrPages.map((page) => ({
+        file_id: fileId,
+        page_number: page.pageNumber,
+        width: page.width,
+        height: page.height,
+        confidence: page.confidence,
+        word_count: page.words.length,
+        words: page.words,
+      })));
+    if (ocrErr) throw new Error(`file_ocr_pages save failed: ${ocrErr.message}`);
+  }
+}
+
+async function autoTag(supabaseUrl: string, serviceRoleKey: string, fileId: number, text: string, language: string | null) {
+  console.log(`Starting auto-tagging for file ${fileId}`);
+  const tagResponse = await fetch(`${supabaseUrl}/functions/v1/auto-tag-file`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ file_id: fileId, file_text: text, language }),
+  });
+
+  if (!tagResponse.ok) {
+    const details = await tagResponse.text().catch(() => "");
+    throw new Error(`auto-tag-file returned ${tagResponse.status}${details ? `: ${details}` : ""}`);
+  }
+  const tagResult = await tagResponse.json();
+  console.log(`Auto-tagging completed for file ${fileId}:`, tagResult);
+}
+
+// Files without enough text get no fingerprint, so they never show up as near-duplicates
+async function saveFingerprint(admin: SupabaseClient, fileId: number, text: string) {
+  const fingerprint = computeFingerprint(text);
+  if (!fingerprint) {
+    const { error } = await admin.from("file_fingerprints").delete().eq("file_id", fileId);
+    if (error) throw new Error(`file_fingerprints delete failed: ${error.message}`);
+    return;
+  }
+
+  const { error } = await admin
+    .from("file_fingerprints")
+    .upsert({
+      file_id: fileId,
+      minhash: fingerprint.minhash,
+      shingle_count: fingerprint.shingleCount,
+      created_at: new Date().toISOString(),
+    }, { onConflict: "file_id" });
+  if (error) throw new Error(`file_fingerprints upsert failed: ${error.message}`);
+}
+
+// A file whose contents are stored as child files: an archive, a mailbox or an email with attachments
+interface ParentFile {
+  id: number;
+  user_id: string | null;
+  filename: string;
+  relative_path: string | null;
+  archive_depth: number;
+  folder_id: number | null;
+  ocr_languages: string[] | null;
+  preprocess_options: PreprocessOptions | null;
+}
+
+// Stored on the parent's files row as archive_summary
+interface ArchiveSummary {
+  format: string;
+  entries: number;
+  skipped: SkippedEntry[];
+}
+
+// Stores each entry as a child file and queues it like any other upload, starting only
+// a few workers for the new jobs. Entries are checked with the upload rules (executables,
+// mismatched content, size), and a retried job skips entries whose child already exists.
+// Returns how many children there are.
+async function storeChildren(
+  admin: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  file: ParentFile,
+  entries: { path: string; read(): Uint8Array }[],
+  skipped: SkippedEntry[],
+): Promise<number> {
+  const root = file.relative_path ?? file.filename;
+
+  const { data: existing, error: existingErr } = await admin
+    .from("files")
+    .select("relative_path")
+    .eq("parent_id", file.id);
+  if (existingErr) throw new Error(`files lookup failed: ${existingErr.message}`);
+  const created = new Set((existing ?? []).map((child) => child.relative_path as string));
+
+  let stored = 0;
+  const jobIds: number[] = [];
+  for (const entry of entries) {
+    const relativePath = parseRelativePath(`${root}/${entry.path}`);
+    if (!relativePath.path) {
+      skipped.push({ path: entry.path, reason: relativePath.error ?? "Unsafe path" });
+      continue;
+    }
+    if (created.has(relativePath.path)) {
+      stored++;
+      continue;
+    }
+
+    const content = entry.read();
+    const filename = entry.path.split("/").pop()!;
+    const checked = validateUpload(filename, null, content.length, content);
+    if (checked.rejection) {
+      skipped.push({ path: entry.path, reason: checked.rejection.error });
+      continue;
+    }
+    if (checked.fileType === "archive" && file.archive_depth + 1 >= MAX_ARCHIVE_DEPTH) {
+      skipped.push({ path: entry.path, reason: `Archives nested more than ${MAX_ARCHIVE_DEPTH} deep are not expanded` });
+      continue;
+    }
+
+    const key = storageKey(file.user_id, filename, checked.fileType);
+    const { error: uploadErr } = await admin.storage
+      .from("documents")
+      .upload(key, content, { upsert: false });
+    if (uploadErr) throw new Error(`Storage upload failed for ${entry.path}: ${uploadErr.message}`);
+
+    const queued = await createFileAndQueue(admin, supabaseUrl, serviceRoleKey, {
+      userId: file.user_id,
+      filename,
+      fileType: checked.fileType,
+      size: content.length,
+      storagePath: key,
+      ocrLanguages: file.ocr_languages ?? [],
+      preprocess: file.preprocess_options ?? DEFAULT_PREPROCESS_OPTIONS,
+      contentHash: await sha256Hex(content),
+      version: null,
+      relativePath: relativePath.path,
+      // Entries are filed with their archive, not into folders of their own
+      folderId: file.folder_id,
+      parent: { id: file.id, depth: file.archive_depth + 1 },
+    }, { start: false });
+    jobIds.push(queued.jobId);
+    created.add(relativePath.path);
+    stored++;
+  }
+  for (const jobId of jobIds.slice(0, MAX_CHILD_WORKERS)) {
+    startProcessing(supabaseUrl, serviceRoleKey, jobId);
+  }
+  return stored;
+}
+
+// Archives and mailboxes are not extracted themselves; the entry names make them findable
+async function saveListing(admin: SupabaseClient, file: ParentFile, names: string[]) {
+  const { error } = await admin
+    .from("file_content")
+    .upsert({ file_id: file.id, indexed_text: names.join("\n") || file.filename }, { onConflict: "file_id" });
+  if (error) throw new Error(`file_content save failed: ${error.message}`);
+}
+
+async function processJob(
+  admin: SupabaseClient,
+  job: ProcessingJob,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+): Promise<"completed" | "quarantined" | "refused"> {
+  const file = await runStep("load", async () => {
+    const { data, error } = await admin
+      .from("files")
+      .select("id, user_id, filename, file_type, storage_path, relative_path, archive_depth, folder_id, ocr_languages, preprocess_options, quarantine_released_at")
+      .eq("id", job.file_id)
+      .single();
+    if (error || !data) throw new Error(`File ${job.file_id} not found`);
+    return data;
+  });
+
+  await admin
+    .from("files")
+    .update({ status: "processing" })
+    .eq("id", file.id);
+
+  // The whole file stays in memory for the rest of the job; see MAX_PROCESSING_BYTES in limits.ts.
+  const bytes = await runStep("download", async () => {
+    const { data: blob, error } = await admin.storage
+      .from("documents")
+      .download(file.storage_path);
+    if (error || !blob) throw new Error(`Storage download failed: ${error?.message ?? "no data"}`);
+    return new Uint8Array(await blob.arrayBuffer());
+  });
+
+  const scan = await runStep("scan", async () => {
+    const result = await scannerFromEnv().scan(bytes);
+    if (!result.clean && !file.quarantine_released_at) {
+      const quarantinePath = await quarantineFile(admin, file, result);
+      console.warn(`File ${file.id} quarantined at ${quarantinePath}: ${result.signature} (${result.scanner})`);
+      return result;
+    }
+    if (!result.clean) console.warn(`File ${file.id} flagged as ${result.signature} but was released by an admin; processing it`);
+    const { error } = await admin
+      .from("files")
+      .update({ scanned_at: new Date().toISOString(), scanner: result.scanner, malware_signature: result.signature })
+      .eq("id", file.id);
+    if (error) throw new Error(`files update failed: ${error.message}`);
+    return result;
+  });
+  if (!scan.clean && !file.quarantine_released_at) return "quarantined";
+
+  if (file.file_type === "archive") {
+    let summary: ArchiveSummary;
+    try {
+      summary = await runStep("expand", async () => {
+        const archive = openArchive(bytes, file.filename);
+        const skipped = [...archive.skipped];
+        const entries = await storeChildren(admin, supabaseUrl, serviceRoleKey, file, archive.entries, skipped);
+        await saveListing(admin, file, archive.entries.map((entry) => entry.path));
+        return { format: archive.format, entries, skipped };
+      });
+    } catch (e) {
+      // A zip bomb or an unreadable archive fails the same way on every attempt, so it is not retried
+      const cause = e instanceof StepError ? e.cause : e;
+      if (!(cause instanceof ArchiveError)) throw e;
+      console.warn(`Archive ${file.id} refused: ${cause.message}`);
+      await admin
+        .from("files")
+        .update({ status: "error", error_message: `Archive refused: ${cause.message}`, processed_at: new Date().toISOString() })
+        .eq("id", file.id);
+      return "refused";
+    }
+    await admin
+      .from("files")
+      .update({ status: "completed", error_message: null, archive_summary: summary, processed_at: new Date().toISOString() })
+      .eq("id", file.id);
+    return "completed";
+  }
+
+  // A mailbox becomes one child email per message; a single email keeps its text and
+  // headers, and its attachments become children
+  let emailSummary: ArchiveSummary | null = null;
+  let email: ParsedEmail | undefined;
+  if (file.file_type === "email") {
+    const messages = splitMailbox(bytes);
+    if (messages.length > 1) {
+      const mailbox = mailboxEntries(messages);
+      const summary = await runStep("expand", async () => {
+        const entries = await storeChildren(admin, supabaseUrl, serviceRoleKey, file, mailbox.entries, mailbox.skipped);
+        await saveListing(admin, file, mailbox.entries.map((entry) => entry.path));
+        return { format: "mbox", entries, skipped: mailbox.skipped };
+      });
+      await admin
+        .from("files")
+        .update({ status: "completed", error_message: null, archive_summary: summary, processed_at: new Date().toISOString() })
+        .eq("id", file.id);
+      return "completed";
+    }
+    // Parsed once here; extraction reuses it for the text and headers
+    const expanded = await runStep("expand", async () => {
+      const parsed = parseEmail(bytes);
+      const attachments = parsed.attachments.map((attachment) => ({ path: attachment.filename, read: () => attachment.content }));
+      const skipped: SkippedEntry[] = [];
+      const entries = await storeChildren(admin, supabaseUrl, serviceRoleKey, file, attachments, skipped);
+      return { parsed, summary: { format: "email", entries, skipped } };
+    });
+    email = expanded.parsed;
+    emailSummary = expanded.summary;
+  }
+
+  const result = await runStep("extract", () =>
+    extractDocument(bytes, file.file_type as FileType, file.filename, {
+      ocrLanguages: file.ocr_languages ?? [],
+      preprocess: file.preprocess_options ?? undefined,
+      email,
+    })
+  );
+
+  // Fallback to filename (without extension) when no text extracted
+  const filenameNoExt = file.filename.replace(/\.[^/.]+$/, "");
+  const textForIndex = result.text.trim().length > 0 ? result.text : filenameNoExt;
+
+  // The language must be on the file before the text is saved: the search_vector
+  // triggers pick the text-search configuration from files.language
+  await runStep("save", async () => {
+    // The cleaned-up image sits next to the original so the two can be compared
+    let preprocessedPath: string | null = null;
+    if (result.preprocessed) {
+      preprocessedPath = `${file.storage_path}.preprocessed.png`;
+      const { error: uploadErr } = await admin.storage
+        .from("documents")
+        .upload(preprocessedPath, result.preprocessed.png, { contentType: "image/png", upsert: true });
+      if (uploadErr) throw new Error(`Preprocessed image upload failed: ${uploadErr.message}`);
+    }
+
+    const { error } = await admin
+      .from("files")
+      .update({
+        language: result.language,
+        ocr_languages: result.ocrLanguages.length > 0 ? result.ocrLanguages : file.ocr_languages,
+        ocr_confidence: ocrQualityScore(result.ocrPages),
+        preprocessed_path: preprocessedPath,
+        preprocessing_steps: result.preprocessed?.steps ?? null,
+        metadata: result.metadata,
+        archive_summary: emailSummary,
+      })
+      .eq("id", file.id);
+    if (error) throw new Error(`files update failed: ${error.message}`);
+    await saveExtraction(admin, file.id, result, textForIndex);
+  });
+  await runStep("fingerprint", () => saveFingerprint(admin, file.id, result.text));
+  await runStep("auto_tag", () => autoTag(supabaseUrl, serviceRoleKey, file.id, textForIndex, result.language));
+
+  await admin
+    .from("files")
+    .update({ status: "completed", error_message: null, processed_at: new Date().toISOString() })
+    .eq("id", file.id);
+  return "completed";
+}
+
+// Logs the failed attempt, then either schedules a retry or dead-letters the job
+async function recordFailure(admin: SupabaseClient, job: ProcessingJob, step: ProcessingStep, message: string): Promise<"retrying" | "dead_letter"> {
+  const now = new Date();
+  await admin
+    .from("processing_job_errors")
+    .insert({ job_id: job.id, file_id: job.file_id, attempt: job.attempts, step, error: message });
+
+  if (job.attempts >= job.max_attempts) {
+    await admin
+      .from("processing_jobs")
+      .update({ status: "dead_letter", last_error: message, failed_step: step, finished_at: now.toISOString() })
+      .eq("id", job.id);
+    await admin
+      .from("files")
+      .update({ status: "error", error_message: `${step} failed after ${job.attempts} attempt(s): ${message}` })
+      .eq("id", job.file_id);
+    return "dead_letter";
+  }
+
+  const nextRunAt = new Date(now.getTime() + retryDelaySeconds(job.attempts) * 1000);
+  await admin
+    .from("processing_jobs")
+    .update({ status: "queued", last_error: message, failed_step: step, finished_at: now.toISOString(), next_run_at: nextRunAt.toISOString() })
+    .eq("id", job.id);
+  await admin
+    .from("files")
+    .update({ status: "pending", error_message: `Attempt ${job.attempts} of ${job.max_attempts} failed (${step}): ${message}. Retrying at ${nextRunAt.toISOString()}` })
+    .eq("id", job.file_id);
+  return "retrying";
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (req.headers.get("Authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const requestedJobId = typeof body?.job_id === "number" ? body.job_id : null;
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+
+    const processed: { job_id: number; file_id: number; status: "completed" | "quarantined" | "refused" | "retrying" | "dead_letter"; step?: ProcessingStep; error?: string }[] = [];
+
+    // Start with the requested job, then keep draining the queue
+    for (let i = 0; i < MAX_JOBS_PER_RUN; i++) {
+      const job = await claimJob(admin, i === 0 ? requestedJobId : null);
+      if (!job) break;
+
+      console.log(`Processing job ${job.id} for file ${job.file_id} (attempt ${job.attempts})`);
+      try {
+        const outcome = await processJob(admin, job, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+        await admin
+          .from("processing_jobs")
+          .update({ status: "succeeded", last_error: null, failed_step: null, finished_at: new Date().toISOString() })
+          .eq("id", job.id);
+        processed.push({ job_id: job.id, file_id: job.file_id, status: outcome });
+      } catch (e) {
+        const step: ProcessingStep = e instanceof StepError ? e.step : "load";
+        const message = e instanceof Error ? e.message : String(e);
+        console.error(`Job ${job.id} failed at ${step} for file ${job.file_id} (attempt ${job.attempts}/${job.max_attempts}):`, message);
+        const outcome = await recordFailure(admin, job, step, message);
+        processed.push({ job_id: job.id, file_id: job.file_id, status: outcome, step, error: message });
+      }
+    }
+
+    // The run stopped at its limit, so more jobs may be waiting; a fresh invocation
+    // gets its own time limit and stops once nothing is left to claim
+    if (processed.length === MAX_JOBS_PER_RUN) startProcessing(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    return new Response(
+      JSON.stringify({ success: true, processed }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
\ No newline at end of file
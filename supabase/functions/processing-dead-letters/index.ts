@@ -0,0 +1,147 @@
+// Supabase Edge Function: processing-dead-letters
+// Lists processing jobs that exhausted their retries and re-runs them on request
+//
+// Usage:
+//   GET  /functions/v1/processing-dead-letters?limit=50
+//        -> dead-lettered jobs with their file and the error of every failed attempt
+//   POST /functions/v1/processing-dead-letters
+//        Body: { job_id: number } or { job_ids: number[] }
+//        -> resets the jobs to a fresh set of attempts and starts the worker
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { startProcessing } from "../_shared/queue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const requestedLimit = parseInt(url.searchParams.get("limit") || String(DEFAULT_LIMIT));
+      const limit = Math.min(Math.max(isNaN(requestedLimit) ? DEFAULT_LIMIT : requestedLimit, 1), MAX_LIMIT);
+
+      const { data: jobs, error: jobsErr } = await admin
+        .from("processing_jobs")
+        .select(`
+          id, file_id, attempts, max_attempts, failed_step, last_error, created_at, finished_at,
+          files(filename, file_type, size, upload_date),
+          processing_job_errors(attempt, step, error, created_at)
+        `)
+        .eq("status", "dead_letter")
+        .order("finished_at", { ascending: false })
+        .limit(limit);
+
+      if (jobsErr) {
+        console.error("Dead-letter fetch error:", jobsErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch dead-lettered jobs", details: jobsErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      type ErrorRow = { attempt: number; step: string; error: string; created_at: string };
+      const result = (jobs || []).map((job) => {
+        const file = (Array.isArray(job.files) ? job.files[0] : job.files) as
+          { filename: string; file_type: string; size: number; upload_date: string } | null;
+        return {
+          job_id: job.id,
+          file_id: job.file_id,
+          filename: file?.filename ?? null,
+          file_type: file?.file_type ?? null,
+          size: file?.size ?? null,
+          upload_date: file?.upload_date ?? null,
+          attempts: job.attempts,
+          max_attempts: job.max_attempts,
+          failed_step: job.failed_step,
+          last_error: job.last_error,
+          failed_at: job.finished_at,
+          errors: [...((job.processing_job_errors || []) as ErrorRow[])]
+            .sort((a, b) => a.attempt - b.attempt || a.created_at.localeCompare(b.created_at)),
+        };
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, jobs: result, count: result.length }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const jobIds: number[] = Array.isArray(body?.job_ids)
+      ? body.job_ids.filter((id: unknown) => typeof id === "number")
+      : typeof body?.job_id === "number" ? [body.job_id] : [];
+
+    if (jobIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Body must include "job_id" or "job_ids"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    // Only dead-lettered jobs are reset; anything already queued or running is left alone
+    const { data: requeued, error: requeueErr } = await admin
+      .from("processing_jobs")
+      .update({
+        status: "queued",
+        attempts: 0,
+        next_run_at: new Date().toISOString(),
+        last_error: null,
+        failed_step: null,
+        started_at: null,
+        finished_at: null,
+      })
+      .in("id", jobIds)
+      .eq("status", "dead_letter")
+      .select("id, file_id");
+
+    if (requeueErr) {
+      console.error("Re-queue error:", requeueErr);
+      return new Response(JSON.stringify({ error: "Failed to re-queue jobs", details: requeueErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const rerun = requeued || [];
+    if (rerun.length > 0) {
+      await admin
+        .from("files")
+        .update({ status: "pending", error_message: null })
+        .in("id", rerun.map((job) => job.file_id));
+    }
+
+    for (const job of rerun) {
+      console.log(`Re-running dead-lettered job ${job.id} for file ${job.file_id}`);
+      startProcessing(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, job.id);
+    }
+
+    const rerunIds = new Set(rerun.map((job) => job.id));
+    return new Response(
+      JSON.stringify({
+        success: true,
+        requeued: rerun.map((job) => ({ job_id: job.id, file_id: job.file_id, status: "pending" })),
+        skipped: jobIds.filter((id) => !rerunIds.has(id)),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -0,0 +1,147 @@
+// Supabase Edge Function: quarantine
+// Lists the files the malware scan quarantined and lets an admin release or delete them
+//
+// Usage:
+//   GET  /functions/v1/quarantine?limit=50
+//        -> quarantined files with the detected signature and the scanner that found it
+//   POST /functions/v1/quarantine   (admin only)
+//        Body: { action: "release", file_id: number, released_by?: string }
+//        -> moves the file out of quarantine and re-queues processing; it is still
+//           scanned, but no longer quarantined
+//        Body: { action: "delete", file_id: number }
+//        -> removes the file and its stored object for good
+//
+// Admin requests carry the service role key as the bearer token, or the
+// QUARANTINE_ADMIN_TOKEN secret in an "x-admin-token" header.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { releaseFile } from "../_shared/malware.ts";
+import { startProcessing } from "../_shared/queue.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function isAdmin(req: Request, serviceRoleKey: string): boolean {
+  if (req.headers.get("Authorization") === `Bearer ${serviceRoleKey}`) return true;
+  const adminToken = Deno.env.get("QUARANTINE_ADMIN_TOKEN");
+  return !!adminToken && req.headers.get("x-admin-token") === adminToken;
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const requestedLimit = parseInt(url.searchParams.get("limit") || String(DEFAULT_LIMIT));
+      const limit = Math.min(Math.max(isNaN(requestedLimit) ? DEFAULT_LIMIT : requestedLimit, 1), MAX_LIMIT);
+
+      const { data: files, error: filesErr } = await admin
+        .from("files")
+        .select("id, filename, file_type, size, upload_date, malware_signature, scanner, quarantined_at")
+        .eq("status", "quarantined")
+        .order("quarantined_at", { ascending: false })
+        .limit(limit);
+
+      if (filesErr) {
+        console.error("Quarantine fetch error:", filesErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch quarantined files", details: filesErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, files: files || [], count: (files || []).length }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    if (!isAdmin(req, SUPABASE_SERVICE_ROLE_KEY)) {
+      return new Response(JSON.stringify({ error: "Only an admin can release or delete quarantined files" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action;
+    const fileId = typeof body?.file_id === "number" ? body.file_id : NaN;
+
+    if ((action !== "release" && action !== "delete") || isNaN(fileId)) {
+      return new Response(JSON.stringify({ error: 'Body must include "action" ("release" or "delete") and a numeric "file_id"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: file, error: fileErr } = await admin
+      .from("files")
+      .select("id, filename, storage_path, malware_signature")
+      .eq("id", fileId)
+      .eq("status", "quarantined")
+      .maybeSingle();
+
+    if (fileErr || !file) {
+      return new Response(JSON.stringify({ error: `File ${fileId} is not quarantined` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (action === "delete") {
+      const { error: removeErr } = await admin.storage.from("documents").remove([file.storage_path]);
+      if (removeErr) console.error(`Failed to remove quarantined object ${file.storage_path}`, removeErr);
+
+      const { error: deleteErr } = await admin.from("files").delete().eq("id", file.id);
+      if (deleteErr) {
+        console.error("Quarantined file delete error:", deleteErr);
+        return new Response(JSON.stringify({ error: "Failed to delete file", details: deleteErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      console.log(`Deleted quarantined file ${file.id} (${file.filename}, ${file.malware_signature})`);
+      return new Response(JSON.stringify({ success: true, file_id: file.id, status: "deleted" }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const releasedBy = typeof body.released_by === "string" && body.released_by.trim() ? body.released_by.trim() : null;
+    try {
+      await releaseFile(admin, file, releasedBy);
+    } catch (e) {
+      console.error(`Releasing file ${file.id} failed`, e);
+      return new Response(JSON.stringify({ error: (e as Error).message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: job, error: jobErr } = await admin
+      .from("processing_jobs")
+      .insert({ file_id: file.id })
+      .select("id")
+      .single();
+
+    if (jobErr || !job) {
+      console.error("processing_jobs insert error", jobErr);
+      await admin.from("files").update({ status: "error", error_message: "Failed to queue document for processing" }).eq("id", file.id);
+      return new Response(JSON.stringify({ error: "Released, but failed to queue the file for processing" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    console.log(`Released file ${file.id} (${file.filename}) from quarantine${releasedBy ? ` for ${releasedBy}` : ""}`);
+    startProcessing(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, job.id);
+
+    return new Response(
+      JSON.stringify({ success: true, file_id: file.id, job_id: job.id, status: "pending" }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -2,10 +2,15 @@
 // Handles search queries across files table (filenames) and file_content table (indexed text)
 // 
 // Usage: GET /functions/v1/search?q=search+query
-// Returns: JSON array of matching file objects
+// Returns: JSON array of matching file objects, each with the page numbers that match
+// Quarantined files and files in the trash are left out, and so are earlier
+// versions of a document unless all_versions=true
+// Repeatable meta= params filter on embedded metadata as in the files function,
+// e.g. meta=pdf.author:smith or meta=exif.captured_at>=2024-01-01
 
 import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseMetaFilters } from "../_shared/metadata.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -46,6 +51,8 @@ serve(async (req: Request) => {
     // Get search query from URL parameters
     const url = new URL(req.url);
     const searchQuery = url.searchParams.get('q');
+    const allVersions = url.searchParams.get('all_versions') === 'true';
+    const metaFilters = parseMetaFilters(url.searchParams.getAll('meta'));
 
     if (!searchQuery || searchQuery.trim() === '') {
       return new Response(
@@ -57,6 +64,16 @@ serve(async (req: Request) => {
       );
     }
 
+    if (metaFilters.error) {
+      return new Response(
+        JSON.stringify({ error: metaFilters.error }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     const authHeader = req.headers.get("Authorization");
     const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
       global: { fetch },
@@ -70,7 +87,7 @@ serve(async (req: Request) => {
     const searchPattern = `%${searchTerms}%`;
 
     // Query files table for filename matches and join with file_content for text matches
-    const { data: searchResults, error: searchError } = await supabase
+    let searchRequest = supabase
       .from('files')
       .select(`
         id,
@@ -80,12 +97,25 @@ serve(async (req: Request) => {
         upload_date,
         storage_path,
         user_id,
+        status,
+        error_message,
+        language,
+        version,
+        is_current,
         file_content (
           indexed_text
         )
       `)
       .or(`filename.ilike.${searchPattern},file_content.indexed_text.ilike.${searchPattern}`)
+      .neq('status', 'quarantined')
+      .is('deleted_at', null)
       .order('upload_date', { ascending: false });
+    if (!allVersions) searchRequest = searchRequest.eq('is_current', true);
+    for (const [column, operator, value] of metaFilters.filters) {
+      searchRequest = searchRequest.filter(column, operator, value);
+    }
+
+    const { data: searchResults, error: searchError } = await searchRequest;
 
     if (searchError) {
       console.error('Search error:', searchError);
@@ -98,6 +128,28 @@ serve(async (req: Request) => {
       );
     }
 
+    // Find which pages of the matched files contain the query
+    const matchingPages = new Map<number, number[]>();
+    const resultIds = (searchResults || []).map(file => file.id);
+    if (resultIds.length > 0) {
+      const { data: pageMatches, error: pageError } = await supabase
+        .from('file_pages')
+        .select('file_id, page_number')
+        .in('file_id', resultIds)
+        .ilike('page_text', searchPattern)
+        .order('page_number', { ascending: true });
+
+      if (pageError) {
+        console.error('Page search error:', pageError);
+      }
+
+      for (const match of pageMatches || []) {
+        const pages = matchingPages.get(match.file_id) || [];
+        pages.push(match.page_number);
+        matchingPages.set(match.file_id, pages);
+      }
+    }
+
     // Transform results to match expected format
     const formattedResults = (searchResults || []).map(file => ({
       id: file.id,
@@ -107,6 +159,11 @@ serve(async (req: Request) => {
       upload_date: file.upload_date,
       storage_path: file.storage_path,
       user_id: file.user_id,
+      status: file.status,
+      error_message: file.error_message,
+      language: file.language,
+      version: file.version,
+      is_current: file.is_current,
       has_content: !!file.file_content?.indexed_text,
       content_preview: file.file_content?.indexed_text 
         ? file.file_content.indexed_text.substring(0, 200) + '...'
@@ -114,7 +171,8 @@ serve(async (req: Request) => {
       // Calculate relevance score based on where the match was found
       relevance_score: file.filename.toLowerCase().includes(searchTerms) 
         ? (file.file_content?.indexed_text?.toLowerCase().includes(searchTerms) ? 3 : 2)
-        : 1
+        : 1,
+      matching_pages: matchingPages.get(file.id) || []
     }));
 
     // Sort by relevance score (higher first) then by upload date
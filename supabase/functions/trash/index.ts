@@ -0,0 +1,157 @@
+// Supabase Edge Function: trash
+// Lists deleted files (see DELETE /files/:id) and restores them or deletes them for good
+//
+// Usage:
+//   GET  /functions/v1/trash?limit=50
+//        -> trashed files, newest first, with the time each will be purged
+//   POST /functions/v1/trash
+//        Body: { action: "restore", file_id: number }
+//        -> the file and the entries unpacked from it are listed and searchable again
+//        Body: { action: "delete", file_id: number }
+//        -> removes the file, its entries, extracted text, tags and stored objects for good
+//        Body: { action: "purge" }   (service role only; run hourly by the trash-purge cron job)
+//        -> permanently deletes everything trashed more than TRASH_RETENTION_DAYS ago
+//
+// Entries unpacked from an archive and earlier versions of a document are trashed,
+// restored and deleted with it, so they are not listed on their own.
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { purgeAfter, purgeFiles, restoreFile, retentionDays, type TrashedFile } from "../_shared/trash.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// Files removed per purge run; the next run picks up the rest
+const PURGE_BATCH_SIZE = 200;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+    const days = retentionDays();
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const requestedLimit = parseInt(url.searchParams.get("limit") || String(DEFAULT_LIMIT));
+      const limit = Math.min(Math.max(isNaN(requestedLimit) ? DEFAULT_LIMIT : requestedLimit, 1), MAX_LIMIT);
+
+      const { data: files, error: filesErr } = await admin
+        .from("files")
+        .select("id, filename, file_type, size, upload_date, relative_path, deleted_at, parent:files!parent_id(deleted_at), children:files!files_parent_id_fkey(id)")
+        .not("deleted_at", "is", null)
+        .eq("is_current", true)
+        .order("deleted_at", { ascending: false })
+        .limit(limit);
+
+      if (filesErr) {
+        console.error("Trash fetch error:", filesErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch the trash", details: filesErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      // An entry whose archive is also in the trash comes back with the archive
+      const listed = (files || []).filter((file) => {
+        const parent = Array.isArray(file.parent) ? file.parent[0] : file.parent;
+        return !parent?.deleted_at;
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          retention_days: days,
+          files: listed.map(({ parent: _parent, children, ...file }) => ({
+            ...file,
+            entries: Array.isArray(children) ? children.length : 0,
+            purge_after: purgeAfter(file.deleted_at!, days),
+          })),
+          count: listed.length,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action;
+
+    if (action === "purge") {
+      if (req.headers.get("Authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+        return new Response(JSON.stringify({ error: "Only the scheduled job can purge the trash" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const { data: expired, error: expiredErr } = await admin
+        .from("files")
+        .select("id, filename, storage_path, preprocessed_path, deleted_at, version_of")
+        .lt("deleted_at", cutoff)
+        .order("deleted_at", { ascending: true })
+        .limit(PURGE_BATCH_SIZE);
+
+      if (expiredErr) {
+        console.error("Expired trash fetch error:", expiredErr);
+        return new Response(JSON.stringify({ error: "Failed to fetch expired files", details: expiredErr.message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const purged = (expired || []).length > 0 ? await purgeFiles(admin, expired as TrashedFile[]) : [];
+      console.log(`Purged ${purged.length} file(s) trashed before ${cutoff}`);
+      return new Response(
+        JSON.stringify({ success: true, purged, retention_days: days, more: (expired || []).length === PURGE_BATCH_SIZE }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const fileId = typeof body?.file_id === "number" ? body.file_id : NaN;
+    if ((action !== "restore" && action !== "delete") || isNaN(fileId)) {
+      return new Response(JSON.stringify({ error: 'Body must include "action" ("restore" or "delete") and a numeric "file_id", or "action": "purge"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: file, error: fileErr } = await admin
+      .from("files")
+      .select("id, filename, storage_path, preprocessed_path, deleted_at, version_of, parent:files!parent_id(filename, deleted_at)")
+      .eq("id", fileId)
+      .not("deleted_at", "is", null)
+      .maybeSingle();
+
+    if (fileErr || !file) {
+      return new Response(JSON.stringify({ error: `File ${fileId} is not in the trash` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { parent: parentRow, ...trashed } = file;
+    const parent = Array.isArray(parentRow) ? parentRow[0] : parentRow;
+
+    if (action === "delete") {
+      const deleted = await purgeFiles(admin, [trashed as TrashedFile]);
+      console.log(`Permanently deleted file ${file.id} (${file.filename}) and ${deleted.length - 1} versions and unpacked entries`);
+      return new Response(JSON.stringify({ success: true, file_id: file.id, deleted, status: "deleted" }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (parent?.deleted_at) {
+      return new Response(JSON.stringify({ error: `${parent.filename} is in the trash too; restore it instead` }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const restored = await restoreFile(admin, trashed as TrashedFile);
+    console.log(`Restored file ${file.id} (${file.filename}) from the trash`);
+    return new Response(JSON.stringify({ success: true, file_id: file.id, restored, status: "restored" }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -0,0 +1,458 @@
+// Supabase Edge Function: upload-sessions
+// Resumable chunked uploads for files too large to send to documents-upload in
+// one request. Chunks are appended in order at an explicit byte offset, so a
+// client that lost its connection (or reloaded the page) asks for the session's
+// offset and carries on from there. Finalising stitches the chunks into one
+// Storage object and hands it to the same processing path as documents-upload.
+//
+// Usage:
+//   POST   /functions/v1/upload-sessions
+//          Body: { filename, size, content_type?, user_id?, ocr_languages?, preprocess?, on_duplicate?, relative_path?, version_of?, folder_id? }
+//          (the options mean the same as the documents-upload form fields)
+//          -> { session_id, offset: 0, chunk_size, expires_at }
+//   GET    /functions/v1/upload-sessions?session_id=...
+//          -> { offset, size, status, ... }; resume from "offset"
+//   PUT    /functions/v1/upload-sessions?session_id=...
+//          Header "Upload-Offset: <bytes received so far>", body: the raw chunk bytes
+//          -> { offset }; 409 with the current offset if the client is out of step
+//   POST   /functions/v1/upload-sessions?session_id=...
+//          -> finalises a complete upload; same response as documents-upload
+//   DELETE /functions/v1/upload-sessions?session_id=...
+//          -> cancels the upload and removes its chunks
+//
+// Sessions expire 24 hours after creation; expired chunks are removed the next
+// time a session is created.
+//
+// The rules in _shared/limits.ts apply as in documents-upload: the name and size
+// are checked when the session is created, and the content of the first chunk
+// before it is stored. A refused first chunk discards the session.
+//
+// Chunking only gets a file into Storage: processing still loads it into memory in one
+// piece, so a session is never larger than MAX_PROCESSING_BYTES (100MB, see limits.ts).
+
+import { serve } from "https://deno.land/std@0.223.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { DUPLICATE_ACTIONS, findDuplicate, nextVersion, parseDuplicateAction, resolveDuplicate, sha256Hex, type DuplicateAction } from "../_shared/dedup.ts";
+import { detectType } from "../_shared/detect.ts";
+import { findFolder, folderForPath } from "../_shared/folders.ts";
+import { createFileAndQueue, ensureDocumentsBucket, parseRelativePath, storageKey } from "../_shared/ingest.ts";
+import { OCR_LANGUAGES, parseOcrLanguages } from "../_shared/language.ts";
+import { checkDeclaredUpload, validateUpload } from "../_shared/limits.ts";
+import { DEFAULT_PREPROCESS_OPTIONS, PREPROCESS_STEPS, parsePreprocessOptions, type PreprocessOptions } from "../_shared/preprocess.ts";
+import { findVersionTarget } from "../_shared/versions.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, upload-offset",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+};
+
+// Chunk size clients should use; the last chunk may be smaller
+const CHUNK_SIZE = 5 * 1024 * 1024;
+// Largest chunk accepted, leaving clients some room
+const MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+// Expired sessions cleaned up per session created
+const EXPIRED_CLEANUP_BATCH = 10;
+
+interface UploadSession {
+  id: string;
+  user_id: string | null;
+  filename: string;
+  content_type: string | null;
+  size: number;
+  upload_offset: number;
+  chunk_count: number;
+  ocr_languages: string[] | null;
+  preprocess_options: PreprocessOptions | null;
+  on_duplicate: DuplicateAction;
+  relative_path: string | null;
+  version_of: number | null;
+  folder_id: number | null;
+  status: "open" | "finalizing" | "completed" | "expired";
+  result: Record<string, unknown> | null;
+  error_message: string | null;
+  expires_at: string;
+}
+
+const chunkPath = (sessionId: string, index: number) => `uploads/${sessionId}/${String(index).padStart(6, "0")}`;
+
+const chunkPaths = (session: UploadSession) =>
+  Array.from({ length: session.chunk_count }, (_, index) => chunkPath(session.id, index));
+
+const sessionStatus = (session: UploadSession) => ({
+  session_id: session.id,
+  filename: session.filename,
+  size: session.size,
+  offset: session.upload_offset,
+  chunk_size: CHUNK_SIZE,
+  status: session.status,
+  expires_at: session.expires_at,
+  error_message: session.error_message,
+  result: session.result,
+});
+
+async function downloadChunk(admin: SupabaseClient, path: string): Promise<Uint8Array> {
+  const { data, error } = await admin.storage.from("documents").download(path);
+  if (error || !data) throw new Error(`Chunk download failed (${path}): ${error?.message ?? "no data"}`);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+// Yields the chunks one at a time, so the whole file is never held in memory
+async function* readChunks(admin: SupabaseClient, session: UploadSession): AsyncGenerator<Uint8Array> {
+  for (const path of chunkPaths(session)) {
+    yield await downloadChunk(admin, path);
+  }
+}
+
+async function removeChunks(admin: SupabaseClient, session: UploadSession) {
+  const paths = chunkPaths(session);
+  if (paths.length === 0) return;
+  const { error } = await admin.storage.from("documents").remove(paths);
+  if (error) console.error(`Failed to remove chunks of upload session ${session.id}`, error);
+}
+
+async function expireSessions(admin: SupabaseClient) {
+  const { data: expired } = await admin
+    .from("upload_sessions")
+    .select("*")
+    .in("status", ["open", "finalizing"])
+    .lt("expires_at", new Date().toISOString())
+    .limit(EXPIRED_CLEANUP_BATCH);
+
+  for (const session of (expired || []) as UploadSession[]) {
+    await removeChunks(admin, session);
+    await admin.from("upload_sessions").update({ status: "expired", updated_at: new Date().toISOString() }).eq("id", session.id);
+  }
+}
+
+// Stitches the chunks into one object and queues it, or resolves it as a duplicate
+async function finalizeSession(admin: SupabaseClient, session: UploadSession, supabaseUrl: string, serviceRoleKey: string) {
+  const head = await downloadChunk(admin, chunkPath(session.id, 0));
+  const fileType = detectType(new File([], session.filename, { type: session.content_type ?? "" }), head);
+  const contentHash = await sha256Hex(readChunks(admin, session));
+
+  // Checked again: the document may have been deleted while the chunks were uploading
+  const versionTarget = session.version_of ? await findVersionTarget(admin, session.version_of) : null;
+  if (session.version_of && !versionTarget) {
+    throw new Error(`File ${session.version_of} does not exist or cannot take new versions`);
+  }
+
+  const existing = versionTarget ? null : await findDuplicate(admin, contentHash);
+  if (existing && session.on_duplicate !== "version") {
+    return await resolveDuplicate(admin, existing, session.on_duplicate, {
+      filename: session.filename,
+      userId: session.user_id,
+      contentHash,
+    });
+  }
+
+  const previous = versionTarget ?? existing;
+  const version = previous ? await nextVersion(admin, previous) : null;
+  const key = storageKey(session.user_id, session.filename, fileType);
+
+  const chunks = readChunks(admin, session);
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+  });
+
+  const { error: uploadError } = await admin.storage
+    .from("documents")
+    .upload(key, stream, { contentType: session.content_type || "application/octet-stream", upsert: false, duplex: "half" });
+  if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+  const ocrLanguages = session.ocr_languages ?? [];
+  const preprocess = session.preprocess_options ?? DEFAULT_PREPROCESS_OPTIONS;
+  // A folder deleted meanwhile has cleared folder_id, so the file lands at the top level
+  const folderId = previous ? previous.folder_id : await folderForPath(admin, session.folder_id, session.relative_path);
+  const queued = await createFileAndQueue(admin, supabaseUrl, serviceRoleKey, {
+    userId: session.user_id,
+    filename: session.filename,
+    fileType,
+    size: session.size,
+    storagePath: key,
+    ocrLanguages,
+    preprocess,
+    contentHash,
+    version,
+    relativePath: session.relative_path,
+    folderId,
+    parent: null,
+  });
+
+  return {
+    success: true,
+    outcome: version ? "versioned" : "created",
+    duplicate_of: existing?.id ?? null,
+    version_of: version?.versionOf ?? null,
+    file_id: queued.fileId,
+    storage_path: key,
+    job_id: queued.jobId,
+    status: "pending",
+    ocr_languages: ocrLanguages,
+    preprocess_options: fileType === "image" ? preprocess : null,
+    content_hash: contentHash,
+    version: version?.version ?? 1,
+    relative_path: session.relative_path,
+    folder_id: folderId,
+    bytes: session.size,
+    file_type: fileType,
+  };
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!["GET", "POST", "PUT", "DELETE"].includes(req.method)) {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: "Supabase environment not configured" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { global: { fetch } });
+    const sessionId = new URL(req.url).searchParams.get("session_id");
+
+    // Create a session
+    if (req.method === "POST" && !sessionId) {
+      const body = await req.json().catch(() => ({}));
+      const filename = typeof body?.filename === "string" ? body.filename.trim() : "";
+      const size = typeof body?.size === "number" ? body.size : NaN;
+
+      if (!filename || !Number.isInteger(size) || size <= 0) {
+        return new Response(JSON.stringify({ error: 'Body must include "filename" and a positive integer "size"' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const contentType = typeof body.content_type === "string" ? body.content_type : null;
+      const rejection = checkDeclaredUpload(filename, contentType, size);
+      if (rejection) {
+        return new Response(JSON.stringify({ error: rejection.error, code: rejection.code }), { status: rejection.status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const ocrLanguages = parseOcrLanguages(body.ocr_languages ?? null);
+      if (ocrLanguages.unknown.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Unsupported OCR language(s): ${ocrLanguages.unknown.join(", ")}`, supported: Object.values(OCR_LANGUAGES) }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const preprocess = parsePreprocessOptions(body.preprocess ?? null);
+      if (preprocess.unknown.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Unknown preprocessing step(s): ${preprocess.unknown.join(", ")}`, supported: PREPROCESS_STEPS }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const onDuplicate = parseDuplicateAction(body.on_duplicate ?? null);
+      if (!onDuplicate) {
+        return new Response(
+          JSON.stringify({ error: `Unknown on_duplicate value: ${body.on_duplicate}`, supported: DUPLICATE_ACTIONS }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const relativePath = parseRelativePath(typeof body.relative_path === "string" ? body.relative_path : null);
+      if (relativePath.error) {
+        return new Response(JSON.stringify({ error: relativePath.error }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const versionOf = body.version_of ?? null;
+      if (versionOf !== null && !(Number.isInteger(versionOf) && await findVersionTarget(admin, versionOf))) {
+        return new Response(JSON.stringify({ error: `File ${versionOf} does not exist or cannot take new versions` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const folderId = body.folder_id ?? null;
+      if (folderId !== null && !(Number.isInteger(folderId) && await findFolder(admin, folderId))) {
+        return new Response(JSON.stringify({ error: `Folder ${folderId} not found` }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      await expireSessions(admin);
+      await ensureDocumentsBucket(admin);
+
+      const { data: session, error: createErr } = await admin
+        .from("upload_sessions")
+        .insert({
+          user_id: body.user_id ?? null,
+          filename,
+          content_type: contentType,
+          size,
+          ocr_languages: ocrLanguages.languages.length > 0 ? ocrLanguages.languages : null,
+          preprocess_options: preprocess.options,
+          on_duplicate: onDuplicate,
+          relative_path: relativePath.path,
+          version_of: versionOf,
+          folder_id: folderId,
+        })
+        .select("*")
+        .single();
+
+      if (createErr || !session) {
+        console.error("upload_sessions insert error", createErr);
+        return new Response(JSON.stringify({ error: "Failed to create upload session" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      console.log(`Upload session ${session.id} created for ${filename} (${size} bytes)`);
+      return new Response(JSON.stringify({ success: true, ...sessionStatus(session as UploadSession) }), { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (!sessionId) {
+      return new Response(JSON.stringify({ error: 'Query parameter "session_id" is required' }), { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: found, error: fetchErr } = await admin
+      .from("upload_sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .maybeSingle();
+
+    if (fetchErr || !found) {
+      return new Response(JSON.stringify({ error: "Upload session not found" }), { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const session = found as UploadSession;
+    const expired = session.status === "expired" ||
+      (session.status !== "completed" && new Date(session.expires_at).getTime() < Date.now());
+
+    if (req.method === "GET") {
+      return new Response(
+        JSON.stringify({ success: true, ...sessionStatus(session), status: expired ? "expired" : session.status }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    if (req.method === "DELETE") {
+      if (session.status === "completed") {
+        return new Response(JSON.stringify({ error: "Upload already finalised" }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+      await removeChunks(admin, session);
+      await admin.from("upload_sessions").delete().eq("id", session.id);
+      return new Response(JSON.stringify({ success: true, session_id: session.id, status: "cancelled" }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (expired) {
+      return new Response(JSON.stringify({ error: "Upload session expired" }), { status: 410, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    // Append a chunk
+    if (req.method === "PUT") {
+      const offset = Number(req.headers.get("upload-offset"));
+      if (session.status !== "open") {
+        return new Response(JSON.stringify({ error: `Upload session is ${session.status}`, ...sessionStatus(session) }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+      if (!Number.isInteger(offset) || offset !== session.upload_offset) {
+        return new Response(JSON.stringify({ error: "Upload-Offset does not match the session offset", ...sessionStatus(session) }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const chunk = new Uint8Array(await req.arrayBuffer());
+      if (chunk.length === 0 || chunk.length > MAX_CHUNK_SIZE || offset + chunk.length > session.size) {
+        return new Response(
+          JSON.stringify({ error: `Chunk must be 1-${MAX_CHUNK_SIZE} bytes and must not run past the file size` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      if (offset === 0) {
+        const validation = validateUpload(session.filename, session.content_type, session.size, chunk);
+        if (validation.rejection) {
+          const { status, code, error } = validation.rejection;
+          console.warn(`Rejected upload session ${session.id} (${session.filename}): ${code}`);
+          await removeChunks(admin, session);
+          await admin.from("upload_sessions").delete().eq("id", session.id);
+          return new Response(JSON.stringify({ error, code }), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+        }
+      }
+
+      // Overwrites a chunk whose earlier attempt was stored but not recorded
+      const { error: chunkErr } = await admin.storage
+        .from("documents")
+        .upload(chunkPath(session.id, session.chunk_count), chunk, { contentType: "application/octet-stream", upsert: true });
+      if (chunkErr) {
+        console.error("Chunk upload error", chunkErr);
+        return new Response(JSON.stringify({ error: "Chunk upload failed" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      // Only advances if no other request got there first
+      const { data: advanced, error: advanceErr } = await admin
+        .from("upload_sessions")
+        .update({
+          upload_offset: offset + chunk.length,
+          chunk_count: session.chunk_count + 1,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", session.id)
+        .eq("upload_offset", offset)
+        .eq("status", "open")
+        .select("upload_offset");
+
+      if (advanceErr || !advanced || advanced.length === 0) {
+        return new Response(JSON.stringify({ error: "Upload session changed while the chunk was stored; check its offset" }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, session_id: session.id, offset: advanced[0].upload_offset, size: session.size }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // Finalise; repeated calls return the first result
+    if (session.status === "completed") {
+      return new Response(JSON.stringify(session.result), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (session.upload_offset < session.size) {
+      return new Response(
+        JSON.stringify({ error: `Upload incomplete: ${session.upload_offset} of ${session.size} bytes received`, ...sessionStatus(session) }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const { data: claimed } = await admin
+      .from("upload_sessions")
+      .update({ status: "finalizing", error_message: null, updated_at: new Date().toISOString() })
+      .eq("id", session.id)
+      .eq("status", "open")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) {
+      return new Response(JSON.stringify({ error: "Upload is already being finalised" }), { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    let result: Awaited<ReturnType<typeof finalizeSession>>;
+    try {
+      result = await finalizeSession(admin, session, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    } catch (e) {
+      // Chunks are kept so finalising can be retried
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`Finalising upload session ${session.id} failed`, e);
+      await admin
+        .from("upload_sessions")
+        .update({ status: "open", error_message: message, updated_at: new Date().toISOString() })
+        .eq("id", session.id);
+      return new Response(JSON.stringify({ error: message }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    await admin
+      .from("upload_sessions")
+      .update({ status: "completed", result, file_id: result.file_id, updated_at: new Date().toISOString() })
+      .eq("id", session.id);
+    await removeChunks(admin, session);
+
+    return new Response(JSON.stringify(result), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  } catch (e) {
+    console.error("Unexpected error", e);
+    return new Response(JSON.stringify({ error: "Server error" }), { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -0,0 +1,4 @@
+-- File types for text-based uploads extracted by documents-upload
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'markdown';
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'html';
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'csv';
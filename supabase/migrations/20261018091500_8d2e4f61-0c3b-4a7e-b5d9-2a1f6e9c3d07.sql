@@ -0,0 +1,4 @@
+-- File types for Office documents extracted by documents-upload
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'docx';
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'pptx';
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'odt';
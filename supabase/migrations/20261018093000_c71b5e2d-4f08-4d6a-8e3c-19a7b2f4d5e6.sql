@@ -0,0 +1,20 @@
+-- Spreadsheet uploads (XLSX, CSV)
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'xlsx';
+
+-- One row per sheet: names, headers and row counts, plus the first rows for previews
+CREATE TABLE IF NOT EXISTS public.file_sheets (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  file_id bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  sheet_index integer NOT NULL,
+  name text NOT NULL,
+  headers text[] NOT NULL DEFAULT '{}',
+  row_count integer NOT NULL DEFAULT 0,
+  preview_rows jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (file_id, sheet_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_sheets_file_id ON public.file_sheets (file_id);
+
+-- Same policy as the other tables: only the service role (Edge Functions) reads and writes
+ALTER TABLE public.file_sheets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+-- Per-page extraction record for PDFs: whether each page's text came from the
+-- pdf.js text layer or from OCR of the rendered page
+CREATE TABLE IF NOT EXISTS public.file_pages (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  file_id bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  text_source text NOT NULL CHECK (text_source IN ('text_layer', 'ocr')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (file_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_pages_file_id ON public.file_pages (file_id);
+
+ALTER TABLE public.file_pages ENABLE ROW LEVEL SECURITY;
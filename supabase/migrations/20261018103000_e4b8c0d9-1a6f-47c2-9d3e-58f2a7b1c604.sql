@@ -0,0 +1,17 @@
+-- Per-page text for page-aware search hits
+ALTER TABLE public.file_pages
+ADD COLUMN IF NOT EXISTS page_text text NOT NULL DEFAULT '',
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+UPDATE public.file_pages
+SET search_vector = to_tsvector('english', COALESCE(page_text, ''))
+WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_file_pages_search_vector
+ON public.file_pages USING GIN (search_vector);
+
+-- Keep the vector in step with page_text, as for file_content
+DROP TRIGGER IF EXISTS trg_file_pages_tsvector_update ON public.file_pages;
+CREATE TRIGGER trg_file_pages_tsvector_update
+BEFORE INSERT OR UPDATE OF page_text ON public.file_pages
+FOR EACH ROW EXECUTE FUNCTION tsvector_update_trigger('search_vector', 'pg_catalog.english', 'page_text');
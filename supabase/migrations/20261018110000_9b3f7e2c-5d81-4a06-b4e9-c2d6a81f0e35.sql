@@ -0,0 +1,66 @@
+-- Document processing status, mirroring Document.status in src/types/atlas.ts.
+-- Existing rows were processed synchronously, so they start out completed.
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+  CHECK (status IN ('pending', 'processing', 'completed', 'error')),
+ADD COLUMN IF NOT EXISTS error_message text,
+ADD COLUMN IF NOT EXISTS processed_at timestamptz;
+
+ALTER TABLE public.files ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_files_status ON public.files (status);
+
+-- Queue of extraction + tagging work picked up by the process-document function
+CREATE TABLE IF NOT EXISTS public.processing_jobs (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  file_id bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queued
+ON public.processing_jobs (created_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_file_id ON public.processing_jobs (file_id);
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS trg_processing_jobs_updated_at ON public.processing_jobs;
+CREATE TRIGGER trg_processing_jobs_updated_at
+BEFORE UPDATE ON public.processing_jobs
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- Atomically claim the oldest queued job (or a specific one) for a worker.
+-- SKIP LOCKED lets several worker invocations drain the queue concurrently.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_job_id bigint DEFAULT NULL)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs AS j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      started_at = NOW(),
+      finished_at = NULL
+  WHERE j.id = (
+    SELECT q.id
+    FROM public.processing_jobs AS q
+    WHERE q.status = 'queued'
+      AND (p_job_id IS NULL OR q.id = p_job_id)
+    ORDER BY q.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(bigint) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,65 @@
+-- Retry with exponential backoff and a dead-letter state for processing_jobs.
+-- A failed job goes back to 'queued' with next_run_at pushed out until it has
+-- used max_attempts, then it is parked as 'dead_letter' for manual re-runs.
+ALTER TABLE public.processing_jobs
+ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 5,
+ADD COLUMN IF NOT EXISTS next_run_at timestamptz NOT NULL DEFAULT now(),
+ADD COLUMN IF NOT EXISTS failed_step text;
+
+-- Jobs that failed before retries existed are treated as dead-lettered
+ALTER TABLE public.processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_status_check;
+UPDATE public.processing_jobs SET status = 'dead_letter' WHERE status = 'failed';
+ALTER TABLE public.processing_jobs ADD CONSTRAINT processing_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'succeeded', 'dead_letter'));
+
+DROP INDEX IF EXISTS public.idx_processing_jobs_queued;
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queued
+ON public.processing_jobs (next_run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_dead_letter
+ON public.processing_jobs (finished_at DESC) WHERE status = 'dead_letter';
+
+-- One row per failed attempt, so the reason for every retry is kept
+CREATE TABLE IF NOT EXISTS public.processing_job_errors (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  job_id bigint NOT NULL REFERENCES public.processing_jobs(id) ON DELETE CASCADE,
+  file_id bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  attempt integer NOT NULL,
+  step text NOT NULL,
+  error text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_processing_job_errors_job_id ON public.processing_job_errors (job_id, attempt);
+CREATE INDEX IF NOT EXISTS idx_processing_job_errors_file_id ON public.processing_job_errors (file_id);
+
+ALTER TABLE public.processing_job_errors ENABLE ROW LEVEL SECURITY;
+
+-- Only jobs whose backoff has elapsed can be claimed
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_job_id bigint DEFAULT NULL)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs AS j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      started_at = NOW(),
+      finished_at = NULL
+  WHERE j.id = (
+    SELECT q.id
+    FROM public.processing_jobs AS q
+    WHERE q.status = 'queued'
+      AND q.next_run_at <= NOW()
+      AND (p_job_id IS NULL OR q.id = p_job_id)
+    ORDER BY q.next_run_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(bigint) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,96 @@
+-- Multi-language OCR and language-aware full-text search.
+-- ocr_languages: Tesseract codes requested on upload (NULL = auto-detect).
+-- language: ISO 639-1 code detected from the extracted text (NULL = unknown).
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS ocr_languages text[],
+ADD COLUMN IF NOT EXISTS language text;
+
+CREATE INDEX IF NOT EXISTS idx_files_language ON public.files (language);
+
+-- Text-search configuration for a detected language; unknown languages keep the
+-- previous English behaviour
+CREATE OR REPLACE FUNCTION public.text_search_config(p_language text)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_language
+    WHEN 'de' THEN 'pg_catalog.german'
+    WHEN 'fr' THEN 'pg_catalog.french'
+    WHEN 'es' THEN 'pg_catalog.spanish'
+    WHEN 'it' THEN 'pg_catalog.italian'
+    WHEN 'nl' THEN 'pg_catalog.dutch'
+    WHEN 'pt' THEN 'pg_catalog.portuguese'
+    WHEN 'ru' THEN 'pg_catalog.russian'
+    WHEN 'el' THEN 'pg_catalog.greek'
+    WHEN 'ar' THEN 'pg_catalog.arabic'
+    ELSE 'pg_catalog.english'
+  END::regconfig;
+$$;
+
+-- Replace the fixed-English triggers with ones that use the file's language
+CREATE OR REPLACE FUNCTION public.file_content_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := to_tsvector(
+    public.text_search_config((SELECT f.language FROM public.files AS f WHERE f.id = NEW.file_id)),
+    COALESCE(NEW.indexed_text, '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.file_pages_search_vector_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := to_tsvector(
+    public.text_search_config((SELECT f.language FROM public.files AS f WHERE f.id = NEW.file_id)),
+    COALESCE(NEW.page_text, '')
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_file_content_tsvector_update ON public.file_content;
+CREATE TRIGGER trg_file_content_tsvector_update
+BEFORE INSERT OR UPDATE OF indexed_text ON public.file_content
+FOR EACH ROW EXECUTE FUNCTION public.file_content_search_vector_update();
+
+DROP TRIGGER IF EXISTS trg_file_pages_tsvector_update ON public.file_pages;
+CREATE TRIGGER trg_file_pages_tsvector_update
+BEFORE INSERT OR UPDATE OF page_text ON public.file_pages
+FOR EACH ROW EXECUTE FUNCTION public.file_pages_search_vector_update();
+
+-- Full-text matches where each document's text is queried with its own configuration,
+-- so a German query matches German stems in German documents
+CREATE OR REPLACE FUNCTION public.search_file_content(p_query text)
+RETURNS TABLE (file_id bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT fc.file_id::bigint
+  FROM public.file_content AS fc
+  JOIN public.files AS f ON f.id = fc.file_id
+  WHERE fc.search_vector @@ websearch_to_tsquery(public.text_search_config(f.language), p_query);
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_file_pages(p_query text)
+RETURNS TABLE (file_id bigint, page_number integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT fp.file_id::bigint, fp.page_number
+  FROM public.file_pages AS fp
+  JOIN public.files AS f ON f.id = fp.file_id
+  WHERE fp.search_vector @@ websearch_to_tsquery(public.text_search_config(f.language), p_query)
+  ORDER BY fp.file_id, fp.page_number;
+$$;
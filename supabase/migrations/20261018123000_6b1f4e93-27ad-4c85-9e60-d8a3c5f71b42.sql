@@ -0,0 +1,23 @@
+-- OCR word geometry: one row per OCR'd image or PDF page, with every word's
+-- bounding box (pixels of the OCR'd image) and confidence (0-100)
+CREATE TABLE IF NOT EXISTS public.file_ocr_pages (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  file_id bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  page_number integer NOT NULL,
+  width integer,
+  height integer,
+  confidence numeric(5,1) NOT NULL DEFAULT 0,
+  word_count integer NOT NULL DEFAULT 0,
+  -- [{ "text": "Invoice", "confidence": 93.4, "bbox": [x0, y0, x1, y1] }, ...]
+  words jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (file_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_ocr_pages_file_id ON public.file_ocr_pages (file_id);
+
+ALTER TABLE public.file_ocr_pages ENABLE ROW LEVEL SECURITY;
+
+-- Word-weighted mean OCR confidence for the whole file; NULL when nothing was OCR'd
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS ocr_confidence numeric(5,1);
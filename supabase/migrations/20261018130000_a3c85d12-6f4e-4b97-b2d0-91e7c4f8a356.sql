@@ -0,0 +1,8 @@
+-- Image preprocessing before OCR.
+-- preprocess_options: steps requested on upload ({ rotate, deskew, denoise, contrast, binarize }).
+-- preprocessed_path: Storage key of the cleaned-up PNG, stored next to the original.
+-- preprocessing_steps: what was applied (rotation, deskew angle, threshold, ...).
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS preprocess_options jsonb,
+ADD COLUMN IF NOT EXISTS preprocessed_path text,
+ADD COLUMN IF NOT EXISTS preprocessing_steps jsonb;
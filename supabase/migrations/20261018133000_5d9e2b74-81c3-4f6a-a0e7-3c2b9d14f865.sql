@@ -0,0 +1,25 @@
+-- Content-hash deduplication on upload.
+-- content_hash: hex SHA-256 of the uploaded bytes, used to find exact duplicates.
+-- version_of / version: a duplicate kept as a new version points at the first file of its chain.
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS content_hash text,
+ADD COLUMN IF NOT EXISTS version_of bigint REFERENCES public.files(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_files_content_hash ON public.files (content_hash);
+CREATE INDEX IF NOT EXISTS idx_files_version_of ON public.files (version_of);
+
+-- Duplicate uploads linked to an existing file instead of being stored again:
+-- the file keeps one copy of the bytes and extracted text, and remembers each
+-- name it was uploaded under
+CREATE TABLE IF NOT EXISTS public.file_aliases (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  file_id bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  filename text NOT NULL,
+  user_id integer,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_aliases_file_id ON public.file_aliases (file_id);
+
+ALTER TABLE public.file_aliases ENABLE ROW LEVEL SECURITY;
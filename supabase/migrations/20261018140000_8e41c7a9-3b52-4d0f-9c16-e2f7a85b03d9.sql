@@ -0,0 +1,23 @@
+-- Near-duplicate detection: a MinHash signature of each file's indexed text,
+-- written by process-document and compared by duplicate-clusters
+CREATE TABLE IF NOT EXISTS public.file_fingerprints (
+  file_id bigint PRIMARY KEY REFERENCES public.files(id) ON DELETE CASCADE,
+  minhash integer[] NOT NULL,
+  shingle_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.file_fingerprints ENABLE ROW LEVEL SECURITY;
+
+-- Pairs a reviewer marked as "not duplicates"; they are left out of the clusters.
+-- Stored once per pair with the smaller id first.
+CREATE TABLE IF NOT EXISTS public.duplicate_dismissals (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  file_id_a bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  file_id_b bigint NOT NULL REFERENCES public.files(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (file_id_a, file_id_b),
+  CHECK (file_id_a < file_id_b)
+);
+
+ALTER TABLE public.duplicate_dismissals ENABLE ROW LEVEL SECURITY;
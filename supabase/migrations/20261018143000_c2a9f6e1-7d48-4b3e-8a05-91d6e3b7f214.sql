@@ -0,0 +1,30 @@
+-- Resumable chunked uploads (upload-sessions function).
+-- Chunks are stored as documents/uploads/<session id>/<chunk index> until the
+-- session is finalised into a regular files row; upload_offset is the number of
+-- bytes received so far, which is where a client resumes.
+CREATE TABLE IF NOT EXISTS public.upload_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id integer,
+  filename text NOT NULL,
+  content_type text,
+  size bigint NOT NULL CHECK (size > 0),
+  upload_offset bigint NOT NULL DEFAULT 0,
+  chunk_count integer NOT NULL DEFAULT 0,
+  -- Upload options, applied when the session is finalised
+  ocr_languages text[],
+  preprocess_options jsonb,
+  on_duplicate text NOT NULL DEFAULT 'skip',
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'finalizing', 'completed', 'expired')),
+  -- The finalise response, returned again if the client asks twice (e.g. after a reload)
+  result jsonb,
+  file_id bigint REFERENCES public.files(id) ON DELETE SET NULL,
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '24 hours'
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expiry ON public.upload_sessions (status, expires_at);
+
+ALTER TABLE public.upload_sessions ENABLE ROW LEVEL SECURITY;
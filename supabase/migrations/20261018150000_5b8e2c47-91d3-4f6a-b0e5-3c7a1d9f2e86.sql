@@ -0,0 +1,10 @@
+-- Where a file sat inside a dropped folder, e.g. "Invoices/2024/march.pdf".
+-- NULL for files uploaded on their own. Kept as a plain path so the directory
+-- structure can later be mapped onto folders.
+ALTER TABLE public.files ADD COLUMN IF NOT EXISTS relative_path text;
+ALTER TABLE public.upload_sessions ADD COLUMN IF NOT EXISTS relative_path text;
+
+-- Prefix lookups ("everything under Invoices/")
+CREATE INDEX IF NOT EXISTS idx_files_relative_path
+  ON public.files (relative_path text_pattern_ops)
+  WHERE relative_path IS NOT NULL;
@@ -0,0 +1,21 @@
+-- Malware scanning (process-document "scan" step) and quarantine.
+-- Flagged files are moved under documents/quarantine/ and marked 'quarantined';
+-- files, search and downloads skip them until an admin releases them through
+-- the quarantine function.
+ALTER TABLE public.files DROP CONSTRAINT IF EXISTS files_status_check;
+
+ALTER TABLE public.files ADD CONSTRAINT files_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'error', 'quarantined'));
+
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS scanned_at timestamptz,
+ADD COLUMN IF NOT EXISTS scanner text,
+ADD COLUMN IF NOT EXISTS malware_signature text,
+ADD COLUMN IF NOT EXISTS quarantined_at timestamptz,
+-- Set when an admin releases a flagged file; later scans still run but no longer quarantine it
+ADD COLUMN IF NOT EXISTS quarantine_released_at timestamptz,
+ADD COLUMN IF NOT EXISTS quarantine_released_by text;
+
+CREATE INDEX IF NOT EXISTS idx_files_quarantined
+  ON public.files (quarantined_at DESC)
+  WHERE status = 'quarantined';
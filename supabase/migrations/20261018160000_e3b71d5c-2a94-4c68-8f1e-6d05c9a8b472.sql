@@ -0,0 +1,15 @@
+-- Archive uploads (ZIP, TAR, gzip). process-document stores every entry as a
+-- child file pointing at its archive; the archive row keeps a summary of what was
+-- unpacked and what was skipped, e.g.
+--   {"format": "zip", "entries": 200, "skipped": [{"path": "run.exe", "reason": "..."}]}
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'archive';
+
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS parent_id bigint REFERENCES public.files(id) ON DELETE CASCADE,
+-- 0 for uploads, 1 for entries of an uploaded archive, 2 for entries of an archive inside it
+ADD COLUMN IF NOT EXISTS archive_depth integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS archive_summary jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_files_parent_id
+  ON public.files (parent_id)
+  WHERE parent_id IS NOT NULL;
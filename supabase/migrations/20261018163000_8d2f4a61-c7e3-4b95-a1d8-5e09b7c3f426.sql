@@ -0,0 +1,13 @@
+-- Email ingestion (.eml / .mbox). A message's headers are kept in files.metadata:
+--   {"email": {"subject": "...", "from": "Ann <ann@example.com>", "to": [...], "cc": [...],
+--              "date": "2024-03-05T09:15:00.000Z", "message_id": "...", "in_reply_to": null}}
+-- Attachments, and the messages of a mailbox, are child files (parent_id).
+ALTER TYPE public.file_type_enum ADD VALUE IF NOT EXISTS 'email';
+
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS metadata jsonb;
+
+-- The files function filters emails by sender and date; dates are stored as UTC ISO strings
+CREATE INDEX IF NOT EXISTS idx_files_email_date
+  ON public.files ((metadata -> 'email' ->> 'date'))
+  WHERE metadata ? 'email';
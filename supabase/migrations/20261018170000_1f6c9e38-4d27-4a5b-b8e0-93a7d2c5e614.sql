@@ -0,0 +1,16 @@
+-- Embedded document metadata. process-document now also fills files.metadata
+-- (added for email headers) with the PDF info dictionary and image EXIF:
+--   {"pdf":  {"title": "...", "author": "...", "producer": "...", "created_at": "...", "page_count": 12}}
+--   {"exif": {"camera": "Canon EOS R5", "captured_at": "...", "orientation": 1,
+--             "gps": {"latitude": 52.52, "longitude": 13.4}}}
+-- The files function filters on it with meta=<section>.<field>:<value>.
+COMMENT ON COLUMN public.files.metadata IS
+  'Metadata embedded in the file: {"email": {...}}, {"pdf": {...}} or {"exif": {...}}';
+
+CREATE INDEX IF NOT EXISTS idx_files_exif_captured_at
+  ON public.files ((metadata -> 'exif' ->> 'captured_at'))
+  WHERE metadata ? 'exif';
+
+CREATE INDEX IF NOT EXISTS idx_files_pdf_created_at
+  ON public.files ((metadata -> 'pdf' ->> 'created_at'))
+  WHERE metadata ? 'pdf';
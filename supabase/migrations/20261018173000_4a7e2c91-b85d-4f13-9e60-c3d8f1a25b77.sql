@@ -0,0 +1,33 @@
+-- Trash: DELETE /files/:id sets deleted_at instead of removing the row, so the
+-- stored object survives a mistaken click. Trashed files are left out of the
+-- files and search functions; the trash function restores them or deletes them
+-- for good.
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_files_deleted_at
+  ON public.files (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Hourly purge of files trashed longer than TRASH_RETENTION_DAYS (default 30).
+-- The job calls the trash function with the service role key; both values are
+-- read from Vault, so create them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'trash-purge',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "purge"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,24 @@
+-- Document versions. An upload can name the document it is a new version of
+-- (version_of on documents-upload and upload-sessions); it joins that document's
+-- chain with the next version number and keeps its own storage object, extracted
+-- text and tags. is_current marks the version that is listed and searched;
+-- restoring an earlier version (file-versions function) moves the mark.
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS is_current boolean NOT NULL DEFAULT true;
+
+-- Chains created by on_duplicate=version so far: the highest version is current
+UPDATE public.files AS f
+SET is_current = false
+WHERE EXISTS (
+  SELECT 1 FROM public.files AS newer
+  WHERE coalesce(newer.version_of, newer.id) = coalesce(f.version_of, f.id)
+    AND newer.version > f.version
+);
+
+CREATE INDEX IF NOT EXISTS idx_files_superseded
+  ON public.files (version_of)
+  WHERE NOT is_current;
+
+-- The document a resumable upload becomes a new version of
+ALTER TABLE public.upload_sessions
+ADD COLUMN IF NOT EXISTS version_of bigint REFERENCES public.files(id) ON DELETE SET NULL;
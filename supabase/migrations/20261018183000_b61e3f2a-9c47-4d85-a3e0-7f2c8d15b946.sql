@@ -0,0 +1,28 @@
+-- Folders: documents can be filed into nested folders (folders.parent_id). A
+-- document's versions and the entries unpacked from it share its folder_id.
+-- Deleting a folder is only allowed once it is empty (see the folders function);
+-- files in the trash that still point at it fall back to no folder.
+CREATE TABLE IF NOT EXISTS public.folders (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  name text NOT NULL CHECK (length(trim(name)) > 0 AND position('/' IN name) = 0),
+  parent_id bigint REFERENCES public.folders(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+-- Sibling names are unique regardless of case; top-level folders count as siblings
+CREATE UNIQUE INDEX IF NOT EXISTS folders_parent_name_key
+  ON public.folders (coalesce(parent_id, 0), lower(name));
+
+ALTER TABLE public.folders ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS folder_id bigint REFERENCES public.folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_files_folder_id
+  ON public.files (folder_id)
+  WHERE folder_id IS NOT NULL;
+
+-- Resumable uploads remember their target folder until they are finalized
+ALTER TABLE public.upload_sessions
+ADD COLUMN IF NOT EXISTS folder_id bigint REFERENCES public.folders(id) ON DELETE SET NULL;
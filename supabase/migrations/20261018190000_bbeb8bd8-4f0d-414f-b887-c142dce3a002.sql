@@ -0,0 +1,22 @@
+-- Processing retries: a failed step puts its job back to 'queued' with a later
+-- next_run_at, and the worker only claims jobs whose backoff has elapsed. Calling
+-- process-document every minute without a job_id drains whatever is due, so
+-- retries run (and end in dead_letter once max_attempts is used). Uses the same
+-- Vault secrets (project_url, service_role_key) as the trash-purge job.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-document',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-document',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);